@@ -1,14 +1,18 @@
 // src/components/data/CoordinateTable.tsx
 import React, { useState } from 'react';
-import { Coordinate } from '../../lib/api';
+import { Coordinate, MissionAction } from '../../lib/api';
+import MissionActionEditor, { describeMissionAction } from './MissionActionEditor';
 
 interface CoordinateTableProps {
   coordinates: Coordinate[];
   onAddCoordinate: (coordinate: Coordinate) => void;
   onUpdateCoordinate: (index: number, coordinate: Coordinate) => void;
   onRemoveCoordinate: (index: number) => void;
-  onClearCoordinates: () => void;
+  onClearCoordinates?: () => void; // not offered when omitted
+  onInsertCoordinate?: (index: number, coordinate: Coordinate) => void; // offers a position for new waypoints
   disabled?: boolean;
+  exclusions?: string[][]; // names of the exclusion zones each waypoint lies in
+  locked?: boolean[]; // waypoints reached in flight, which can no longer change
 }
 
 const CoordinateTable: React.FC<CoordinateTableProps> = ({
@@ -17,38 +21,71 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
   onUpdateCoordinate,
   onRemoveCoordinate,
   onClearCoordinates,
-  disabled = false
+  onInsertCoordinate,
+  disabled = false,
+  exclusions = [],
+  locked = []
 }) => {
   const [newLat, setNewLat] = useState<string>('');
   const [newLng, setNewLng] = useState<string>('');
+  const [newAlt, setNewAlt] = useState<string>('');
+  const [newActions, setNewActions] = useState<MissionAction[]>([]);
+  const [newPosition, setNewPosition] = useState<string>('');
   const [editIndex, setEditIndex] = useState<number | null>(null);
   
-  const handleAddCoordinate = () => {
+  // Parse the input fields; altitude is optional and left unset when blank
+  const parseInputs = (): Coordinate | null => {
     const lat = parseFloat(newLat);
     const lng = parseFloat(newLng);
+    const alt = newAlt.trim() === '' ? undefined : parseFloat(newAlt);
     
     if (isNaN(lat) || isNaN(lng)) {
       alert('Please enter valid latitude and longitude values');
-      return;
+      return null;
+    }
+    
+    if (alt !== undefined && isNaN(alt)) {
+      alert('Please enter a valid altitude value');
+      return null;
     }
     
-    onAddCoordinate({ lat, lng });
+    const coordinate: Coordinate = alt === undefined ? { lat, lng } : { lat, lng, alt };
+    if (newActions.length > 0) coordinate.actions = newActions;
+    return coordinate;
+  };
+  
+  const resetInputs = () => {
     setNewLat('');
     setNewLng('');
+    setNewAlt('');
+    setNewActions([]);
+    setNewPosition('');
   };
   
-  const handleUpdateCoordinate = (index: number) => {
-    const lat = parseFloat(newLat);
-    const lng = parseFloat(newLng);
+  // New waypoints go at the end unless a position is given
+  const handleAddCoordinate = () => {
+    const coordinate = parseInputs();
+    if (!coordinate) return;
     
-    if (isNaN(lat) || isNaN(lng)) {
-      alert('Please enter valid latitude and longitude values');
-      return;
+    const position = parseInt(newPosition, 10);
+    if (onInsertCoordinate && !isNaN(position)) {
+      if (position < 1 || position > coordinates.length + 1) {
+        alert(`Please enter a position from 1 to ${coordinates.length + 1}`);
+        return;
+      }
+      onInsertCoordinate(position - 1, coordinate);
+    } else {
+      onAddCoordinate(coordinate);
     }
+    resetInputs();
+  };
+  
+  const handleUpdateCoordinate = (index: number) => {
+    const coordinate = parseInputs();
+    if (!coordinate) return;
     
-    onUpdateCoordinate(index, { lat, lng });
-    setNewLat('');
-    setNewLng('');
+    onUpdateCoordinate(index, coordinate);
+    resetInputs();
     setEditIndex(null);
   };
   
@@ -56,12 +93,13 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
     const coordinate = coordinates[index];
     setNewLat(coordinate.lat.toString());
     setNewLng(coordinate.lng.toString());
+    setNewAlt(coordinate.alt !== undefined ? coordinate.alt.toString() : '');
+    setNewActions(coordinate.actions ?? []);
     setEditIndex(index);
   };
   
   const cancelEditing = () => {
-    setNewLat('');
-    setNewLng('');
+    resetInputs();
     setEditIndex(null);
   };
   
@@ -74,27 +112,45 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
             <th className="border p-2">#</th>
             <th className="border p-2">Latitude</th>
             <th className="border p-2">Longitude</th>
+            <th className="border p-2">Altitude (m)</th>
+            <th className="border p-2">Mission Actions</th>
             <th className="border p-2">Actions</th>
           </tr>
         </thead>
         <tbody>
           {coordinates.map((coordinate, index) => (
-            <tr key={index}>
-              <td className="border p-2">{index + 1}</td>
+            <tr key={index} className={locked[index] ? 'text-gray-400' : exclusions[index]?.length ? 'bg-red-50' : ''}>
+              <td className="border p-2">
+                {index + 1}
+                {exclusions[index]?.length > 0 && (
+                  <span
+                    className="ml-1 text-red-600"
+                    title={`Inside exclusion zone: ${exclusions[index].join(', ')}`}
+                  >
+                    ⚠
+                  </span>
+                )}
+              </td>
               <td className="border p-2">{coordinate.lat.toFixed(6)}</td>
               <td className="border p-2">{coordinate.lng.toFixed(6)}</td>
+              <td className="border p-2">{coordinate.alt !== undefined ? coordinate.alt.toFixed(1) : '-'}</td>
+              <td className="border p-2 text-sm">
+                {coordinate.actions && coordinate.actions.length > 0
+                  ? coordinate.actions.map(describeMissionAction).join(', ')
+                  : '-'}
+              </td>
               <td className="border p-2">
                 <button
                   className="mr-2 px-2 py-1 bg-blue-500 text-white rounded"
                   onClick={() => startEditing(index)}
-                  disabled={disabled || editIndex !== null}
+                  disabled={disabled || locked[index] || editIndex !== null}
                 >
                   Edit
                 </button>
                 <button
                   className="px-2 py-1 bg-red-500 text-white rounded"
                   onClick={() => onRemoveCoordinate(index)}
-                  disabled={disabled}
+                  disabled={disabled || locked[index]}
                 >
                   Remove
                 </button>
@@ -103,7 +159,7 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
           ))}
           {coordinates.length === 0 && (
             <tr>
-              <td colSpan={4} className="border p-2 text-center">
+              <td colSpan={6} className="border p-2 text-center">
                 No waypoints added yet
               </td>
             </tr>
@@ -111,6 +167,12 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
         </tbody>
       </table>
       
+      {exclusions.some(names => names.length > 0) && (
+        <p className="mt-2 text-sm text-red-600">
+          Waypoints marked ⚠ lie inside an exclusion zone and will breach it in flight.
+        </p>
+      )}
+      
       <div className="mt-4">
         <h4>{editIndex !== null ? 'Edit Waypoint' : 'Add New Waypoint'}</h4>
         <div className="flex gap-2 mt-2">
@@ -130,6 +192,25 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
             onChange={(e) => setNewLng(e.target.value)}
             disabled={disabled}
           />
+          <input
+            type="text"
+            placeholder="Altitude (m)"
+            className="p-2 border rounded"
+            value={newAlt}
+            onChange={(e) => setNewAlt(e.target.value)}
+            disabled={disabled}
+          />
+          {onInsertCoordinate && editIndex === null && (
+            <input
+              type="number"
+              min="1"
+              placeholder="At # (end)"
+              className="w-28 p-2 border rounded"
+              value={newPosition}
+              onChange={(e) => setNewPosition(e.target.value)}
+              disabled={disabled}
+            />
+          )}
           {editIndex !== null ? (
             <>
               <button
@@ -157,17 +238,26 @@ const CoordinateTable: React.FC<CoordinateTableProps> = ({
             </button>
           )}
         </div>
+        <div className="mt-2">
+          <MissionActionEditor
+            actions={newActions}
+            onChange={setNewActions}
+            disabled={disabled}
+          />
+        </div>
       </div>
       
-      <div className="mt-4">
-        <button
-          className="px-4 py-2 bg-red-500 text-white rounded"
-          onClick={onClearCoordinates}
-          disabled={disabled || coordinates.length === 0}
-        >
-          Clear All
-        </button>
-      </div>
+      {onClearCoordinates && (
+        <div className="mt-4">
+          <button
+            className="px-4 py-2 bg-red-500 text-white rounded"
+            onClick={onClearCoordinates}
+            disabled={disabled || coordinates.length === 0}
+          >
+            Clear All
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
-import { uploadCoordinateFile } from '@/lib/api';
+import { MissionAction, uploadCoordinateFile } from '@/lib/api';
 
 interface Coordinate {
   lat: number;
   lng: number;
+  alt?: number;
+  actions?: MissionAction[];
 }
 
 interface FileImportProps {
@@ -82,9 +84,9 @@ const FileImport: React.FC<FileImportProps> = ({
       <div className="mt-4 text-sm text-gray-600">
         <h4 className="font-medium">File Format Requirements:</h4>
         <ul className="list-disc pl-5 mt-1">
-          <li>CSV: Include &apos;lat/latitude&apos; and &apos;lng/longitude&apos; columns</li>
-          <li>JSON: Array of objects with &apos;lat&apos; and &apos;lng&apos; properties</li>
-          <li>TXT: One coordinate pair per line (lat,lng or lat lng)</li>
+          <li>CSV: Include &apos;lat/latitude&apos; and &apos;lng/longitude&apos; columns, plus an optional &apos;alt/altitude&apos; column</li>
+          <li>JSON: Array of objects with &apos;lat&apos;, &apos;lng&apos; and optional &apos;alt&apos; and &apos;actions&apos; properties</li>
+          <li>TXT: One coordinate per line (lat,lng[,alt] or lat lng [alt])</li>
         </ul>
       </div>
     </div>
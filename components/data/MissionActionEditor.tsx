@@ -0,0 +1,113 @@
+// src/components/data/MissionActionEditor.tsx
+import React from 'react';
+import { MissionAction, MissionActionType } from '../../lib/api';
+
+interface MissionActionEditorProps {
+  actions: MissionAction[];
+  onChange: (actions: MissionAction[]) => void;
+  disabled?: boolean;
+}
+
+const ACTION_LABELS: Record<MissionActionType, string> = {
+  HOVER: 'Hover',
+  LOITER: 'Loiter',
+  CHANGE_SPEED: 'Change speed',
+  CAMERA: 'Trigger camera',
+  DROP_PAYLOAD: 'Drop payload',
+  LAND: 'Land'
+};
+
+// Parameters a new action starts with
+const createAction = (type: MissionActionType): MissionAction => {
+  switch (type) {
+    case 'HOVER':
+      return { type, duration: 10 };
+    case 'LOITER':
+      return { type, turns: 1, radius: 30 };
+    case 'CHANGE_SPEED':
+      return { type, speed: 10 };
+    default:
+      return { type };
+  }
+};
+
+// Short description of an action, e.g. "Loiter 2 turns at 30 m"
+export const describeMissionAction = (action: MissionAction): string => {
+  switch (action.type) {
+    case 'HOVER':
+      return `Hover ${action.duration} s`;
+    case 'LOITER':
+      return `Loiter ${action.turns} turns at ${action.radius} m`;
+    case 'CHANGE_SPEED':
+      return `Speed ${action.speed} m/s`;
+    case 'DROP_PAYLOAD':
+      return action.massKg !== undefined ? `Drop ${action.massKg} kg` : 'Drop payload';
+    default:
+      return ACTION_LABELS[action.type];
+  }
+};
+
+const MissionActionEditor: React.FC<MissionActionEditorProps> = ({
+  actions,
+  onChange,
+  disabled = false
+}) => {
+  // Replace one numeric parameter of an action, ignoring invalid input
+  const updateParameter = (index: number, key: string, value: string) => {
+    const number = parseFloat(value);
+    if (isNaN(number) || number <= 0) return;
+    onChange(actions.map((action, i) => i === index ? { ...action, [key]: number } as MissionAction : action));
+  };
+
+  const renderParameter = (index: number, key: string, label: string, value: number) => (
+    <label className="flex items-center gap-1 text-xs">
+      {label}
+      <input
+        type="number"
+        min="0"
+        className="w-16 p-1 border rounded"
+        value={value}
+        onChange={(e) => updateParameter(index, key, e.target.value)}
+        disabled={disabled}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mission-action-editor space-y-1">
+      {actions.map((action, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{ACTION_LABELS[action.type]}</span>
+          {action.type === 'HOVER' && renderParameter(index, 'duration', 'Seconds', action.duration)}
+          {action.type === 'LOITER' && (
+            <>
+              {renderParameter(index, 'turns', 'Turns', action.turns)}
+              {renderParameter(index, 'radius', 'Radius (m)', action.radius)}
+            </>
+          )}
+          {action.type === 'CHANGE_SPEED' && renderParameter(index, 'speed', 'm/s', action.speed)}
+          <button
+            className="px-2 text-red-500"
+            onClick={() => onChange(actions.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <select
+        className="p-1 text-sm border rounded"
+        value=""
+        onChange={(e) => onChange([...actions, createAction(e.target.value as MissionActionType)])}
+        disabled={disabled}
+      >
+        <option value="" disabled>Add mission action…</option>
+        {(Object.keys(ACTION_LABELS) as MissionActionType[]).map((type) => (
+          <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default MissionActionEditor;
@@ -0,0 +1,191 @@
+"use client";
+// src/components/data/MissionLibrary.tsx
+import React, { useState } from 'react';
+import { Coordinate, Mission, MissionDraft } from '@/lib/api';
+
+interface MissionLibraryProps {
+  missions: Mission[];
+  waypoints: Coordinate[]; // the plan being edited, which is what gets saved
+  onSave: (mission: MissionDraft) => Promise<Mission | null>;
+  onUpdate: (id: string, mission: MissionDraft) => void;
+  onLoad: (mission: Mission) => void;
+  onDuplicate: (mission: Mission) => void;
+  onDelete: (id: string) => void;
+  error?: string | null;
+  disabled?: boolean; // loading is disabled while a plan is in flight
+}
+
+// Tags are typed as a comma-separated list
+const parseTags = (value: string) =>
+  value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+
+const MissionLibrary: React.FC<MissionLibraryProps> = ({
+  missions,
+  waypoints,
+  onSave,
+  onUpdate,
+  onLoad,
+  onDuplicate,
+  onDelete,
+  error = null,
+  disabled = false
+}) => {
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [tags, setTags] = useState<string>('');
+  const [filter, setFilter] = useState<string>('');
+  // Saved mission the plan was loaded from or last saved as
+  const [currentId, setCurrentId] = useState<string | null>(null);
+
+  const current = missions.find(mission => mission.id === currentId) ?? null;
+  const canSave = name.trim() !== '' && waypoints.length > 0;
+
+  const draft = (): MissionDraft => ({
+    name: name.trim(),
+    description: description.trim(),
+    waypoints,
+    tags: parseTags(tags)
+  });
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    const saved = await onSave(draft());
+    if (saved) setCurrentId(saved.id);
+  };
+
+  const handleLoad = (mission: Mission) => {
+    onLoad(mission);
+    setCurrentId(mission.id);
+    setName(mission.name);
+    setDescription(mission.description);
+    setTags(mission.tags.join(', '));
+  };
+
+  const handleDelete = (mission: Mission) => {
+    if (!confirm(`Delete mission "${mission.name}"?`)) return;
+    onDelete(mission.id);
+    if (mission.id === currentId) setCurrentId(null);
+  };
+
+  // Matches the name or any tag
+  const query = filter.trim().toLowerCase();
+  const shown = query
+    ? missions.filter(mission =>
+        mission.name.toLowerCase().includes(query) || mission.tags.some(tag => tag.includes(query)))
+    : missions;
+
+  return (
+    <div className="mission-library">
+      <h3 className="text-lg font-medium mb-2">Mission Library</h3>
+
+      <div className="space-y-2 mb-4">
+        <input
+          type="text"
+          placeholder="Mission name"
+          className="w-full p-2 border rounded"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <textarea
+          placeholder="Description"
+          className="w-full p-2 border rounded text-sm"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        <input
+          type="text"
+          placeholder="Tags, separated by commas"
+          className="w-full p-2 border rounded text-sm"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <button
+            className="flex-1 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            onClick={handleSave}
+            disabled={!canSave}
+          >
+            Save as New
+          </button>
+          {current && (
+            <button
+              className="flex-1 px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+              onClick={() => onUpdate(current.id, draft())}
+              disabled={!canSave}
+              title={`Overwrite "${current.name}" with the current plan`}
+            >
+              Update
+            </button>
+          )}
+        </div>
+        {waypoints.length === 0 && (
+          <p className="text-sm text-gray-500">Add waypoints to save the plan.</p>
+        )}
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {missions.length === 0 ? (
+        <p className="text-gray-500 text-sm">No saved missions yet.</p>
+      ) : (
+        <>
+          <input
+            type="text"
+            placeholder="Filter by name or tag"
+            className="w-full p-2 mb-2 border rounded text-sm"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+            {shown.map((mission) => (
+              <li
+                key={mission.id}
+                className={`px-2 py-1 border rounded ${mission.id === currentId ? 'bg-blue-50 border-blue-200' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <p className="font-medium">{mission.name}</p>
+                    <p className="text-gray-600">
+                      {mission.waypoints.length} waypoint{mission.waypoints.length === 1 ? '' : 's'}, updated {new Date(mission.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                    onClick={() => handleLoad(mission)}
+                    disabled={disabled}
+                  >
+                    Load
+                  </button>
+                  <button
+                    className="px-2 text-blue-600 hover:underline"
+                    onClick={() => onDuplicate(mission)}
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    className="px-2 text-red-500"
+                    onClick={() => handleDelete(mission)}
+                    title="Delete"
+                  >
+                    ×
+                  </button>
+                </div>
+                {mission.description && <p className="text-gray-600">{mission.description}</p>}
+                {mission.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {mission.tags.map(tag => (
+                      <span key={tag} className="px-1 text-xs rounded bg-gray-100 text-gray-700">{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MissionLibrary;
@@ -0,0 +1,103 @@
+"use client";
+// src/components/data/RouteOptimizer.tsx
+import React, { useState } from 'react';
+import { Coordinate, RouteOptimization, optimizeRoute } from '@/lib/api';
+
+interface RouteOptimizerProps {
+  waypoints: Coordinate[];
+  onOptimize: (waypoints: Coordinate[]) => void;
+  disabled?: boolean;
+}
+
+const formatDistance = (metres: number) =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${metres.toFixed(0)} m`;
+
+const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
+  waypoints,
+  onOptimize,
+  disabled = false
+}) => {
+  const [fixedStart, setFixedStart] = useState<boolean>(true);
+  const [fixedEnd, setFixedEnd] = useState<boolean>(false);
+  const [returnToStart, setReturnToStart] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RouteOptimization | null>(null);
+
+  const handleOptimize = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const optimized = await optimizeRoute(waypoints, { fixedStart, fixedEnd, returnToStart });
+      setResult(optimized);
+      onOptimize(optimized.waypoints);
+    } catch {
+      setError('Failed to optimize route');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The comparison only holds until the plan is edited again
+  const saving = result && result.waypoints === waypoints
+    ? result.distanceBefore - result.distanceAfter
+    : null;
+
+  return (
+    <div className="route-optimizer">
+      <h3 className="text-lg font-medium mb-2">Optimize Route</h3>
+      <p className="mb-2 text-sm text-gray-600">
+        Reorder the waypoints into the shortest route found through them.
+      </p>
+
+      <div className="space-y-1 mb-2 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={fixedStart || returnToStart}
+            onChange={(e) => setFixedStart(e.target.checked)}
+            disabled={returnToStart}
+          />
+          Keep the first waypoint first
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={fixedEnd && !returnToStart}
+            onChange={(e) => setFixedEnd(e.target.checked)}
+            disabled={returnToStart}
+          />
+          Keep the last waypoint last
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={returnToStart}
+            onChange={(e) => setReturnToStart(e.target.checked)}
+          />
+          Return to the start
+        </label>
+      </div>
+
+      <button
+        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        onClick={handleOptimize}
+        disabled={disabled || isLoading || waypoints.length < 3}
+      >
+        {isLoading ? 'Optimizing...' : 'Optimize Route'}
+      </button>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {result && saving !== null && (
+        <p className="mt-2 text-sm text-gray-700">
+          {formatDistance(result.distanceBefore)} → {formatDistance(result.distanceAfter)}
+          {result.distanceBefore > 0 && saving > 0
+            ? ` (${((saving / result.distanceBefore) * 100).toFixed(0)}% shorter)`
+            : ' (already the shortest found)'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RouteOptimizer;
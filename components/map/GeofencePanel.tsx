@@ -0,0 +1,195 @@
+// src/components/map/GeofencePanel.tsx
+import React, { useState } from 'react';
+import { Geofence, GeofenceAction, GeofenceKind, GeofenceShape } from '../../lib/api';
+import type { GeofenceDraft } from './LeafletMap';
+
+interface GeofencePanelProps {
+  geofences: Geofence[];
+  draft: GeofenceDraft | null; // null when not drawing
+  onDraftChange: (draft: GeofenceDraft | null) => void;
+  onSave: (geofence: Omit<Geofence, 'id'>) => void;
+  onDelete: (id: string) => void;
+  error?: string | null;
+  disabled?: boolean;
+}
+
+const ACTION_LABELS: Record<GeofenceAction, string> = {
+  warn: 'Warn only',
+  hold: 'Hold position',
+  rtl: 'Return to launch'
+};
+
+const NEW_DRAFT: GeofenceDraft = { kind: 'exclusion', type: 'polygon', points: [], radius: 100 };
+
+const GeofencePanel: React.FC<GeofencePanelProps> = ({
+  geofences,
+  draft,
+  onDraftChange,
+  onSave,
+  onDelete,
+  error = null,
+  disabled = false
+}) => {
+  const [name, setName] = useState<string>('');
+  const [action, setAction] = useState<GeofenceAction>('warn');
+  const [floor, setFloor] = useState<string>('');
+  const [ceiling, setCeiling] = useState<string>('');
+
+  const canSave = draft !== null &&
+    (draft.type === 'circle' ? draft.points.length >= 1 && draft.radius > 0 : draft.points.length >= 3);
+
+  // Blank altitude fields leave the fence unbounded in that direction
+  const parseAltitude = (value: string) => {
+    const altitude = parseFloat(value);
+    return value.trim() === '' || isNaN(altitude) ? undefined : altitude;
+  };
+
+  const handleSave = () => {
+    if (!draft || !canSave) return;
+
+    const shape: GeofenceShape = draft.type === 'circle'
+      ? { type: 'circle', center: draft.points[0], radius: draft.radius }
+      : { type: 'polygon', points: draft.points };
+    onSave({
+      name: name.trim() || `Geofence ${geofences.length + 1}`,
+      kind: draft.kind,
+      shape,
+      floor: parseAltitude(floor),
+      ceiling: parseAltitude(ceiling),
+      action
+    });
+    setName('');
+    onDraftChange(null);
+  };
+
+  return (
+    <div className="geofence-panel">
+      <h3 className="text-lg font-medium mb-2">Geofences</h3>
+
+      {geofences.length === 0 ? (
+        <p className="text-gray-500 text-sm">No geofences defined.</p>
+      ) : (
+        <ul className="space-y-1 mb-2">
+          {geofences.map((fence) => (
+            <li key={fence.id} className="flex items-center justify-between text-sm">
+              <span>
+                <span className={fence.kind === 'exclusion' ? 'text-red-600' : 'text-green-600'}>■</span>{' '}
+                {fence.name} ({fence.kind}, {ACTION_LABELS[fence.action].toLowerCase()})
+              </span>
+              <button
+                className="px-2 text-red-500"
+                onClick={() => onDelete(fence.id)}
+                disabled={disabled}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft === null ? (
+        <button
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          onClick={() => onDraftChange(NEW_DRAFT)}
+          disabled={disabled}
+        >
+          Draw Geofence
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {draft.type === 'circle'
+              ? 'Click the map to place the centre of the circle.'
+              : `Click the map to add corners (${draft.points.length} so far, at least 3).`}
+          </p>
+          <input
+            type="text"
+            placeholder="Name"
+            className="w-full p-2 border rounded"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <select
+              className="p-2 border rounded"
+              value={draft.kind}
+              onChange={(e) => onDraftChange({ ...draft, kind: e.target.value as GeofenceKind })}
+            >
+              <option value="exclusion">Exclusion (keep out)</option>
+              <option value="inclusion">Inclusion (stay in)</option>
+            </select>
+            <select
+              className="p-2 border rounded"
+              value={draft.type}
+              onChange={(e) => onDraftChange({ ...draft, type: e.target.value as GeofenceShape['type'], points: [] })}
+            >
+              <option value="polygon">Polygon</option>
+              <option value="circle">Circle</option>
+            </select>
+          </div>
+          {draft.type === 'circle' && (
+            <label className="flex items-center gap-2 text-sm">
+              Radius (m)
+              <input
+                type="number"
+                min="1"
+                className="w-24 p-1 border rounded"
+                value={draft.radius}
+                onChange={(e) => onDraftChange({ ...draft, radius: parseFloat(e.target.value) || 0 })}
+              />
+            </label>
+          )}
+          <div className="flex gap-2 text-sm">
+            <input
+              type="text"
+              placeholder="Floor (m)"
+              className="w-1/2 p-2 border rounded"
+              value={floor}
+              onChange={(e) => setFloor(e.target.value)}
+            />
+            <input
+              type="text"
+              placeholder="Ceiling (m)"
+              className="w-1/2 p-2 border rounded"
+              value={ceiling}
+              onChange={(e) => setCeiling(e.target.value)}
+            />
+          </div>
+          <label className="block text-sm">
+            On breach
+            <select
+              className="ml-2 p-1 border rounded"
+              value={action}
+              onChange={(e) => setAction(e.target.value as GeofenceAction)}
+            >
+              {(Object.keys(ACTION_LABELS) as GeofenceAction[]).map((value) => (
+                <option key={value} value={value}>{ACTION_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button
+              className="px-4 py-2 bg-green-500 text-white rounded disabled:opacity-50"
+              onClick={handleSave}
+              disabled={!canSave}
+            >
+              Save
+            </button>
+            <button
+              className="px-4 py-2 bg-gray-500 text-white rounded"
+              onClick={() => onDraftChange(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <p className="mt-2 text-xs text-gray-500">Geofences apply to simulations started after they are saved.</p>
+    </div>
+  );
+};
+
+export default GeofencePanel;
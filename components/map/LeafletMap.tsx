@@ -1,28 +1,85 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import 'leaflet/dist/leaflet.css';
-import { Coordinate } from '@/lib/api';
+import { Coordinate, Geofence, GeofenceKind, GeofenceShape } from '@/lib/api';
 import type L from 'leaflet';
 
+// A drone in the fleet, drawn as a coloured marker with its mission path
+export interface DroneTrack {
+  droneId: string;
+  waypoints: Coordinate[];
+  position: Coordinate | null;
+  color: string;
+  estimatedPosition?: Coordinate | null; // position reported by the GPS
+  trueTrack?: Coordinate[]; // positions flown
+  estimatedTrack?: Coordinate[]; // positions reported by the GPS
+}
+
+// Which flown tracks to draw for each drone
+export type TrackDisplay = 'none' | 'true' | 'estimated' | 'both';
+
+interface DroneLayer {
+  marker: L.Marker | null;
+  path: L.Polyline;
+  trueTrail: L.Polyline;
+  estimatedTrail: L.Polyline;
+  estimateMarker: L.CircleMarker | null;
+}
+
+// A geofence being drawn, shown dashed until it is saved
+export interface GeofenceDraft {
+  kind: GeofenceKind;
+  type: GeofenceShape['type'];
+  points: Coordinate[]; // polygon vertices clicked so far, or the circle's centre
+  radius: number; // metres, for circles
+}
+
+// Fill colours of saved fences
+const GEOFENCE_COLORS: Record<GeofenceKind, string> = {
+  inclusion: '#10B981',
+  exclusion: '#EF4444'
+};
+
 interface LeafletMapProps {
   waypoints: Coordinate[];
   onMapClick?: (position: { lat: number; lng: number }) => void;
+  onWaypointChange?: (index: number, waypoint: Coordinate) => void;
   centerOn?: Coordinate;
   disabled?: boolean;
-  simulationMarker?: Coordinate | null;
+  fleet?: DroneTrack[];
+  geofences?: Geofence[];
+  geofenceDraft?: GeofenceDraft | null;
+  trackDisplay?: TrackDisplay;
+  surveyArea?: Coordinate[] | null; // survey area being drawn, null when not drawing
+  surveyRoute?: Coordinate[]; // route generated over the survey area
 }
 
+// Colour of the survey area and its generated route
+const SURVEY_COLOR = '#8B5CF6';
+
 const LeafletMap: React.FC<LeafletMapProps> = ({
   waypoints,
   onMapClick,
+  onWaypointChange,
   centerOn,
   disabled = false,
-  simulationMarker = null
+  fleet = [],
+  geofences = [],
+  geofenceDraft = null,
+  trackDisplay = 'none',
+  surveyArea = null,
+  surveyRoute = []
 }) => {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const waypointMarkersRef = useRef<L.Marker[]>([]);
   const pathLayerRef = useRef<L.Polyline | null>(null);
-  const simulationMarkerRef = useRef<L.Marker | null>(null);
+  const droneLayersRef = useRef<Map<string, DroneLayer>>(new Map());
+  const geofenceLayerRef = useRef<L.LayerGroup | null>(null);
+  const draftLayerRef = useRef<L.LayerGroup | null>(null);
+  const surveyLayerRef = useRef<L.LayerGroup | null>(null);
+  // The click handler is bound once, so it reads the latest props from here
+  const clickPropsRef = useRef({ onMapClick, disabled });
+  clickPropsRef.current = { onMapClick, disabled };
   const [mapReady, setMapReady] = useState(false);
   const [storedWaypoints, setStoredWaypoints] = useState<Coordinate[]>([]);
 
@@ -70,18 +127,16 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
       }).addTo(map);
       
       map.whenReady(() => {
-        // Only add click handlers if onMapClick is provided
-        if (onMapClick) {
-          map.on('click', (e: L.LeafletMouseEvent) => {
-            // Only process clicks when not disabled
-            if (!disabled) {
-              onMapClick({
-                lat: e.latlng.lat,
-                lng: e.latlng.lng
-              });
-            }
-          });
-        }
+        map.on('click', (e: L.LeafletMouseEvent) => {
+          const { onMapClick, disabled } = clickPropsRef.current;
+          // Only process clicks when not disabled
+          if (onMapClick && !disabled) {
+            onMapClick({
+              lat: e.latlng.lat,
+              lng: e.latlng.lng
+            });
+          }
+        });
         
         setMapReady(true);
       });
@@ -92,6 +147,37 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
     }
   };
 
+  // Build the popup for a waypoint, with an altitude field when editable
+  const createWaypointPopup = useCallback((waypoint: Coordinate, index: number): HTMLElement => {
+    const container = document.createElement('div');
+    container.innerHTML = `<b>Waypoint ${index + 1}</b><br>Lat: ${waypoint.lat.toFixed(6)}<br>Lng: ${waypoint.lng.toFixed(6)}<br>`;
+    
+    if (!onWaypointChange || disabled) {
+      container.insertAdjacentHTML(
+        'beforeend',
+        `Alt: ${waypoint.alt !== undefined ? `${waypoint.alt.toFixed(1)} m` : '-'}`
+      );
+      return container;
+    }
+    
+    const label = document.createElement('label');
+    label.textContent = 'Alt (m): ';
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.step = '1';
+    input.value = waypoint.alt !== undefined ? waypoint.alt.toString() : '';
+    input.style.width = '80px';
+    input.className = 'border rounded px-1';
+    input.addEventListener('change', () => {
+      const alt = input.value.trim() === '' ? undefined : parseFloat(input.value);
+      if (alt !== undefined && isNaN(alt)) return;
+      onWaypointChange(index, alt === undefined ? { lat: waypoint.lat, lng: waypoint.lng } : { lat: waypoint.lat, lng: waypoint.lng, alt });
+    });
+    label.appendChild(input);
+    container.appendChild(label);
+    return container;
+  }, [onWaypointChange, disabled]);
+
   // Store waypoints when they change
   useEffect(() => {
     if (waypoints && waypoints.length > 0) {
@@ -138,7 +224,7 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
             autoPan: false
           }).addTo(map);
           
-          marker.bindPopup(`<b>Waypoint ${index + 1}</b><br>Lat: ${waypoint.lat.toFixed(6)}<br>Lng: ${waypoint.lng.toFixed(6)}`);
+          marker.bindPopup(createWaypointPopup(waypoint, index));
           return marker;
         }).filter((marker): marker is L.Marker => marker !== null);
         
@@ -175,18 +261,102 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
         console.error("Error updating waypoints:", error);
       }
     });
-  }, [storedWaypoints, waypoints, mapReady, centerOn]);
+  }, [storedWaypoints, waypoints, mapReady, centerOn, createWaypointPopup]);
 
-  // Update simulation marker position
+  // Update the marker and flown mission of every drone in the fleet
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    if (!mapRef.current || !mapReady || !simulationMarker) {
-      if (simulationMarkerRef.current) {
-        simulationMarkerRef.current.remove();
-        simulationMarkerRef.current = null;
+    if (!mapRef.current || !mapReady) return;
+
+    import('leaflet').then((leaflet) => {
+      const L = leaflet.default;
+      const map = mapRef.current;
+      if (!map) return;
+      
+      try {
+        const layers = droneLayersRef.current;
+        const activeIds = new Set(fleet.map(drone => drone.droneId));
+        
+        // Remove drones that have left the fleet
+        layers.forEach((layer, droneId) => {
+          if (!activeIds.has(droneId)) {
+            layer.marker?.remove();
+            layer.path.remove();
+            layer.trueTrail.remove();
+            layer.estimatedTrail.remove();
+            layer.estimateMarker?.remove();
+            layers.delete(droneId);
+          }
+        });
+        
+        const showTrue = trackDisplay === 'true' || trackDisplay === 'both';
+        const showEstimated = trackDisplay === 'estimated' || trackDisplay === 'both';
+        const toLatLngs = (points: Coordinate[] = []) => points.map(point => L.latLng(point.lat, point.lng));
+        
+        fleet.forEach((drone) => {
+          let layer = layers.get(drone.droneId);
+          const latlngs = toLatLngs(drone.waypoints);
+          
+          if (!layer) {
+            layer = {
+              marker: null,
+              path: L.polyline(latlngs, { color: drone.color, weight: 3, opacity: 0.8 }).addTo(map),
+              // Flown tracks: the true one solid, the GPS one dotted
+              trueTrail: L.polyline([], { color: drone.color, weight: 2, opacity: 0.9 }).addTo(map),
+              estimatedTrail: L.polyline([], { color: drone.color, weight: 2, opacity: 0.9, dashArray: '2, 6' }).addTo(map),
+              estimateMarker: null
+            };
+            layers.set(drone.droneId, layer);
+          } else {
+            layer.path.setLatLngs(latlngs);
+            layer.path.setStyle({ color: drone.color });
+          }
+          
+          layer.trueTrail.setLatLngs(showTrue ? toLatLngs(drone.trueTrack) : []);
+          layer.estimatedTrail.setLatLngs(showEstimated ? toLatLngs(drone.estimatedTrack) : []);
+          
+          if (!showEstimated || !drone.estimatedPosition) {
+            layer.estimateMarker?.remove();
+            layer.estimateMarker = null;
+          } else if (layer.estimateMarker) {
+            layer.estimateMarker.setLatLng([drone.estimatedPosition.lat, drone.estimatedPosition.lng]);
+          } else {
+            layer.estimateMarker = L.circleMarker([drone.estimatedPosition.lat, drone.estimatedPosition.lng], {
+              radius: 6,
+              color: drone.color,
+              fillOpacity: 0
+            }).addTo(map);
+            layer.estimateMarker.bindTooltip(`${drone.droneId} (GPS)`);
+          }
+          
+          if (!drone.position) {
+            layer.marker?.remove();
+            layer.marker = null;
+          } else if (layer.marker) {
+            layer.marker.setLatLng([drone.position.lat, drone.position.lng]);
+          } else {
+            layer.marker = L.marker([drone.position.lat, drone.position.lng], {
+              title: drone.droneId,
+              icon: L.divIcon({
+                className: 'simulation-marker',
+                html: `<div style="width:18px;height:18px;border-radius:50%;border:2px solid white;box-shadow:0 0 3px rgba(0,0,0,0.5);background:${drone.color}"></div>`,
+                iconSize: [18, 18],
+                iconAnchor: [9, 9]
+              })
+            }).addTo(map);
+            layer.marker.bindTooltip(drone.droneId);
+          }
+        });
+      } catch (error) {
+        console.error("Error updating drone markers:", error);
       }
-      return;
-    }
+    });
+  }, [fleet, trackDisplay, mapReady]);
+  
+  // Draw the saved geofences
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (!mapRef.current || !mapReady) return;
 
     import('leaflet').then((leaflet) => {
       const L = leaflet.default;
@@ -194,23 +364,86 @@ const LeafletMap: React.FC<LeafletMapProps> = ({
       if (!map) return;
       
       try {
-        if (simulationMarkerRef.current) {
-          simulationMarkerRef.current.setLatLng([simulationMarker.lat, simulationMarker.lng]);
-        } else {
-          simulationMarkerRef.current = L.marker([simulationMarker.lat, simulationMarker.lng], {
-            icon: L.divIcon({
-              className: 'simulation-marker',
-              html: '🚁',
-              iconSize: [25, 25],
-              iconAnchor: [12, 12]
-            })
-          }).addTo(map);
-        }
+        geofenceLayerRef.current?.remove();
+        geofenceLayerRef.current = L.layerGroup(geofences.map((fence) => {
+          const style = { color: GEOFENCE_COLORS[fence.kind], weight: 2, fillOpacity: 0.15 };
+          const layer = fence.shape.type === 'circle'
+            ? L.circle([fence.shape.center.lat, fence.shape.center.lng], { ...style, radius: fence.shape.radius })
+            : L.polygon(fence.shape.points.map(point => L.latLng(point.lat, point.lng)), style);
+          const band = fence.floor !== undefined || fence.ceiling !== undefined
+            ? `<br>${fence.floor ?? 0} – ${fence.ceiling !== undefined ? `${fence.ceiling} m` : 'no ceiling'}`
+            : '';
+          return layer.bindTooltip(`${fence.name} (${fence.kind}, ${fence.action})${band}`);
+        })).addTo(map);
       } catch (error) {
-        console.error("Error updating simulation marker:", error);
+        console.error("Error updating geofences:", error);
+      }
+    });
+  }, [geofences, mapReady]);
+  
+  // Draw the geofence being edited
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (!mapRef.current || !mapReady) return;
+
+    import('leaflet').then((leaflet) => {
+      const L = leaflet.default;
+      const map = mapRef.current;
+      if (!map) return;
+      
+      draftLayerRef.current?.remove();
+      draftLayerRef.current = null;
+      if (!geofenceDraft) return;
+      
+      const style = { color: GEOFENCE_COLORS[geofenceDraft.kind], weight: 2, dashArray: '6, 6', fillOpacity: 0.1 };
+      const { type, points, radius } = geofenceDraft;
+      const layers: L.Layer[] = points.map(point =>
+        L.circleMarker([point.lat, point.lng], { radius: 4, color: style.color })
+      );
+      if (type === 'circle' && points.length > 0) {
+        layers.push(L.circle([points[0].lat, points[0].lng], { ...style, radius }));
+      } else if (points.length >= 2) {
+        layers.push(L.polygon(points.map(point => L.latLng(point.lat, point.lng)), style));
+      }
+      draftLayerRef.current = L.layerGroup(layers).addTo(map);
+    });
+  }, [geofenceDraft, mapReady]);
+  
+  // Draw the survey area being drawn and the route generated over it
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (!mapRef.current || !mapReady) return;
+
+    import('leaflet').then((leaflet) => {
+      const L = leaflet.default;
+      const map = mapRef.current;
+      if (!map) return;
+      
+      surveyLayerRef.current?.remove();
+      surveyLayerRef.current = null;
+      if (!surveyArea) return;
+      
+      const layers: L.Layer[] = surveyArea.map(point =>
+        L.circleMarker([point.lat, point.lng], { radius: 4, color: SURVEY_COLOR })
+      );
+      if (surveyArea.length >= 2) {
+        layers.push(L.polygon(surveyArea.map(point => L.latLng(point.lat, point.lng)), {
+          color: SURVEY_COLOR,
+          weight: 2,
+          dashArray: '6, 6',
+          fillOpacity: 0.1
+        }));
+      }
+      if (surveyRoute.length >= 2) {
+        layers.push(L.polyline(surveyRoute.map(point => L.latLng(point.lat, point.lng)), {
+          color: SURVEY_COLOR,
+          weight: 2,
+          opacity: 0.9
+        }));
       }
+      surveyLayerRef.current = L.layerGroup(layers).addTo(map);
     });
-  }, [simulationMarker, mapReady]);
+  }, [surveyArea, surveyRoute, mapReady]);
   
   // Handle explicit map centering
   useEffect(() => {
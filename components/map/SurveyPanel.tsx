@@ -0,0 +1,234 @@
+// src/components/map/SurveyPanel.tsx
+import React, { useState } from 'react';
+import { AltitudeReference, Coordinate } from '../../lib/api';
+import {
+  SurveyCamera,
+  SurveyCorner,
+  SurveyPattern,
+  cameraFootprint,
+  cameraLineSpacing,
+  cameraTriggerDistance
+} from '../../lib/survey';
+
+interface SurveyPanelProps {
+  area: Coordinate[] | null; // corners clicked so far, null when not drawing
+  onAreaChange: (area: Coordinate[] | null) => void;
+  pattern: SurveyPattern;
+  onPatternChange: (pattern: SurveyPattern) => void;
+  route: Coordinate[]; // generated over the area with the pattern
+  onApply: (route: Coordinate[]) => void;
+  altitudeReference?: AltitudeReference; // what the waypoint altitudes are measured from
+  disabled?: boolean;
+}
+
+const CORNER_LABELS: Record<SurveyCorner, string> = {
+  northwest: 'North-west',
+  northeast: 'North-east',
+  southwest: 'South-west',
+  southeast: 'South-east'
+};
+
+// A 1" sensor behind an 8.8 mm lens, common on mapping drones
+const DEFAULT_CAMERA: SurveyCamera = {
+  sensorWidth: 13.2,
+  sensorHeight: 8.8,
+  focalLength: 8.8,
+  altitude: 100,
+  frontOverlap: 0.75,
+  sideOverlap: 0.65
+};
+
+const SurveyPanel: React.FC<SurveyPanelProps> = ({
+  area,
+  onAreaChange,
+  pattern,
+  onPatternChange,
+  route,
+  onApply,
+  altitudeReference = 'AGL',
+  disabled = false
+}) => {
+  // With a camera, the line spacing and altitude follow from its overlaps.
+  // The camera's altitude is above the ground, so it only becomes the
+  // waypoints' altitude when the mission measures from the ground too.
+  const [useCamera, setUseCamera] = useState<boolean>(false);
+  const [camera, setCamera] = useState<SurveyCamera>(DEFAULT_CAMERA);
+  const cameraSetsAltitude = altitudeReference === 'AGL';
+
+  const applyCamera = (next: SurveyCamera) => {
+    setCamera(next);
+    const spacing = cameraLineSpacing(next);
+    if (spacing > 0 && isFinite(spacing)) {
+      onPatternChange(cameraSetsAltitude
+        ? { ...pattern, spacing, altitude: next.altitude }
+        : { ...pattern, spacing });
+    }
+  };
+
+  const handleUseCameraChange = (checked: boolean) => {
+    setUseCamera(checked);
+    if (checked) applyCamera(camera);
+  };
+
+  const cameraInput = (label: string, field: keyof SurveyCamera, percent = false) => (
+    <label className="flex items-center justify-between gap-2">
+      {label}
+      <input
+        type="number"
+        min="0"
+        max={percent ? '99' : undefined}
+        className="w-24 p-1 border rounded"
+        value={percent ? Math.round(camera[field] * 100) : camera[field]}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value) || 0;
+          applyCamera({ ...camera, [field]: percent ? Math.min(value, 99) / 100 : value });
+        }}
+      />
+    </label>
+  );
+
+  const footprint = cameraFootprint(camera);
+
+  const handleApply = () => {
+    if (route.length === 0) return;
+    onApply(route);
+    onAreaChange(null);
+  };
+
+  return (
+    <div className="survey-panel">
+      <h3 className="text-lg font-medium mb-2">Survey Pattern</h3>
+
+      {area === null ? (
+        <button
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          onClick={() => onAreaChange([])}
+          disabled={disabled}
+        >
+          Draw Survey Area
+        </button>
+      ) : (
+        <div className="space-y-2 text-sm">
+          <p className="text-gray-600">
+            Click the map to add corners of the area ({area.length} so far, at least 3).
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center justify-between gap-2">
+              Spacing (m)
+              <input
+                type="number"
+                min="1"
+                className="w-20 p-1 border rounded disabled:bg-gray-100"
+                value={Math.round(pattern.spacing * 10) / 10}
+                onChange={(e) => onPatternChange({ ...pattern, spacing: parseFloat(e.target.value) || 0 })}
+                disabled={useCamera}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Heading (°)
+              <input
+                type="number"
+                min="0"
+                max="359"
+                className="w-20 p-1 border rounded"
+                value={pattern.heading}
+                onChange={(e) => onPatternChange({ ...pattern, heading: parseFloat(e.target.value) || 0 })}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Overshoot (m)
+              <input
+                type="number"
+                min="0"
+                className="w-20 p-1 border rounded"
+                value={pattern.overshoot}
+                onChange={(e) => onPatternChange({ ...pattern, overshoot: parseFloat(e.target.value) || 0 })}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Altitude (m)
+              <input
+                type="text"
+                placeholder="-"
+                className="w-20 p-1 border rounded disabled:bg-gray-100"
+                value={pattern.altitude ?? ''}
+                onChange={(e) => {
+                  const altitude = parseFloat(e.target.value);
+                  onPatternChange({ ...pattern, altitude: isNaN(altitude) ? undefined : altitude });
+                }}
+                disabled={useCamera && cameraSetsAltitude}
+              />
+            </label>
+          </div>
+          <label className="block">
+            Start corner
+            <select
+              className="ml-2 p-1 border rounded"
+              value={pattern.startCorner}
+              onChange={(e) => onPatternChange({ ...pattern, startCorner: e.target.value as SurveyCorner })}
+            >
+              {(Object.keys(CORNER_LABELS) as SurveyCorner[]).map((corner) => (
+                <option key={corner} value={corner}>{CORNER_LABELS[corner]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={useCamera}
+              onChange={(e) => handleUseCameraChange(e.target.checked)}
+            />
+            Derive spacing from a camera
+          </label>
+          {useCamera && (
+            <div className="space-y-1 p-2 border rounded bg-gray-50">
+              {cameraInput('Sensor width (mm)', 'sensorWidth')}
+              {cameraInput('Sensor height (mm)', 'sensorHeight')}
+              {cameraInput('Focal length (mm)', 'focalLength')}
+              {cameraInput('Altitude (m)', 'altitude')}
+              {cameraInput('Front overlap (%)', 'frontOverlap', true)}
+              {cameraInput('Side overlap (%)', 'sideOverlap', true)}
+              <p className="text-gray-600">
+                Each photo covers {footprint.width.toFixed(0)} × {footprint.height.toFixed(0)} m;
+                take one every {cameraTriggerDistance(camera).toFixed(1)} m.
+              </p>
+              {!cameraSetsAltitude && (
+                <p className="text-yellow-700">
+                  Waypoint altitudes are above sea level, so the camera altitude is not copied to
+                  them. Set an altitude that keeps the drone {camera.altitude} m above the ground.
+                </p>
+              )}
+            </div>
+          )}
+
+          {area.length >= 3 && (
+            <p className={route.length > 0 ? 'text-gray-600' : 'text-red-600'}>
+              {route.length > 0
+                ? `${route.length / 2} lines, ${route.length} waypoints`
+                : 'No lines fit this area. It may be too narrow, or the line spacing too small for it.'}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              className="px-4 py-2 bg-green-500 text-white rounded disabled:opacity-50"
+              onClick={handleApply}
+              disabled={disabled || route.length === 0}
+              title="Replace the waypoints with the survey route"
+            >
+              Use as Waypoints
+            </button>
+            <button
+              className="px-4 py-2 bg-gray-500 text-white rounded"
+              onClick={() => onAreaChange(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SurveyPanel;
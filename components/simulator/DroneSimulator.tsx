@@ -1,7 +1,17 @@
 "use client";
 // src/components/simulator/DroneSimulator.tsx
-import React, { useEffect, useRef } from 'react';
-import { Coordinate } from '@/lib/api';
+import React, { useEffect, useRef, useState } from 'react';
+import { AltitudeReference, BatteryLevel, Coordinate, ExportFormat, FlightMode, GeofenceAction, GeofenceKind, GpsSettings, GpsStatus, MissionAction, RouteMode, SeekTarget, VehicleType, WindMode, WindSettings } from '@/lib/api';
+import { describeMissionAction } from '@/components/data/MissionActionEditor';
+import type { SeparationAlert } from '@/hooks/useSimulation';
+
+// Simulated seconds per real second offered in the time scale selector
+const TIME_SCALES = [1, 2, 5, 10, 50, 100];
+
+interface FleetEntry {
+  droneId: string;
+  color: string;
+}
 
 interface DroneSimulatorProps {
   waypoints: Coordinate[];
@@ -10,6 +20,47 @@ interface DroneSimulatorProps {
   isPaused: boolean;
   progress: number;
   speed: number;
+  distanceFlown?: number;
+  distanceRemaining?: number;
+  groundSpeed?: number;
+  airspeed?: number;
+  windSpeed?: number;
+  windDirection?: number;
+  altitude?: number;
+  verticalSpeed?: number;
+  heading?: number;
+  flightMode?: FlightMode;
+  batteryLevel?: number;
+  estimatedEndurance?: number | null;
+  batteryWarning?: BatteryLevel | null;
+  vehicleType?: VehicleType;
+  onVehicleTypeChange?: (vehicleType: VehicleType) => void;
+  altitudeReference?: AltitudeReference;
+  onAltitudeReferenceChange?: (altitudeReference: AltitudeReference) => void;
+  wind?: WindSettings;
+  onWindChange?: (wind: WindSettings) => void;
+  gps?: GpsSettings;
+  onGpsChange?: (gps: GpsSettings) => void;
+  gpsStatus?: GpsStatus | null;
+  routeMode?: RouteMode;
+  onRouteModeChange?: (routeMode: RouteMode) => void;
+  laps?: number;
+  onLapsChange?: (laps: number | undefined) => void;
+  lap?: number;
+  droneId?: string;
+  onDroneIdChange?: (droneId: string) => void;
+  fleet?: FleetEntry[];
+  onStopAll?: () => void;
+  simTime?: number;
+  timeScale?: number;
+  onTimeScaleChange?: (timeScale: number) => void;
+  canSeek?: boolean;
+  missionItem?: { waypointIndex: number; action: MissionAction } | null;
+  geofenceBreach?: { name: string; kind: GeofenceKind; action: GeofenceAction } | null;
+  separationAlerts?: SeparationAlert[];
+  onSeek?: (target: SeekTarget) => void;
+  onExport?: (format: ExportFormat) => void;
+  hasFlownTrack?: boolean; // the export includes the track flown, not only the route
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
@@ -17,6 +68,7 @@ interface DroneSimulatorProps {
   onSpeedChange: (speed: number) => void;
   onClearWaypoints: () => void;
   disabled?: boolean;
+  readOnly?: boolean; // watching another client's drones, without controls
 }
 
 const DroneSimulator: React.FC<DroneSimulatorProps> = ({
@@ -26,15 +78,60 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
   isPaused,
   progress,
   speed,
+  distanceFlown = 0,
+  distanceRemaining = 0,
+  groundSpeed = 0,
+  airspeed = 0,
+  windSpeed = 0,
+  windDirection = 0,
+  altitude = 0,
+  verticalSpeed = 0,
+  heading = 0,
+  flightMode = 'MISSION',
+  batteryLevel = 1,
+  estimatedEndurance = null,
+  batteryWarning = null,
+  vehicleType = 'quadcopter',
+  onVehicleTypeChange,
+  altitudeReference = 'AGL',
+  onAltitudeReferenceChange,
+  wind = { mode: 'none' },
+  onWindChange,
+  gps = {},
+  onGpsChange,
+  gpsStatus = null,
+  routeMode = 'once',
+  onRouteModeChange,
+  laps,
+  onLapsChange,
+  lap = 1,
+  droneId = 'drone-1',
+  onDroneIdChange,
+  fleet = [],
+  onStopAll,
+  simTime = 0,
+  timeScale = 1,
+  onTimeScaleChange,
+  canSeek = false,
+  missionItem = null,
+  geofenceBreach = null,
+  separationAlerts = [],
+  onSeek,
+  onExport,
+  hasFlownTrack = false,
   onStart,
   onPause,
   onResume,
   onStop,
   onSpeedChange,
   onClearWaypoints,
-  disabled = false
+  disabled = false,
+  readOnly = false
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Position of the timeline scrubber while it is being dragged
+  const [scrubProgress, setScrubProgress] = useState<number | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gpx');
   const currentWaypointIndex = isActive && waypoints.length > 0 
     ? Math.floor(progress * waypoints.length) 
     : 0;
@@ -44,6 +141,51 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
     const newSpeed = parseFloat(e.target.value);
     onSpeedChange(newSpeed);
   };
+
+  // Seek once the scrubber is released rather than on every movement
+  const commitScrub = () => {
+    if (scrubProgress !== null) {
+      onSeek?.({ progress: scrubProgress });
+      setScrubProgress(null);
+    }
+  };
+
+  // Format a distance in metres, switching to kilometres for longer routes
+  const formatDistance = (metres: number) =>
+    metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${metres.toFixed(0)} m`;
+
+  // Format a duration in seconds as minutes and seconds
+  const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60).toString().padStart(2, '0')}s`;
+
+  // Update a single numeric wind setting from an input field
+  const handleWindNumberChange = (key: 'speed' | 'direction' | 'gustSpeed') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = parseFloat(e.target.value);
+      onWindChange?.({ ...wind, [key]: isNaN(value) ? undefined : value });
+    };
+
+  // Update a single GPS setting from an input field; blank uses the default
+  const handleGpsNumberChange = (key: keyof GpsSettings) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = parseFloat(e.target.value);
+      onGpsChange?.({ ...gps, [key]: isNaN(value) ? undefined : value });
+    };
+
+  const renderGpsInput = (key: keyof GpsSettings, placeholder: string) => (
+    <input
+      type="number"
+      min="0"
+      placeholder={placeholder}
+      title={placeholder}
+      className="p-2 border rounded text-sm"
+      value={gps[key] ?? ''}
+      onChange={handleGpsNumberChange(key)}
+      disabled={isActive || !onGpsChange}
+    />
+  );
+
+  const batteryColor = batteryLevel > 0.3 ? 'bg-green-500' : batteryLevel > 0.15 ? 'bg-yellow-500' : 'bg-red-500';
   
   // Draw map and drone position
   useEffect(() => {
@@ -167,67 +309,295 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
         </div>
       </div>
       
-      <div className="flex flex-wrap gap-2 mb-4">
-        {!isActive ? (
-          <button
-            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
-            onClick={onStart}
-            disabled={disabled || waypoints.length < 2}
-          >
-            Start Simulation
-          </button>
-        ) : (
-          <>
-            {isPaused ? (
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Drone ID
+        </label>
+        <input
+          type="text"
+          className="w-full p-2 border rounded"
+          value={droneId}
+          onChange={(e) => onDroneIdChange?.(e.target.value)}
+          disabled={!onDroneIdChange}
+        />
+        {fleet.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {fleet.map((drone) => (
               <button
-                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-                onClick={onResume}
+                key={drone.droneId}
+                className={`flex items-center gap-1 px-2 py-1 text-sm border rounded ${drone.droneId === droneId ? 'bg-blue-100 border-blue-400' : 'bg-white'}`}
+                onClick={() => onDroneIdChange?.(drone.droneId)}
               >
-                Resume
+                <span
+                  className="inline-block w-3 h-3 rounded-full"
+                  style={{ backgroundColor: drone.color }}
+                />
+                {drone.droneId}
               </button>
-            ) : (
+            ))}
+          </div>
+        )}
+      </div>
+      
+      {!readOnly && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {!isActive ? (
+            <button
+              className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+              onClick={onStart}
+              disabled={disabled || waypoints.length < 2}
+            >
+              Start Simulation
+            </button>
+          ) : (
+            <>
+              {isPaused ? (
+                <button
+                  className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                  onClick={onResume}
+                >
+                  Resume
+                </button>
+              ) : (
+                <button
+                  className="px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600"
+                  onClick={onPause}
+                >
+                  Pause
+                </button>
+              )}
+            
               <button
-                className="px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600"
-                onClick={onPause}
+                className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
+                onClick={onStop}
               >
-                Pause
+                Stop
               </button>
-            )}
-            
+            </>
+          )}
+        
+          {fleet.length > 1 && onStopAll && (
             <button
-              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
-              onClick={onStop}
+              className="px-4 py-2 bg-red-700 text-white rounded hover:bg-red-800"
+              onClick={onStopAll}
             >
-              Stop
+              Stop All
             </button>
-          </>
-        )}
+          )}
         
-        <button
-          className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
-          onClick={onClearWaypoints}
-          disabled={isActive || waypoints.length === 0}
-        >
-          Clear Waypoints
-        </button>
+          <button
+            className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+            onClick={onClearWaypoints}
+            disabled={isActive || waypoints.length === 0}
+          >
+            Clear Waypoints
+          </button>
+        </div>
+      )}
+      
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Route Mode
+        </label>
+        <div className="flex gap-2">
+          <select
+            className="flex-1 p-2 border rounded"
+            value={routeMode}
+            onChange={(e) => onRouteModeChange?.(e.target.value as RouteMode)}
+            disabled={isActive || !onRouteModeChange}
+          >
+            <option value="once">Once</option>
+            <option value="loop">Loop</option>
+            <option value="ping-pong">Ping-pong</option>
+          </select>
+          {routeMode !== 'once' && (
+            <input
+              type="number"
+              min="1"
+              placeholder="Laps (∞)"
+              className="w-28 p-2 border rounded"
+              value={laps ?? ''}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                onLapsChange?.(isNaN(value) || value < 1 ? undefined : value);
+              }}
+              disabled={isActive || !onLapsChange}
+            />
+          )}
+        </div>
       </div>
       
       <div className="mb-4">
         <label className="block text-sm font-medium mb-1">
-          Simulation Speed: {speed.toFixed(1)}x
+          Vehicle Type
+        </label>
+        <select
+          className="w-full p-2 border rounded"
+          value={vehicleType}
+          onChange={(e) => onVehicleTypeChange?.(e.target.value as VehicleType)}
+          disabled={isActive || !onVehicleTypeChange}
+        >
+          <option value="quadcopter">Quadcopter</option>
+          <option value="fixed-wing">Fixed-wing</option>
+        </select>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Altitude Reference
+        </label>
+        <select
+          className="w-full p-2 border rounded"
+          value={altitudeReference}
+          onChange={(e) => onAltitudeReferenceChange?.(e.target.value as AltitudeReference)}
+          disabled={isActive || !onAltitudeReferenceChange}
+        >
+          <option value="AGL">AGL (above ground level)</option>
+          <option value="AMSL">AMSL (above mean sea level)</option>
+        </select>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Wind
+        </label>
+        <select
+          className="w-full p-2 border rounded"
+          value={wind.mode}
+          onChange={(e) => onWindChange?.({ ...wind, mode: e.target.value as WindMode })}
+          disabled={isActive || !onWindChange}
+        >
+          <option value="none">Still air</option>
+          <option value="constant">Constant</option>
+          <option value="gusting">Gusting</option>
+        </select>
+        {wind.mode !== 'none' && wind.mode !== 'layered' && (
+          <div className="grid grid-cols-3 gap-2 mt-2">
+            <input
+              type="number"
+              placeholder="Speed (m/s)"
+              className="p-2 border rounded text-sm"
+              value={wind.speed ?? ''}
+              onChange={handleWindNumberChange('speed')}
+              disabled={isActive}
+            />
+            <input
+              type="number"
+              placeholder="From (°)"
+              className="p-2 border rounded text-sm"
+              value={wind.direction ?? ''}
+              onChange={handleWindNumberChange('direction')}
+              disabled={isActive}
+            />
+            {wind.mode === 'gusting' && (
+              <input
+                type="number"
+                placeholder="Gusts (m/s)"
+                className="p-2 border rounded text-sm"
+                value={wind.gustSpeed ?? ''}
+                onChange={handleWindNumberChange('gustSpeed')}
+                disabled={isActive}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          GPS
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {renderGpsInput('hdop', 'HDOP (0.9)')}
+          {renderGpsInput('satellites', 'Satellites (12)')}
+          {renderGpsInput('biasDrift', 'Bias drift (1 m)')}
+          {renderGpsInput('updateRate', 'Rate (5 Hz)')}
+          {renderGpsInput('dropoutRate', 'Dropouts/min (0)')}
+          {renderGpsInput('dropoutDuration', 'Dropout (5 s)')}
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Simulation Speed: {speed.toFixed(1)} m/s
         </label>
         <input
           type="range"
-          min="0.1"
-          max="5"
-          step="0.1"
+          min="1"
+          max="30"
+          step="0.5"
           value={speed}
           onChange={handleSpeedChange}
-          disabled={disabled || !isActive}
+          disabled={disabled || readOnly || !isActive}
           className="w-full"
         />
       </div>
       
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-1">
+          Time Scale
+        </label>
+        <select
+          className="w-full p-2 border rounded"
+          value={timeScale}
+          onChange={(e) => onTimeScaleChange?.(Number(e.target.value))}
+          disabled={!onTimeScaleChange}
+        >
+          {TIME_SCALES.map((scale) => (
+            <option key={scale} value={scale}>{scale}× real time</option>
+          ))}
+        </select>
+      </div>
+      
+      {canSeek && onSeek && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">
+            Timeline: {formatDuration(simTime)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.001"
+            value={scrubProgress ?? progress}
+            onChange={(e) => setScrubProgress(parseFloat(e.target.value))}
+            onPointerUp={commitScrub}
+            onKeyUp={commitScrub}
+            className="w-full"
+          />
+          <div className="flex gap-2 mt-2">
+            <button
+              className="px-2 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+              onClick={() => onSeek({ time: 0 })}
+            >
+              Rewind
+            </button>
+            <button
+              className="px-2 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+              onClick={() => onSeek({ time: Math.max(simTime - 10, 0) })}
+            >
+              -10s
+            </button>
+            <button
+              className="px-2 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+              onClick={() => onSeek({ time: simTime + 10 })}
+            >
+              +10s
+            </button>
+            <select
+              className="flex-1 p-1 text-sm border rounded"
+              value=""
+              onChange={(e) => onSeek({ waypointIndex: Number(e.target.value) })}
+            >
+              <option value="" disabled>Jump to waypoint…</option>
+              {waypoints.map((_, index) => (
+                <option key={index} value={index}>Waypoint {index + 1}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+      
       {isActive && (
         <div className="mb-4">
           <label className="block text-sm font-medium mb-1">
@@ -242,6 +612,79 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
           <div className="text-right text-xs text-gray-500 mt-1">
             {(progress * 100).toFixed(1)}%
           </div>
+          <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 mt-2">
+            <div>Flown: {formatDistance(distanceFlown)}</div>
+            <div>Remaining: {formatDistance(distanceRemaining)}</div>
+            <div>Ground speed: {groundSpeed.toFixed(1)} m/s</div>
+            <div>Airspeed: {airspeed.toFixed(1)} m/s</div>
+            <div>Wind: {windSpeed.toFixed(1)} m/s from {windDirection.toFixed(0)}°</div>
+            <div>Altitude: {altitude.toFixed(1)} m {altitudeReference}</div>
+            <div>Vertical speed: {verticalSpeed.toFixed(1)} m/s</div>
+            <div>Heading: {heading.toFixed(0)}°</div>
+            <div>Sim time: {formatDuration(simTime)}</div>
+            <div className="col-span-2">
+              GPS: {gpsStatus
+                ? gpsStatus.fix
+                  ? `${gpsStatus.satellites} sats, HDOP ${gpsStatus.hdop.toFixed(1)}, error ${gpsStatus.error.toFixed(1)} m`
+                  : `no fix for ${gpsStatus.fixAge.toFixed(0)} s, error ${gpsStatus.error.toFixed(1)} m`
+                : '-'}
+            </div>
+            <div>Lap: {routeMode === 'once' ? '-' : `${lap}${laps ? ` of ${laps}` : ''}`}</div>
+            <div className="col-span-2">
+              Action: {missionItem ? `${describeMissionAction(missionItem.action)} at waypoint ${missionItem.waypointIndex + 1}` : '-'}
+            </div>
+          </div>
+          
+          <label className="block text-sm font-medium mt-4 mb-1">
+            Battery
+          </label>
+          <div className="w-full bg-gray-200 rounded h-4">
+            <div
+              className={`${batteryColor} h-4 rounded`}
+              style={{ width: `${Math.max(Math.min(batteryLevel * 100, 100), 0)}%` }}
+            ></div>
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>{(batteryLevel * 100).toFixed(1)}%</span>
+            <span>
+              Endurance: {estimatedEndurance !== null ? formatDuration(estimatedEndurance) : '-'}
+            </span>
+          </div>
+          {batteryWarning && batteryWarning !== 'OK' && (
+            <div className="mt-2 p-2 text-sm rounded bg-red-50 border border-red-200 text-red-700">
+              Battery {batteryWarning.toLowerCase()}
+              {flightMode === 'RTL' && ' - returning to launch'}
+              {flightMode === 'LAND' && ' - landing'}
+            </div>
+          )}
+          {(geofenceBreach || flightMode === 'HOLD') && (
+            <div className="mt-2 p-2 text-sm rounded bg-orange-50 border border-orange-200 text-orange-700">
+              {geofenceBreach
+                ? `Geofence breach: ${geofenceBreach.kind === 'exclusion' ? 'entered' : 'left'} ${geofenceBreach.name}`
+                : 'Holding position'}
+              {geofenceBreach && flightMode === 'HOLD' && ' - holding position'}
+              {geofenceBreach && flightMode === 'RTL' && ' - returning to launch'}
+              {flightMode === 'HOLD' && (
+                <button
+                  className="ml-2 px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+                  onClick={onResume}
+                >
+                  Continue Mission
+                </button>
+              )}
+            </div>
+          )}
+          {separationAlerts.map((alert) => (
+            <div
+              key={alert.intruderId}
+              className={`mt-2 p-2 text-sm rounded border ${alert.status === 'LOSS' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+            >
+              {alert.status === 'LOSS'
+                ? `Loss of separation with ${alert.intruderId}`
+                : `Conflict with ${alert.intruderId} in ${alert.timeToConflict?.toFixed(0)} s`}
+              {` (${formatDistance(alert.horizontalDistance)} horizontal, ${alert.verticalDistance.toFixed(0)} m vertical)`}
+            </div>
+          ))}
         </div>
       )}
       
@@ -268,6 +711,7 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
                   <th className="text-left text-sm">#</th>
                   <th className="text-left text-sm">Latitude</th>
                   <th className="text-left text-sm">Longitude</th>
+                  <th className="text-left text-sm">Altitude</th>
                 </tr>
               </thead>
               <tbody>
@@ -279,6 +723,7 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
                     <td className="text-sm py-1">{index + 1}</td>
                     <td className="text-sm py-1">{point.lat.toFixed(6)}</td>
                     <td className="text-sm py-1">{point.lng.toFixed(6)}</td>
+                    <td className="text-sm py-1">{point.alt !== undefined ? `${point.alt.toFixed(1)} m` : '-'}</td>
                   </tr>
                 ))}
               </tbody>
@@ -286,6 +731,33 @@ const DroneSimulator: React.FC<DroneSimulatorProps> = ({
           </div>
         )}
       </div>
+      
+      {onExport && (
+        <div className="mt-4">
+          <label className="block text-sm font-medium mb-1">
+            Export {hasFlownTrack ? 'Route and Flown Track' : 'Planned Route'}
+          </label>
+          <div className="flex gap-2">
+            <select
+              className="flex-1 p-2 border rounded"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            >
+              <option value="gpx">GPX</option>
+              <option value="kml">KML</option>
+              <option value="geojson">GeoJSON</option>
+              <option value="csv">CSV</option>
+            </select>
+            <button
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+              onClick={() => onExport(exportFormat)}
+              disabled={waypoints.length === 0 && !hasFlownTrack}
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,184 @@
+"use client";
+// src/components/simulator/FailurePanel.tsx
+import React, { useState } from 'react';
+import { Failure, FailureType, ScheduledFailure } from '@/lib/api';
+import type { FailureLogEntry } from '@/hooks/useSimulation';
+
+interface FailurePanelProps {
+  isActive: boolean;
+  activeFailures: FailureType[];
+  failureLog: FailureLogEntry[];
+  scheduledFailures: ScheduledFailure[];
+  onScheduledFailuresChange: (failures: ScheduledFailure[]) => void;
+  onInject: (failure: Failure) => void;
+  readOnly?: boolean; // only show the failures of another client's drone
+}
+
+const FAILURE_LABELS: Record<FailureType, string> = {
+  LINK_LOSS: 'Link loss',
+  GPS_LOSS: 'GPS loss',
+  MOTOR_FAILURE: 'Motor failure',
+  BATTERY_CELL_FAULT: 'Battery cell fault'
+};
+
+const PHASE_LABELS: Record<FailureLogEntry['phase'], string> = {
+  INJECTED: 'failed',
+  FAILSAFE: 'failsafe triggered',
+  RECOVERED: 'recovered'
+};
+
+// Short description of a failure and its parameters
+const describeFailure = (failure: Failure): string => {
+  if (failure.type === 'BATTERY_CELL_FAULT') {
+    return `${FAILURE_LABELS[failure.type]} (${((failure.capacityLoss ?? 0.25) * 100).toFixed(0)}% charge lost)`;
+  }
+  if (failure.type === 'LINK_LOSS' || failure.type === 'GPS_LOSS') {
+    return `${FAILURE_LABELS[failure.type]} (${failure.duration ? `${failure.duration} s` : 'permanent'})`;
+  }
+  return FAILURE_LABELS[failure.type];
+};
+
+const FailurePanel: React.FC<FailurePanelProps> = ({
+  isActive,
+  activeFailures,
+  failureLog,
+  scheduledFailures,
+  onScheduledFailuresChange,
+  onInject,
+  readOnly = false
+}) => {
+  const [type, setType] = useState<FailureType>('LINK_LOSS');
+  const [duration, setDuration] = useState<string>('');
+  const [capacityLoss, setCapacityLoss] = useState<string>('25');
+  const [time, setTime] = useState<string>('');
+
+  // Build the failure from the form; blank or invalid parameters use the defaults
+  const buildFailure = (): Failure => {
+    const failure: Failure = { type };
+    const seconds = parseFloat(duration);
+    const percent = parseFloat(capacityLoss);
+    if ((type === 'LINK_LOSS' || type === 'GPS_LOSS') && seconds > 0) failure.duration = seconds;
+    if (type === 'BATTERY_CELL_FAULT' && percent > 0 && percent <= 100) failure.capacityLoss = percent / 100;
+    return failure;
+  };
+
+  const handleSchedule = () => {
+    const seconds = parseFloat(time);
+    if (isNaN(seconds) || seconds < 0) {
+      alert('Please enter the mission time to inject the failure at');
+      return;
+    }
+    onScheduledFailuresChange(
+      [...scheduledFailures, { ...buildFailure(), time: seconds }].sort((a, b) => a.time - b.time)
+    );
+    setTime('');
+  };
+
+  return (
+    <div className="failure-panel">
+      <h3 className="text-lg font-medium mb-2">Failures</h3>
+
+      {activeFailures.length > 0 && (
+        <div className="mb-2 p-2 text-sm font-medium rounded bg-red-600 text-white">
+          ⚠ {activeFailures.map(failure => FAILURE_LABELS[failure]).join(', ')}
+        </div>
+      )}
+
+      {!readOnly && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <select
+              className="p-2 border rounded"
+              value={type}
+              onChange={(e) => setType(e.target.value as FailureType)}
+            >
+              {(Object.keys(FAILURE_LABELS) as FailureType[]).map((value) => (
+                <option key={value} value={value}>{FAILURE_LABELS[value]}</option>
+              ))}
+            </select>
+            {(type === 'LINK_LOSS' || type === 'GPS_LOSS') && (
+              <input
+                type="number"
+                min="0"
+                placeholder="Duration (s)"
+                title="Seconds until it recovers; blank for permanent"
+                className="w-28 p-2 border rounded"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            )}
+            {type === 'BATTERY_CELL_FAULT' && (
+              <input
+                type="number"
+                min="1"
+                max="100"
+                placeholder="Charge lost (%)"
+                className="w-28 p-2 border rounded"
+                value={capacityLoss}
+                onChange={(e) => setCapacityLoss(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button
+              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+              onClick={() => onInject(buildFailure())}
+              disabled={!isActive}
+            >
+              Inject Now
+            </button>
+            <input
+              type="number"
+              min="0"
+              placeholder="At time (s)"
+              className="w-28 p-2 border rounded"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              disabled={isActive}
+            />
+            <button
+              className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+              onClick={handleSchedule}
+              disabled={isActive}
+            >
+              Schedule
+            </button>
+          </div>
+
+          {scheduledFailures.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm">
+              {scheduledFailures.map((failure, index) => (
+                <li key={index} className="flex items-center justify-between">
+                  <span>{failure.time} s: {describeFailure(failure)}</span>
+                  <button
+                    className="px-2 text-red-500"
+                    onClick={() => onScheduledFailuresChange(scheduledFailures.filter((_, i) => i !== index))}
+                    disabled={isActive}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {failureLog.length > 0 && (
+        <div className="mt-3">
+          <h4 className="text-sm font-medium">Failure log</h4>
+          <ul className="max-h-40 overflow-y-auto text-xs text-gray-700">
+            {failureLog.map((entry, index) => (
+              <li key={index} className={entry.phase === 'RECOVERED' ? 'text-green-700' : 'text-red-700'}>
+                {entry.time.toFixed(1)} s: {FAILURE_LABELS[entry.failure]} {PHASE_LABELS[entry.phase]} - {entry.flightMode}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FailurePanel;
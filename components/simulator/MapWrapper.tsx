@@ -2,7 +2,8 @@
 
 import React, { Suspense } from 'react';
 import dynamic from 'next/dynamic';
-import { Coordinate } from '@/lib/api';
+import { Coordinate, Geofence } from '@/lib/api';
+import type { DroneTrack, GeofenceDraft, TrackDisplay } from '../map/LeafletMap';
 
 // Import LeafletMap component with no SSR
 const LeafletMap = dynamic(
@@ -20,9 +21,15 @@ const LeafletMap = dynamic(
 interface MapWrapperProps {
   waypoints: Coordinate[];
   onMapClick?: (position: { lat: number; lng: number }) => void;
+  onWaypointChange?: (index: number, waypoint: Coordinate) => void;
   centerOn?: Coordinate;
   disabled?: boolean;
-  simulationMarker?: Coordinate | null;
+  fleet?: DroneTrack[];
+  geofences?: Geofence[];
+  geofenceDraft?: GeofenceDraft | null;
+  trackDisplay?: TrackDisplay;
+  surveyArea?: Coordinate[] | null;
+  surveyRoute?: Coordinate[];
 }
 
 const MapWrapper: React.FC<MapWrapperProps> = (props) => {
@@ -0,0 +1,100 @@
+"use client";
+// src/components/simulator/RecordingsPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { RecordingMetadata, fetchRecordings, recordingDownloadUrl } from '@/lib/api';
+
+interface RecordingsPanelProps {
+  onReplay: (recording: RecordingMetadata) => void;
+  replayDisabled: boolean;
+  isReplaying: boolean; // the selected drone is a replay
+  onStopReplay: () => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60).toString().padStart(2, '0')}s`;
+
+const RecordingsPanel: React.FC<RecordingsPanelProps> = ({
+  onReplay,
+  replayDisabled,
+  isReplaying,
+  onStopReplay
+}) => {
+  const [recordings, setRecordings] = useState<RecordingMetadata[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshRecordings = useCallback(() => {
+    fetchRecordings()
+      .then(list => {
+        setRecordings(list);
+        setError(null);
+      })
+      .catch(() => setError('Failed to load recordings'));
+  }, []);
+
+  useEffect(() => {
+    refreshRecordings();
+  }, [refreshRecordings]);
+
+  return (
+    <div className="recordings-panel">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium">Recordings</h3>
+        <button className="px-2 text-sm text-blue-600" onClick={refreshRecordings}>
+          Refresh
+        </button>
+      </div>
+
+      {isReplaying && (
+        <div className="flex items-center justify-between p-2 mb-2 text-sm rounded bg-blue-50 border border-blue-200">
+          <span>Watching a replay</span>
+          <button
+            className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600"
+            onClick={onStopReplay}
+          >
+            Stop Replay
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {recordings.length === 0 ? (
+        <p className="text-sm text-gray-500">No recordings yet</p>
+      ) : (
+        <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+          {recordings.map((recording) => (
+            <li key={recording.id} className="flex items-center gap-2 px-2 py-1 border rounded">
+              <div className="flex-1">
+                <p className="font-medium">
+                  {recording.droneId}
+                  <span className="text-gray-600 font-normal">
+                    {' '}- {new Date(recording.startedAt).toLocaleString()}
+                  </span>
+                </p>
+                <p className="text-gray-600">
+                  {formatDuration(recording.duration)} flown, {recording.frameCount} frames, {recording.commandCount} command{recording.commandCount === 1 ? '' : 's'}
+                  {recording.endedAt === null && ', recording'}
+                </p>
+              </div>
+              <button
+                className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                onClick={() => onReplay(recording)}
+                disabled={replayDisabled}
+              >
+                Replay
+              </button>
+              <a
+                className="px-2 py-1 text-blue-600 hover:underline"
+                href={recordingDownloadUrl(recording.id)}
+                download
+              >
+                Download
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecordingsPanel;
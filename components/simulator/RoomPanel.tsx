@@ -0,0 +1,115 @@
+"use client";
+// src/components/simulator/RoomPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { RoomRole, RoomSummary, fetchRooms } from '@/lib/api';
+import type { RoomMembership } from '@/hooks/useSimulation';
+
+interface RoomPanelProps {
+  room: RoomMembership | null;
+  onJoin: (name: string, role: RoomRole) => void;
+  onLeave: () => void;
+}
+
+const RoomPanel: React.FC<RoomPanelProps> = ({ room, onJoin, onLeave }) => {
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshRooms = useCallback(() => {
+    fetchRooms()
+      .then(list => {
+        setRooms(list);
+        setError(null);
+      })
+      .catch(() => setError('Failed to load rooms'));
+  }, []);
+
+  // Load the rooms on mount and whenever the client joins or leaves one
+  useEffect(() => {
+    refreshRooms();
+  }, [refreshRooms, room?.name]);
+
+  const handleJoin = (role: RoomRole) => {
+    if (!name.trim()) {
+      alert('Please enter a room name');
+      return;
+    }
+    onJoin(name.trim(), role);
+  };
+
+  return (
+    <div className="room-panel">
+      <h3 className="text-lg font-medium mb-2">Rooms</h3>
+
+      {room ? (
+        <div className="p-2 text-sm rounded bg-blue-50 border border-blue-200">
+          <p className="font-medium">
+            {room.role === 'operator' ? 'Operating' : 'Observing'} room {room.name}
+          </p>
+          <p className="text-gray-600">
+            {room.hasOperator ? 'Operator connected' : 'Waiting for an operator'}, {room.observers} observer{room.observers === 1 ? '' : 's'}
+          </p>
+          <button
+            className="mt-2 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+            onClick={onLeave}
+          >
+            Leave Room
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            placeholder="Room name"
+            className="flex-1 p-2 border rounded"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button
+            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
+            onClick={() => handleJoin('operator')}
+          >
+            Host
+          </button>
+          <button
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={() => handleJoin('observer')}
+          >
+            Join as Observer
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-3">
+        <h4 className="text-sm font-medium">Active rooms</h4>
+        <button className="px-2 text-sm text-blue-600" onClick={refreshRooms}>
+          Refresh
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {rooms.length === 0 ? (
+        <p className="text-sm text-gray-500">No rooms yet</p>
+      ) : (
+        <ul className="mt-1 space-y-1 text-sm">
+          {rooms.map((summary) => (
+            <li key={summary.name}>
+              <button
+                className="w-full text-left px-2 py-1 border rounded hover:bg-gray-50 disabled:opacity-50"
+                onClick={() => setName(summary.name)}
+                disabled={room !== null}
+              >
+                <span className="font-medium">{summary.name}</span>
+                <span className="text-gray-600">
+                  {' '}- {summary.drones.length} drone{summary.drones.length === 1 ? '' : 's'}, {summary.observers} observer{summary.observers === 1 ? '' : 's'}
+                  {!summary.hasOperator && ', no operator'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RoomPanel;
@@ -1,16 +1,43 @@
 "use client";
 import React, { useState, useMemo, useCallback } from 'react';
 import { useSimulation } from "@/hooks/useSimulation";
+import { useGeofences } from "@/hooks/useGeofences";
+import { useMissions } from "@/hooks/useMissions";
 import CoordinateTable from '@/components/data/CoordinateTable';
 import FileImport from '@/components/data/FileImport';
+import MissionLibrary from '@/components/data/MissionLibrary';
+import RouteOptimizer from '@/components/data/RouteOptimizer';
 import SearchControl from '@/components/map/SearchControl';
+import GeofencePanel from '@/components/map/GeofencePanel';
+import SurveyPanel from '@/components/map/SurveyPanel';
+import type { GeofenceDraft, TrackDisplay } from '@/components/map/LeafletMap';
 // Import MapWrapper instead of LeafletMap
 import MapWrapper from '@/components/simulator/MapWrapper';
 import DroneSimulator from '@/components/simulator/DroneSimulator';
-import { Coordinate } from '@/lib/api';
+import FailurePanel from '@/components/simulator/FailurePanel';
+import RoomPanel from '@/components/simulator/RoomPanel';
+import RecordingsPanel from '@/components/simulator/RecordingsPanel';
+import { Coordinate, FlightMode, Mission } from '@/lib/api';
+import { waypointExclusions } from '@/lib/geofence';
+import { SurveyPattern, surveyRoute } from '@/lib/survey';
+
+// Flight modes in which the mission can still be edited
+const EDITABLE_FLIGHT_MODES: FlightMode[] = ['MISSION', 'HOLD', 'GUIDED'];
+
+const DEFAULT_SURVEY_PATTERN: SurveyPattern = { spacing: 30, heading: 0, overshoot: 10, startCorner: 'northwest' };
 
 const SimulatorComponent: React.FC = () => {
   const [centerMapOn, setCenterMapOn] = useState<Coordinate | null>(null);
+  // Geofence being drawn; map clicks add to it instead of adding waypoints
+  const [geofenceDraft, setGeofenceDraft] = useState<GeofenceDraft | null>(null);
+  // Survey area being drawn; map clicks add its corners
+  const [surveyArea, setSurveyArea] = useState<Coordinate[] | null>(null);
+  const [surveyPattern, setSurveyPattern] = useState<SurveyPattern>(DEFAULT_SURVEY_PATTERN);
+  const [trackDisplay, setTrackDisplay] = useState<TrackDisplay>('true');
+  // What a map click does while the selected drone is in flight
+  const [flightClickMode, setFlightClickMode] = useState<'insert' | 'goto'>('insert');
+  const { geofences, geofenceError, addGeofence, removeGeofence } = useGeofences();
+  const { missions, missionError, saveMission, overwriteMission, duplicateMission, removeMission } = useMissions();
   
   const {
     waypoints,
@@ -19,21 +46,111 @@ const SimulatorComponent: React.FC = () => {
     resumeSimulation,
     stopSimulation,
     updateSpeed,
+    updateTimeScale,
+    seekSimulation,
     addWaypoint,
     removeWaypoint,
     updateWaypoint,
     clearWaypoints,
     setAllWaypoints,
+    vehicleType,
+    setVehicleType,
+    altitudeReference,
+    setAltitudeReference,
+    wind,
+    setWind,
+    gps,
+    setGps,
+    routeMode,
+    setRouteMode,
+    laps,
+    setLaps,
     isActive,
     isPaused,
     currentPosition,
+    gpsStatus,
     progress,
-    speed
+    distanceFlown,
+    distanceRemaining,
+    groundSpeed,
+    airspeed,
+    windSpeed,
+    windDirection,
+    altitude,
+    verticalSpeed,
+    heading,
+    flightMode,
+    lap,
+    batteryLevel,
+    estimatedEndurance,
+    batteryWarning,
+    speed,
+    simTime,
+    timeScale,
+    missionItem,
+    geofenceBreach,
+    separationAlerts,
+    injectFailure,
+    updateMission,
+    simulationError,
+    goTo,
+    currentWaypoint,
+    scheduledFailures,
+    setScheduledFailures,
+    activeFailures,
+    failureLog,
+    droneId,
+    setDroneId,
+    fleet,
+    stopAllSimulations,
+    room,
+    isObserver,
+    joinRoom,
+    leaveRoom,
+    isReplay,
+    replayRecording,
+    recordingId,
+    exportFlight
   } = useSimulation();
   
+  // The selected drone's mission while it can still be edited in flight;
+  // observers and replays can only be watched
+  const liveDrone = !isObserver && !isReplay && isActive && EDITABLE_FLIGHT_MODES.includes(flightMode) ? fleet[droneId] : undefined;
+  const liveWaypoints = liveDrone?.waypoints;
+  
+  // Waypoints already reached can no longer change; a repeating route
+  // flies all the others again
+  const lockedWaypoints = useMemo(() => (liveWaypoints ?? []).map((_, index) =>
+    index === currentWaypoint || (liveDrone?.routeMode === 'once' && index < currentWaypoint)
+  ), [liveWaypoints, liveDrone?.routeMode, currentWaypoint]);
+  
   // Create a memoized copy of waypoints that we'll pass to the map
   // This will update whenever waypoints changes, but won't cause re-renders during simulation
-  const staticWaypoints = useMemo(() => [...waypoints], [waypoints]);
+  // Observers have no mission of their own; the map shows the room's drones
+  const staticWaypoints = useMemo(() => [...(liveWaypoints ?? (isObserver ? [] : waypoints))], [liveWaypoints, isObserver, waypoints]);
+  
+  // Edits to the mission in flight go to the server, which re-plans the route
+  const insertLiveWaypoint = useCallback((index: number, waypoint: Coordinate) => {
+    updateMission({ operation: 'INSERT', index, waypoint });
+  }, [updateMission]);
+  
+  const moveLiveWaypoint = useCallback((index: number, waypoint: Coordinate) => {
+    updateMission({ operation: 'MOVE', index, waypoint });
+  }, [updateMission]);
+  
+  // Every drone in the fleet, drawn on the map in its own colour
+  const droneTracks = useMemo(() => Object.values(fleet).map(drone => ({
+    droneId: drone.droneId,
+    waypoints: drone.waypoints,
+    position: drone.currentPosition,
+    color: drone.color,
+    estimatedPosition: drone.estimatedPosition,
+    trueTrack: drone.trueTrack,
+    estimatedTrack: drone.estimatedTrack
+  })), [fleet]);
+  
+  // Survey route over the area, previewed on the map until it is used
+  const surveyWaypoints = useMemo(() => surveyArea ? surveyRoute(surveyArea, surveyPattern) : [], [surveyArea, surveyPattern]);
   
   const handleLocationSelect = (location: { lat: number; lng: number; name: string }) => {
     // Center the map on the selected location
@@ -42,10 +159,25 @@ const SimulatorComponent: React.FC = () => {
   
   // Use useCallback to memoize the handleMapClick function
   const handleMapClick = useCallback((position: { lat: number; lng: number }) => {
-    if (!isActive) {
+    if (geofenceDraft) {
+      // A circle has a single centre point, a polygon grows with each click
+      setGeofenceDraft({
+        ...geofenceDraft,
+        points: geofenceDraft.type === 'circle' ? [position] : [...geofenceDraft.points, position]
+      });
+    } else if (surveyArea) {
+      setSurveyArea([...surveyArea, position]);
+    } else if (liveWaypoints) {
+      updateMission(flightClickMode === 'goto'
+        ? { operation: 'GOTO', waypoint: position }
+        : { operation: 'INSERT', index: liveWaypoints.length, waypoint: position });
+    } else if (!isActive && !isObserver) {
       addWaypoint(position);
     }
-  }, [isActive, addWaypoint]);
+  }, [geofenceDraft, surveyArea, liveWaypoints, flightClickMode, isActive, isObserver, updateMission, addWaypoint]);
+  
+  // Waypoints that lie inside an exclusion zone, flagged before the flight
+  const exclusions = useMemo(() => waypointExclusions(waypoints, geofences), [waypoints, geofences]);
   
   const handleImportSuccess = (coordinates: Coordinate[]) => {
     setAllWaypoints(coordinates);
@@ -56,14 +188,24 @@ const SimulatorComponent: React.FC = () => {
     }
   };
 
+  const handleLoadMission = (mission: Mission) => {
+    handleImportSuccess(mission.waypoints);
+  };
+
   // Memoize the map props to prevent unnecessary re-renders during simulation
   const mapProps = useMemo(() => ({
     waypoints: staticWaypoints,
     onMapClick: handleMapClick,
+    onWaypointChange: liveWaypoints ? moveLiveWaypoint : updateWaypoint,
     centerOn: centerMapOn || undefined,
-    disabled: isActive,
-    simulationMarker: currentPosition
-  }), [staticWaypoints, handleMapClick, centerMapOn, isActive, currentPosition]);
+    disabled: (isActive || isObserver) && !geofenceDraft && !surveyArea && !liveWaypoints,
+    fleet: droneTracks,
+    geofences,
+    geofenceDraft,
+    trackDisplay,
+    surveyArea,
+    surveyRoute: surveyWaypoints
+  }), [staticWaypoints, handleMapClick, liveWaypoints, moveLiveWaypoint, updateWaypoint, centerMapOn, isActive, isObserver, droneTracks, geofences, geofenceDraft, trackDisplay, surveyArea, surveyWaypoints]);
   
   return (
     <div className="simulator-container max-w-screen-xl mx-auto p-4">
@@ -83,19 +225,102 @@ const SimulatorComponent: React.FC = () => {
           <div className="bg-white p-4 rounded shadow">
             <FileImport 
               onImportSuccess={handleImportSuccess}
-              disabled={isActive}
+              disabled={isActive || isObserver}
+            />
+          </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            <RouteOptimizer
+              waypoints={waypoints}
+              onOptimize={setAllWaypoints}
+              disabled={isActive || isObserver}
+            />
+          </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            <MissionLibrary
+              missions={missions}
+              waypoints={waypoints}
+              onSave={saveMission}
+              onUpdate={overwriteMission}
+              onLoad={handleLoadMission}
+              onDuplicate={duplicateMission}
+              onDelete={removeMission}
+              error={missionError}
+              disabled={isActive || isObserver}
+            />
+          </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            <RoomPanel
+              room={room}
+              onJoin={joinRoom}
+              onLeave={leaveRoom}
+            />
+            {room && simulationError && (
+              <p className="mt-2 text-sm text-red-600">{simulationError}</p>
+            )}
+          </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            <RecordingsPanel
+              onReplay={replayRecording}
+              replayDisabled={isObserver}
+              isReplaying={isReplay}
+              onStopReplay={stopSimulation}
             />
           </div>
           
           {/* DroneSimulator - use the actual waypoints and currentPosition */}
           <div className="bg-white p-4 rounded shadow">
             <DroneSimulator
-              waypoints={waypoints}
+              waypoints={fleet[droneId] ? fleet[droneId].waypoints : waypoints}
               currentPosition={currentPosition}
               isActive={isActive}
               isPaused={isPaused}
               progress={progress || 0}
               speed={speed}
+              distanceFlown={distanceFlown}
+              distanceRemaining={distanceRemaining}
+              groundSpeed={groundSpeed}
+              airspeed={airspeed}
+              windSpeed={windSpeed}
+              windDirection={windDirection}
+              altitude={altitude}
+              verticalSpeed={verticalSpeed}
+              heading={heading}
+              flightMode={flightMode}
+              batteryLevel={batteryLevel}
+              estimatedEndurance={estimatedEndurance}
+              batteryWarning={batteryWarning}
+              vehicleType={vehicleType}
+              onVehicleTypeChange={setVehicleType}
+              altitudeReference={altitudeReference}
+              onAltitudeReferenceChange={setAltitudeReference}
+              wind={wind}
+              onWindChange={setWind}
+              gps={gps}
+              onGpsChange={setGps}
+              gpsStatus={gpsStatus}
+              routeMode={routeMode}
+              onRouteModeChange={setRouteMode}
+              laps={laps}
+              onLapsChange={setLaps}
+              lap={lap}
+              droneId={droneId}
+              onDroneIdChange={setDroneId}
+              fleet={droneTracks}
+              onStopAll={stopAllSimulations}
+              simTime={simTime}
+              timeScale={timeScale}
+              onTimeScaleChange={isObserver || isReplay ? undefined : updateTimeScale}
+              canSeek={!isObserver && !isReplay && droneId in fleet}
+              missionItem={missionItem}
+              geofenceBreach={geofenceBreach}
+              separationAlerts={separationAlerts}
+              onSeek={seekSimulation}
+              onExport={exportFlight}
+              hasFlownTrack={recordingId !== null}
               onStart={startSimulation}
               onPause={pauseSimulation}
               onResume={resumeSimulation}
@@ -103,6 +328,19 @@ const SimulatorComponent: React.FC = () => {
               onSpeedChange={updateSpeed}
               onClearWaypoints={clearWaypoints}
               disabled={waypoints.length < 2}
+              readOnly={isObserver || isReplay}
+            />
+          </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            <FailurePanel
+              isActive={isActive}
+              activeFailures={activeFailures}
+              failureLog={failureLog}
+              scheduledFailures={scheduledFailures}
+              onScheduledFailuresChange={setScheduledFailures}
+              onInject={injectFailure}
+              readOnly={isObserver || isReplay}
             />
           </div>
         </div>
@@ -110,31 +348,123 @@ const SimulatorComponent: React.FC = () => {
         {/* Right Column - Map and Waypoints */}
         <div className="md:col-span-2 space-y-6">
           <div className="bg-white p-4 rounded shadow">
-            <h2 className="text-xl font-semibold mb-4">Flight Map</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Flight Map</h2>
+              {liveWaypoints && (
+                <label className="text-sm">
+                  Map click
+                  <select
+                    className="ml-2 p-1 border rounded"
+                    value={flightClickMode}
+                    onChange={(e) => setFlightClickMode(e.target.value as 'insert' | 'goto')}
+                  >
+                    <option value="insert">Adds a waypoint</option>
+                    <option value="goto">Sends the drone there</option>
+                  </select>
+                </label>
+              )}
+              <label className="text-sm">
+                Flown track
+                <select
+                  className="ml-2 p-1 border rounded"
+                  value={trackDisplay}
+                  onChange={(e) => setTrackDisplay(e.target.value as TrackDisplay)}
+                >
+                  <option value="none">Hidden</option>
+                  <option value="true">True position</option>
+                  <option value="estimated">GPS estimate</option>
+                  <option value="both">Both</option>
+                </select>
+              </label>
+            </div>
             {/* Use MapWrapper instead of LeafletMap */}
             <MapWrapper {...mapProps} />
             <p className="mt-2 text-sm text-gray-600">
-              {!isActive ? "Click on the map to add waypoints" : "Simulation in progress (map shows planned waypoints)"}
+              {geofenceDraft
+                ? "Click on the map to draw the geofence"
+                : surveyArea
+                  ? "Click on the map to draw the survey area"
+                  : isObserver
+                    ? "Watching the room's drones"
+                    : !isActive
+                      ? "Click on the map to add waypoints"
+                      : liveWaypoints
+                        ? flightClickMode === 'goto'
+                          ? "Click on the map to send the drone there"
+                          : "Click on the map to add waypoints to the mission in flight"
+                        : "Simulation in progress (map shows planned waypoints)"}
             </p>
+            {goTo && (
+              <div className="mt-2 p-2 text-sm rounded bg-blue-50 border border-blue-200 text-blue-700">
+                {flightMode === 'HOLD' ? 'Holding at' : 'Flying to'} go-to point {goTo.lat.toFixed(5)}, {goTo.lng.toFixed(5)}
+                {!isObserver && (
+                  <button
+                    className="ml-2 px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+                    onClick={() => updateMission({ operation: 'RESUME' })}
+                  >
+                    Resume Mission
+                  </button>
+                )}
+              </div>
+            )}
+            {liveWaypoints && simulationError && (
+              <p className="mt-2 text-sm text-red-600">{simulationError}</p>
+            )}
           </div>
           
           <div className="bg-white p-4 rounded shadow">
-            <CoordinateTable
-              coordinates={waypoints}
-              onAddCoordinate={addWaypoint}
-              onUpdateCoordinate={updateWaypoint}
-              onRemoveCoordinate={removeWaypoint}
-              onClearCoordinates={clearWaypoints}
-              disabled={isActive}
+            <GeofencePanel
+              geofences={geofences}
+              draft={geofenceDraft}
+              onDraftChange={setGeofenceDraft}
+              onSave={addGeofence}
+              onDelete={removeGeofence}
+              error={geofenceError}
             />
           </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            <SurveyPanel
+              area={surveyArea}
+              onAreaChange={setSurveyArea}
+              pattern={surveyPattern}
+              onPatternChange={setSurveyPattern}
+              route={surveyWaypoints}
+              onApply={handleImportSuccess}
+              altitudeReference={altitudeReference}
+              disabled={isActive || isObserver}
+            />
+          </div>
+          
+          <div className="bg-white p-4 rounded shadow">
+            {liveWaypoints ? (
+              <CoordinateTable
+                coordinates={liveWaypoints}
+                onAddCoordinate={(waypoint) => insertLiveWaypoint(liveWaypoints.length, waypoint)}
+                onInsertCoordinate={insertLiveWaypoint}
+                onUpdateCoordinate={moveLiveWaypoint}
+                onRemoveCoordinate={(index) => updateMission({ operation: 'DELETE', index })}
+                locked={lockedWaypoints}
+              />
+            ) : (
+              <CoordinateTable
+                coordinates={isObserver ? fleet[droneId]?.waypoints ?? [] : waypoints}
+                onAddCoordinate={addWaypoint}
+                onUpdateCoordinate={updateWaypoint}
+                onRemoveCoordinate={removeWaypoint}
+                onClearCoordinates={clearWaypoints}
+                disabled={isActive || isObserver}
+                exclusions={exclusions}
+              />
+            )}
+          </div>
         </div>
       </div>
       
       {isActive && currentPosition && (
         <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded">
-          <h3 className="font-medium">Current Drone Position:</h3>
-          <p>Latitude: {currentPosition.lat.toFixed(6)}, Longitude: {currentPosition.lng.toFixed(6)}</p>
+          <h3 className="font-medium">Current Position of {droneId}:</h3>
+          <p>Latitude: {currentPosition.lat.toFixed(6)}, Longitude: {currentPosition.lng.toFixed(6)}, Altitude: {altitude.toFixed(1)} m {altitudeReference}</p>
         </div>
       )}
     </div>
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Geofence, createGeofence, deleteGeofence, fetchGeofences, updateGeofence } from '../lib/api';
+
+// Geofences stored on the server. Changes apply to simulations started
+// after they are saved.
+export const useGeofences = () => {
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Load the fences once on mount
+  useEffect(() => {
+    fetchGeofences()
+      .then(setGeofences)
+      .catch(() => setError('Failed to load geofences'));
+  }, []);
+  
+  const addGeofence = useCallback(async (geofence: Omit<Geofence, 'id'>) => {
+    try {
+      const created = await createGeofence(geofence);
+      setGeofences(prev => [...prev, created]);
+      setError(null);
+    } catch {
+      setError('Failed to save geofence');
+    }
+  }, []);
+  
+  const editGeofence = useCallback(async (geofence: Geofence) => {
+    try {
+      const updated = await updateGeofence(geofence);
+      setGeofences(prev => prev.map(fence => fence.id === updated.id ? updated : fence));
+      setError(null);
+    } catch {
+      setError('Failed to update geofence');
+    }
+  }, []);
+  
+  const removeGeofence = useCallback(async (id: string) => {
+    try {
+      await deleteGeofence(id);
+      setGeofences(prev => prev.filter(fence => fence.id !== id));
+      setError(null);
+    } catch {
+      setError('Failed to delete geofence');
+    }
+  }, []);
+  
+  return {
+    geofences,
+    geofenceError: error,
+    addGeofence,
+    editGeofence,
+    removeGeofence
+  };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Mission, MissionDraft, createMission, deleteMission, fetchMissions, updateMission } from '../lib/api';
+
+// Missions saved to the server's library, most recently updated first
+export const useMissions = () => {
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Load the library once on mount
+  useEffect(() => {
+    fetchMissions()
+      .then(setMissions)
+      .catch(() => setError('Failed to load missions'));
+  }, []);
+  
+  const saveMission = useCallback(async (mission: MissionDraft): Promise<Mission | null> => {
+    try {
+      const created = await createMission(mission);
+      setMissions(prev => [created, ...prev]);
+      setError(null);
+      return created;
+    } catch {
+      setError('Failed to save mission');
+      return null;
+    }
+  }, []);
+  
+  const overwriteMission = useCallback(async (id: string, mission: MissionDraft) => {
+    try {
+      const updated = await updateMission(id, mission);
+      setMissions(prev => [updated, ...prev.filter(saved => saved.id !== id)]);
+      setError(null);
+    } catch {
+      setError('Failed to update mission');
+    }
+  }, []);
+  
+  const duplicateMission = useCallback((mission: Mission) => saveMission({
+    name: `${mission.name} (copy)`,
+    description: mission.description,
+    waypoints: mission.waypoints,
+    tags: mission.tags
+  }), [saveMission]);
+  
+  const removeMission = useCallback(async (id: string) => {
+    try {
+      await deleteMission(id);
+      setMissions(prev => prev.filter(mission => mission.id !== id));
+      setError(null);
+    } catch {
+      setError('Failed to delete mission');
+    }
+  }, []);
+  
+  return {
+    missions,
+    missionError: error,
+    saveMission,
+    overwriteMission,
+    duplicateMission,
+    removeMission
+  };
+};
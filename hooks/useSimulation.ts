@@ -1,114 +1,433 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Coordinate, SimulationOptions, simulationSocket } from '../lib/api';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AltitudeReference, BatteryLevel, Coordinate, ExportFormat, Failure, FailureType, FlightMode, GeofenceAction, GeofenceKind, GpsSettings, GpsStatus, MissionAction, MissionItemCompletedMessage, MissionItemStartedMessage, MissionUpdate, PositionUpdateMessage, RecordingMetadata, RoomRole, RouteMode, ScheduledFailure, SeekTarget, SeparationMessage, SeparationStatus, SimulationOptions, SimulationSnapshot, VehicleType, WindSettings, exportRoute, recordingExportUrl, simulationSocket } from '../lib/api';
 
-// Define the base WebSocketMessage type and specific message subtypes
-interface WebSocketMessage {
-  type: string;
-}
-
-interface PositionUpdateMessage extends WebSocketMessage {
-  type: 'POSITION_UPDATE';
-  position: Coordinate;
+interface SimulationState {
+  isRunning: boolean;
+  isPaused: boolean;
+  currentPosition: Coordinate | null;
+  estimatedPosition: Coordinate | null;
+  gpsStatus: GpsStatus | null;
+  trueTrack: Coordinate[]; // positions flown, most recent last
+  estimatedTrack: Coordinate[]; // positions reported by the GPS
   progress: number;
   currentWaypoint: number;
-  isComplete: boolean;
+  distanceFlown: number;
+  distanceRemaining: number;
+  groundSpeed: number;
+  airspeed: number;
+  windSpeed: number;
+  windDirection: number;
+  altitude: number;
+  verticalSpeed: number;
+  heading: number;
+  flightMode: FlightMode;
+  lap: number;
+  batteryLevel: number;
+  estimatedEndurance: number | null;
+  batteryWarning: BatteryLevel | null;
+  speed: number;
+  simTime: number;
+  timeScale: number;
+  missionItem: { waypointIndex: number; action: MissionAction } | null;
+  goTo: Coordinate | null; // go-to point the drone has left its mission for
+  geofenceBreach: { name: string; kind: GeofenceKind; action: GeofenceAction } | null;
+  separationAlerts: SeparationAlert[];
+  activeFailures: FailureType[];
+  failureLog: FailureLogEntry[]; // failure events of the flight, oldest first
+  recordingId: string | null; // the server's recording of the flight
 }
 
-interface SimulationStartedMessage extends WebSocketMessage {
-  type: 'SIMULATION_STARTED';
-  initialPosition: Coordinate;
+export interface FailureLogEntry {
+  time: number;
+  failure: FailureType;
+  phase: 'INJECTED' | 'FAILSAFE' | 'RECOVERED';
+  flightMode: FlightMode;
 }
 
-interface ErrorMessage extends WebSocketMessage {
-  type: 'ERROR';
-  message: string;
+// A drone that is, or is predicted to be, too close to this one
+export interface SeparationAlert {
+  intruderId: string;
+  status: SeparationStatus;
+  horizontalDistance: number;
+  verticalDistance: number;
+  timeToConflict: number | null;
 }
 
-// Type guard functions to check message types
-function isPositionUpdate(message: WebSocketMessage): message is PositionUpdateMessage {
-  return message.type === 'POSITION_UPDATE';
+// The room the client has joined and who else is in it
+export interface RoomMembership {
+  name: string;
+  role: RoomRole;
+  hasOperator: boolean;
+  observers: number;
 }
 
-function isSimulationStarted(message: WebSocketMessage): message is SimulationStartedMessage {
-  return message.type === 'SIMULATION_STARTED';
+// A drone in the client's fleet, with its mission as edited in flight
+export interface FleetDrone extends SimulationState {
+  droneId: string;
+  waypoints: Coordinate[];
+  routeMode: RouteMode;
+  color: string;
 }
 
-function isError(message: WebSocketMessage): message is ErrorMessage {
-  return message.type === 'ERROR';
-}
+// Most positions kept in each drone's flown tracks
+const MAX_TRACK_POINTS = 2000;
 
-interface SimulationState {
-  isRunning: boolean;
-  isPaused: boolean;
-  currentPosition: Coordinate | null;
-  progress: number;
-  currentWaypoint: number;
-  speed: number;
-}
+// Default cruise speed in metres per second
+const DEFAULT_SPEED = 10;
+
+const DEFAULT_DRONE_ID = 'drone-1';
+
+// Colours given to drones in launch order
+const DRONE_COLORS = ['#EF4444', '#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316'];
+
+const INITIAL_SIMULATION_STATE: SimulationState = {
+  isRunning: false,
+  isPaused: false,
+  currentPosition: null,
+  estimatedPosition: null,
+  gpsStatus: null,
+  trueTrack: [],
+  estimatedTrack: [],
+  progress: 0,
+  currentWaypoint: 0,
+  distanceFlown: 0,
+  distanceRemaining: 0,
+  groundSpeed: 0,
+  airspeed: 0,
+  windSpeed: 0,
+  windDirection: 0,
+  altitude: 0,
+  verticalSpeed: 0,
+  heading: 0,
+  flightMode: 'MISSION',
+  lap: 1,
+  batteryLevel: 1,
+  estimatedEndurance: null,
+  batteryWarning: null,
+  speed: DEFAULT_SPEED,
+  simTime: 0,
+  timeScale: 1,
+  missionItem: null,
+  goTo: null,
+  geofenceBreach: null,
+  separationAlerts: [],
+  activeFailures: [],
+  failureLog: [],
+  recordingId: null
+};
+
+// State to show for a drone's latest telemetry, adding its positions to the
+// tracks flown
+const telemetryUpdate = (prev: SimulationState, data: PositionUpdateMessage): Partial<SimulationState> => ({
+  simTime: data.time,
+  currentPosition: data.position,
+  estimatedPosition: data.estimatedPosition,
+  gpsStatus: data.gps,
+  trueTrack: [...prev.trueTrack, data.position].slice(-MAX_TRACK_POINTS),
+  estimatedTrack: data.gps.fix
+    ? [...prev.estimatedTrack, data.estimatedPosition].slice(-MAX_TRACK_POINTS)
+    : prev.estimatedTrack,
+  progress: data.progress,
+  currentWaypoint: data.currentWaypoint,
+  distanceFlown: data.distanceFlown,
+  distanceRemaining: data.distanceRemaining,
+  groundSpeed: data.groundSpeed,
+  airspeed: data.airspeed,
+  windSpeed: data.windSpeed,
+  windDirection: data.windDirection,
+  altitude: data.altitude,
+  verticalSpeed: data.verticalSpeed,
+  heading: data.heading,
+  flightMode: data.flightMode,
+  lap: data.lap,
+  activeFailures: data.activeFailures,
+  batteryLevel: data.batteryLevel,
+  estimatedEndurance: data.estimatedEndurance,
+  isRunning: !data.isComplete
+});
+
+// The fleet as the server has it, keeping the tracks and colours of drones
+// already shown. Drones missing from the snapshots have been stopped.
+const fleetFromSnapshots = (prev: Record<string, FleetDrone>, drones: SimulationSnapshot[]): Record<string, FleetDrone> =>
+  Object.fromEntries(drones.map((drone, index) => {
+    const existing: FleetDrone = prev[drone.droneId] ?? {
+      ...INITIAL_SIMULATION_STATE,
+      droneId: drone.droneId,
+      waypoints: [],
+      routeMode: drone.routeMode,
+      color: DRONE_COLORS[index % DRONE_COLORS.length]
+    };
+    return [drone.droneId, {
+      ...existing,
+      ...telemetryUpdate(existing, drone.telemetry),
+      waypoints: drone.waypoints,
+      routeMode: drone.routeMode,
+      timeScale: drone.timeScale,
+      isPaused: drone.isPaused,
+      speed: drone.speed,
+      missionItem: drone.missionItem,
+      goTo: drone.goTo,
+      recordingId: drone.recordingId,
+      batteryWarning: drone.batteryLevel === 'OK' ? null : drone.batteryLevel,
+      separationAlerts: drone.separationAlerts.map(alert => ({
+        intruderId: alert.intruderId,
+        status: alert.status,
+        horizontalDistance: alert.horizontalDistance,
+        verticalDistance: alert.verticalDistance,
+        timeToConflict: alert.timeToConflict
+      }))
+    }];
+  }));
+
+// Save a file from a URL through the browser's downloads
+const downloadFile = (url: string, filename = '') => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+};
 
 export const useSimulation = (initialWaypoints: Coordinate[] = []) => {
   const [waypoints, setWaypoints] = useState<Coordinate[]>(initialWaypoints);
-  const [simulationState, setSimulationState] = useState<SimulationState>({
-    isRunning: false,
-    isPaused: false,
-    currentPosition: null,
-    progress: 0,
-    currentWaypoint: 0,
-    speed: 1
-  });
+  const [vehicleType, setVehicleType] = useState<VehicleType>('quadcopter');
+  const [altitudeReference, setAltitudeReference] = useState<AltitudeReference>('AGL');
+  const [wind, setWind] = useState<WindSettings>({ mode: 'none' });
+  const [gps, setGps] = useState<GpsSettings>({});
+  const [scheduledFailures, setScheduledFailures] = useState<ScheduledFailure[]>([]);
+  const [routeMode, setRouteMode] = useState<RouteMode>('once');
+  const [laps, setLaps] = useState<number | undefined>(undefined);
+  const [droneId, setDroneId] = useState<string>(DEFAULT_DRONE_ID);
+  const [plannedSpeed, setPlannedSpeed] = useState<number>(DEFAULT_SPEED);
+  const [plannedTimeScale, setPlannedTimeScale] = useState<number>(1);
+  const [fleet, setFleet] = useState<Record<string, FleetDrone>>({});
+  // Latest error reported by the server, such as a rejected mission update
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [room, setRoom] = useState<RoomMembership | null>(null);
+  // Drones showing recorded flights, which can only be watched and stopped
+  const [replayIds, setReplayIds] = useState<string[]>([]);
+  
+  // State of the selected drone, or of the drone being planned
+  const simulationState = useMemo<SimulationState>(
+    () => fleet[droneId] ?? { ...INITIAL_SIMULATION_STATE, speed: plannedSpeed, timeScale: plannedTimeScale },
+    [fleet, droneId, plannedSpeed, plannedTimeScale]
+  );
+  
+  // Apply an update to one drone in the fleet. Updates for drones that are
+  // not in the fleet (e.g. late messages after a stop) are dropped unless
+  // create is set.
+  const updateDrone = useCallback((id: string, update: (prev: FleetDrone) => Partial<FleetDrone>, create = false) => {
+    setFleet(prev => {
+      if (!prev[id] && !create) return prev;
+      const existing = prev[id] ?? {
+        ...INITIAL_SIMULATION_STATE,
+        droneId: id,
+        waypoints: [],
+        routeMode: 'once' as RouteMode,
+        color: DRONE_COLORS[Object.keys(prev).length % DRONE_COLORS.length]
+      };
+      return { ...prev, [id]: { ...existing, ...update(existing) } };
+    });
+  }, []);
   
   // Initialize WebSocket event listeners
   useEffect(() => {
     // Listen for position updates
-    const removePositionListener = simulationSocket.on('POSITION_UPDATE', (data: WebSocketMessage) => {
-      if (isPositionUpdate(data)) {
-        setSimulationState(prev => ({
-          ...prev,
-          currentPosition: data.position,
-          progress: data.progress,
-          currentWaypoint: data.currentWaypoint,
-          isRunning: !data.isComplete,
-          isPaused: false
-        }));
-      }
+    const removePositionListener = simulationSocket.on('POSITION_UPDATE', data => {
+      updateDrone(data.droneId, prev => telemetryUpdate(prev, data));
     });
     
     // Listen for simulation started event
-    const removeStartListener = simulationSocket.on('SIMULATION_STARTED', (data: WebSocketMessage) => {
-      if (isSimulationStarted(data)) {
-        setSimulationState(prev => ({
-          ...prev,
-          isRunning: true,
-          isPaused: false,
-          currentPosition: data.initialPosition,
-          progress: 0,
-          currentWaypoint: 0
-        }));
+    const removeStartListener = simulationSocket.on('SIMULATION_STARTED', data => {
+      updateDrone(data.droneId, prev => ({
+        ...INITIAL_SIMULATION_STATE,
+        speed: prev.speed,
+        timeScale: data.timeScale,
+        waypoints: data.waypoints,
+        routeMode: data.routeMode,
+        isRunning: true,
+        isPaused: false,
+        currentPosition: data.initialPosition,
+        progress: 0,
+        currentWaypoint: 0,
+        distanceFlown: 0,
+        distanceRemaining: 0,
+        groundSpeed: 0,
+        airspeed: 0,
+        altitude: data.initialPosition.alt ?? 0,
+        verticalSpeed: 0,
+        flightMode: 'MISSION',
+        batteryLevel: 1,
+        estimatedEndurance: null,
+        batteryWarning: null,
+        recordingId: data.recordingId ?? null
+      }), true);
+    });
+    
+    // Listen for battery threshold warnings
+    const removeBatteryListener = simulationSocket.on('BATTERY_WARNING', data => {
+      updateDrone(data.droneId, prev => ({
+        batteryLevel: data.stateOfCharge,
+        batteryWarning: data.level,
+        flightMode: data.action || prev.flightMode
+      }));
+    });
+    
+    // Track the mission action each drone is carrying out
+    const handleMissionItem = (data: MissionItemStartedMessage | MissionItemCompletedMessage) => {
+      updateDrone(data.droneId, () => ({
+        missionItem: data.type === 'MISSION_ITEM_STARTED'
+          ? { waypointIndex: data.waypointIndex, action: data.action }
+          : null
+      }));
+    };
+    const removeItemStartedListener = simulationSocket.on('MISSION_ITEM_STARTED', handleMissionItem);
+    const removeItemCompletedListener = simulationSocket.on('MISSION_ITEM_COMPLETED', handleMissionItem);
+    
+    // Keep the latest geofence breach of each drone to show until resumed
+    const removeGeofenceListener = simulationSocket.on('GEOFENCE_BREACH', data => {
+      updateDrone(data.droneId, () => ({
+        geofenceBreach: { name: data.name, kind: data.kind, action: data.action },
+        flightMode: data.flightMode
+      }));
+    });
+    
+    // Track conflicts with other drones, including other clients' drones
+    const handleSeparation = (data: SeparationMessage) => {
+      updateDrone(data.droneId, prev => {
+        const others = prev.separationAlerts.filter(alert => alert.intruderId !== data.intruderId);
+        return {
+          separationAlerts: data.status === 'CLEAR' ? others : [...others, {
+            intruderId: data.intruderId,
+            status: data.status,
+            horizontalDistance: data.horizontalDistance,
+            verticalDistance: data.verticalDistance,
+            timeToConflict: data.timeToConflict
+          }]
+        };
+      });
+    };
+    const removeConflictListener = simulationSocket.on('CONFLICT_ALERT', handleSeparation);
+    const removeLossListener = simulationSocket.on('LOSS_OF_SEPARATION', handleSeparation);
+    const removeRestoredListener = simulationSocket.on('SEPARATION_RESTORED', handleSeparation);
+    
+    // Log failures and the drone's response to them
+    const removeFailureListener = simulationSocket.on('FAILURE_EVENT', data => {
+      updateDrone(data.droneId, prev => ({
+        flightMode: data.flightMode,
+        failureLog: [...prev.failureLog, {
+          time: data.time,
+          failure: data.failure,
+          phase: data.phase,
+          flightMode: data.flightMode
+        }]
+      }));
+    });
+    
+    // Listen for seeks; the telemetry at the new point follows separately
+    const removeSeekListener = simulationSocket.on('SIMULATION_SEEKED', data => {
+      updateDrone(data.droneId, prev => ({
+        simTime: data.time,
+        // Draw the tracks again from the new point; failures after it
+        // have not happened yet
+        trueTrack: [],
+        estimatedTrack: [],
+        failureLog: prev.failureLog.filter(entry => entry.time <= data.time),
+        missionItem: data.missionItem,
+        geofenceBreach: null,
+        batteryWarning: data.batteryLevel === 'OK' ? null : data.batteryLevel
+      }));
+    });
+    
+    // Follow changes to each drone's mission made in flight
+    const removeMissionListener = simulationSocket.on('MISSION_UPDATED', data => {
+      updateDrone(data.droneId, () => ({
+        waypoints: data.waypoints,
+        currentWaypoint: data.currentWaypoint,
+        flightMode: data.flightMode,
+        goTo: data.goTo
+      }));
+    });
+    
+    // Take the fleet back after a reconnect, along with the room
+    const removeResumedListener = simulationSocket.on('SESSION_RESUMED', data => {
+      setFleet(prev => fleetFromSnapshots(prev, data.drones));
+      setRoom(data.room && {
+        name: data.room.room,
+        role: data.room.role,
+        hasOperator: data.room.hasOperator,
+        observers: data.room.observers
+      });
+    });
+    
+    // A session that expired while the client was away has lost its drones
+    const removeExpiredListener = simulationSocket.on('SESSION_EXPIRED', () => {
+      setFleet({});
+      setRoom(null);
+      setSimulationError('The connection was lost for too long and the simulations were stopped');
+    });
+    
+    // Show the room's drones on joining it, and again when an observed room
+    // gets a new operator or loses its operator
+    const removeRoomJoinedListener = simulationSocket.on('ROOM_JOINED', data => {
+      setFleet(prev => fleetFromSnapshots(prev, data.drones));
+      setRoom({ name: data.room, role: data.role, hasOperator: data.hasOperator, observers: data.observers });
+      if (data.drones.length > 0) {
+        setDroneId(prev => data.drones.some(drone => drone.droneId === prev) ? prev : data.drones[0].droneId);
       }
     });
     
+    const removeRoomUpdatedListener = simulationSocket.on('ROOM_UPDATED', data => {
+      setRoom(prev => prev && { ...prev, hasOperator: data.hasOperator, observers: data.observers });
+    });
+    
+    const removeRoomLeftListener = simulationSocket.on('ROOM_LEFT', data => {
+      setRoom(null);
+      if (data.role === 'observer') setFleet({});
+    });
+    
+    // Drones stopped by the room's operator, or by the server
+    const removeStoppedListener = simulationSocket.on('SIMULATION_STOPPED', data => {
+      setFleet(prev => {
+        const remaining = { ...prev };
+        delete remaining[data.droneId];
+        return remaining;
+      });
+    });
+    
     // Listen for errors
-    const removeErrorListener = simulationSocket.on('ERROR', (data: WebSocketMessage) => {
-      if (isError(data)) {
-        console.error('Simulation error:', data.message);
-        // You might want to handle this in the UI
-      }
+    const removeErrorListener = simulationSocket.on('ERROR', data => {
+      console.error('Simulation error:', data.message);
+      setSimulationError(data.message);
     });
     
     // Cleanup listeners on unmount
     return () => {
       removePositionListener();
       removeStartListener();
+      removeBatteryListener();
+      removeSeekListener();
+      removeItemStartedListener();
+      removeItemCompletedListener();
+      removeGeofenceListener();
+      removeConflictListener();
+      removeLossListener();
+      removeRestoredListener();
+      removeFailureListener();
+      removeMissionListener();
+      removeResumedListener();
+      removeExpiredListener();
+      removeRoomJoinedListener();
+      removeRoomUpdatedListener();
+      removeRoomLeftListener();
+      removeStoppedListener();
       removeErrorListener();
       
-      // Stop any running simulation when component unmounts
-      if (simulationState.isRunning) {
-        simulationSocket.stopSimulation();
-      }
+      // Stop the whole fleet when the component unmounts
+      simulationSocket.stopSimulation();
     };
-  }, [simulationState.isRunning]); // Added missing dependency
+  }, [updateDrone]);
   
-  // Start simulation
+  // Start simulation for the selected drone
   const startSimulation = useCallback((options?: Partial<SimulationOptions>) => {
     if (waypoints.length < 2) {
       console.error('At least two waypoints are required to start a simulation');
@@ -116,40 +435,129 @@ export const useSimulation = (initialWaypoints: Coordinate[] = []) => {
     }
     
     simulationSocket.startSimulation({
+      droneId,
       waypoints,
-      speed: options?.speed || simulationState.speed
+      speed: options?.speed || simulationState.speed,
+      altitudeReference: options?.altitudeReference || altitudeReference,
+      vehicleType: options?.vehicleType || vehicleType,
+      wind: options?.wind || wind,
+      gps: options?.gps || gps,
+      failures: options?.failures || scheduledFailures,
+      routeMode: options?.routeMode || routeMode,
+      laps: options?.laps ?? laps,
+      seed: options?.seed,
+      timeScale: options?.timeScale || simulationState.timeScale
     });
-  }, [waypoints, simulationState.speed]);
+    updateDrone(droneId, () => ({ speed: options?.speed || simulationState.speed }), true);
+  }, [droneId, waypoints, simulationState.speed, simulationState.timeScale, altitudeReference, vehicleType, wind, gps, scheduledFailures, routeMode, laps, updateDrone]);
   
-  // Pause simulation
+  // Pause simulation of the selected drone
   const pauseSimulation = useCallback(() => {
-    simulationSocket.pauseSimulation();
-    setSimulationState(prev => ({ ...prev, isPaused: true }));
-  }, []);
+    simulationSocket.pauseSimulation(droneId);
+    updateDrone(droneId, () => ({ isPaused: true }));
+  }, [droneId, updateDrone]);
   
-  // Resume simulation
+  // Resume simulation of the selected drone
   const resumeSimulation = useCallback(() => {
-    simulationSocket.resumeSimulation();
-    setSimulationState(prev => ({ ...prev, isPaused: false }));
-  }, []);
+    simulationSocket.resumeSimulation(droneId);
+    updateDrone(droneId, () => ({ isPaused: false, geofenceBreach: null }));
+  }, [droneId, updateDrone]);
   
-  // Stop simulation
+  // Stop simulation of the selected drone and remove it from the fleet
   const stopSimulation = useCallback(() => {
-    simulationSocket.stopSimulation();
-    setSimulationState({
-      isRunning: false,
-      isPaused: false,
-      currentPosition: null,
-      progress: 0,
-      currentWaypoint: 0,
-      speed: simulationState.speed
+    simulationSocket.stopSimulation(droneId);
+    setFleet(prev => {
+      const remaining = { ...prev };
+      delete remaining[droneId];
+      return remaining;
     });
-  }, [simulationState.speed]);
+    setReplayIds(prev => prev.filter(id => id !== droneId));
+  }, [droneId]);
+  
+  // Stop every drone in the fleet
+  const stopAllSimulations = useCallback(() => {
+    simulationSocket.stopSimulation();
+    setFleet({});
+    setReplayIds([]);
+  }, []);
+  
+  // Replay a recorded flight as a drone of its own, and select it
+  const replayRecording = useCallback((recording: RecordingMetadata) => {
+    const id = `replay-${recording.id.slice(0, 8)}`;
+    setSimulationError(null);
+    setReplayIds(prev => prev.includes(id) ? prev : [...prev, id]);
+    setDroneId(id);
+    simulationSocket.replayRecording(recording.id, id);
+  }, []);
+  
+  // Export the selected drone's flight as recorded by the server, or the
+  // planned route if it has not flown
+  const exportFlight = useCallback((format: ExportFormat) => {
+    const recordingId = fleet[droneId]?.recordingId;
+    if (recordingId) {
+      downloadFile(recordingExportUrl(recordingId, format));
+      return;
+    }
+
+    exportRoute(waypoints, format, altitudeReference)
+      .then(blob => {
+        const url = URL.createObjectURL(blob);
+        downloadFile(url, `route.${format}`);
+        URL.revokeObjectURL(url);
+      })
+      .catch(() => setSimulationError('Failed to export the route'));
+  }, [fleet, droneId, waypoints, altitudeReference]);
   
-  // Update simulation speed
+  // Update simulation speed of the selected drone
   const updateSpeed = useCallback((speed: number) => {
-    simulationSocket.updateSpeed(speed);
-    setSimulationState(prev => ({ ...prev, speed }));
+    setPlannedSpeed(speed);
+    if (fleet[droneId]?.isRunning) {
+      simulationSocket.updateSpeed(speed, droneId);
+      updateDrone(droneId, () => ({ speed }));
+    }
+  }, [fleet, droneId, updateDrone]);
+  
+  // Move the selected drone to another point in its flight
+  const seekSimulation = useCallback((target: SeekTarget) => {
+    if (fleet[droneId]) {
+      simulationSocket.seekSimulation(target, droneId);
+    }
+  }, [fleet, droneId]);
+  
+  // Inject a failure into the selected drone now
+  const injectFailure = useCallback((failure: Failure) => {
+    if (fleet[droneId]?.isRunning) {
+      simulationSocket.injectFailure(failure, droneId);
+    }
+  }, [fleet, droneId]);
+  
+  // Change the mission of the selected drone in flight; the server replies
+  // with the mission as it now stands, or an error
+  const updateMission = useCallback((update: MissionUpdate) => {
+    if (fleet[droneId]?.isRunning) {
+      setSimulationError(null);
+      simulationSocket.updateMission(update, droneId);
+    }
+  }, [fleet, droneId]);
+  
+  // Change how fast simulated time runs for the selected drone
+  const updateTimeScale = useCallback((timeScale: number) => {
+    setPlannedTimeScale(timeScale);
+    if (fleet[droneId]?.isRunning) {
+      simulationSocket.setTimeScale(timeScale, droneId);
+      updateDrone(droneId, () => ({ timeScale }));
+    }
+  }, [fleet, droneId, updateDrone]);
+  
+  // Join a room to share the fleet as its operator, or to watch the
+  // operator's fleet read-only
+  const joinRoom = useCallback((name: string, role: RoomRole) => {
+    setSimulationError(null);
+    simulationSocket.joinRoom(name, role);
+  }, []);
+  
+  const leaveRoom = useCallback(() => {
+    simulationSocket.leaveRoom();
   }, []);
   
   // Add a waypoint
@@ -185,16 +593,71 @@ export const useSimulation = (initialWaypoints: Coordinate[] = []) => {
     resumeSimulation,
     stopSimulation,
     updateSpeed,
+    updateTimeScale,
+    seekSimulation,
+    injectFailure,
+    updateMission,
+    simulationError,
     addWaypoint,
     removeWaypoint,
     updateWaypoint,
     clearWaypoints,
     setAllWaypoints,
+    vehicleType,
+    setVehicleType,
+    altitudeReference,
+    setAltitudeReference,
+    wind,
+    setWind,
+    gps,
+    setGps,
+    scheduledFailures,
+    setScheduledFailures,
+    routeMode,
+    setRouteMode,
+    laps,
+    setLaps,
+    droneId,
+    setDroneId,
+    fleet,
+    stopAllSimulations,
+    room,
+    isObserver: room?.role === 'observer',
+    joinRoom,
+    leaveRoom,
+    isReplay: replayIds.includes(droneId),
+    replayRecording,
+    exportFlight,
     isActive: simulationState.isRunning,
     isPaused: simulationState.isPaused,
     currentPosition: simulationState.currentPosition,
+    estimatedPosition: simulationState.estimatedPosition,
+    gpsStatus: simulationState.gpsStatus,
+    recordingId: simulationState.recordingId,
     progress: simulationState.progress,
     currentWaypoint: simulationState.currentWaypoint,
-    speed: simulationState.speed
+    distanceFlown: simulationState.distanceFlown,
+    distanceRemaining: simulationState.distanceRemaining,
+    groundSpeed: simulationState.groundSpeed,
+    airspeed: simulationState.airspeed,
+    windSpeed: simulationState.windSpeed,
+    windDirection: simulationState.windDirection,
+    altitude: simulationState.altitude,
+    verticalSpeed: simulationState.verticalSpeed,
+    heading: simulationState.heading,
+    flightMode: simulationState.flightMode,
+    lap: simulationState.lap,
+    batteryLevel: simulationState.batteryLevel,
+    estimatedEndurance: simulationState.estimatedEndurance,
+    batteryWarning: simulationState.batteryWarning,
+    speed: simulationState.speed,
+    simTime: simulationState.simTime,
+    timeScale: simulationState.timeScale,
+    missionItem: simulationState.missionItem,
+    goTo: simulationState.goTo,
+    geofenceBreach: simulationState.geofenceBreach,
+    separationAlerts: simulationState.separationAlerts,
+    activeFailures: simulationState.activeFailures,
+    failureLog: simulationState.failureLog
   };
 };
\ No newline at end of file
@@ -1,5 +1,13 @@
 // src/lib/api.ts
 import axios from "axios";
+import {
+  ClientMessage,
+  PROTOCOL_VERSION,
+  RoomRole,
+  ServerMessage,
+  decodeServerMessage,
+  encodeClientMessage,
+} from "../server/src/protocol";
 
 const API_BASE_URL = "http://localhost:3001/api";
 const WS_URL = "ws://localhost:8085";
@@ -8,50 +16,172 @@ const WS_URL = "ws://localhost:8085";
 export interface Coordinate {
   lat: number;
   lng: number;
+  alt?: number; // metres, relative to the mission's altitude reference
+  actions?: MissionAction[]; // carried out in order on reaching the waypoint
   timestamp?: number;
 }
 
+export type MissionAction =
+  | { type: "HOVER"; duration: number } // seconds
+  | { type: "LOITER"; turns: number; radius: number } // radius in metres
+  | { type: "CHANGE_SPEED"; speed: number } // metres per second
+  | { type: "CAMERA" }
+  | { type: "DROP_PAYLOAD"; massKg?: number } // drops all payload when omitted
+  | { type: "LAND" };
+
+export type MissionActionType = MissionAction["type"];
+
+export type AltitudeReference = "AGL" | "AMSL";
+
 export interface GeocodeResult {
   name: string;
   lat: number;
   lng: number;
 }
 
-export interface SimulationOptions {
-  waypoints: Coordinate[];
-  speed: number;
+export type VehicleType = "quadcopter" | "fixed-wing";
+
+// GUIDED is a flight to a go-to point outside of the mission
+export type FlightMode = "MISSION" | "RTL" | "LAND" | "HOLD" | "GUIDED";
+
+export type RouteMode = "once" | "loop" | "ping-pong";
+
+export type GeofenceKind = "inclusion" | "exclusion";
+
+// what the drone does when it breaches a fence
+export type GeofenceAction = "warn" | "hold" | "rtl";
+
+export type GeofenceShape =
+  | { type: "polygon"; points: Coordinate[] }
+  | { type: "circle"; center: Coordinate; radius: number }; // radius in metres
+
+export interface Geofence {
+  id: string;
+  name: string;
+  kind: GeofenceKind;
+  shape: GeofenceShape;
+  floor?: number; // metres, lowest altitude the fence applies to
+  ceiling?: number; // metres, highest altitude the fence applies to
+  action: GeofenceAction;
+}
+
+export type BatteryLevel = "OK" | "LOW" | "CRITICAL" | "DEPLETED";
+
+export type WindMode = "none" | "constant" | "gusting" | "layered";
+
+export interface WindLayer {
+  altitude: number; // metres
+  speed: number; // metres per second
+  direction: number; // degrees the wind blows from
+}
+
+export interface WindSettings {
+  mode: WindMode;
+  speed?: number; // mean wind speed in metres per second
+  direction?: number; // degrees the mean wind blows from
+  gustSpeed?: number; // strongest gust on top of the mean wind
+  gustInterval?: number; // average seconds between gusts
+  gustDirectionVariance?: number; // degrees either side of the mean direction
+  layers?: WindLayer[];
+}
+
+// simulated GPS receiver; the true position is always reported alongside
+export interface GpsSettings {
+  hdop?: number; // horizontal dilution of precision
+  satellites?: number; // satellites in view, fewer than four gives no fix
+  biasDrift?: number; // metres, typical size of the slowly wandering bias
+  updateRate?: number; // fixes per second
+  dropoutRate?: number; // average dropouts per minute
+  dropoutDuration?: number; // average seconds a dropout lasts
 }
 
-// Define message types
-export interface SimulationMessage {
-  type: string;
-  [key: string]: unknown;
+export type FailureType = "LINK_LOSS" | "GPS_LOSS" | "MOTOR_FAILURE" | "BATTERY_CELL_FAULT";
+
+export interface Failure {
+  type: FailureType;
+  duration?: number; // seconds until a link or GPS loss recovers, permanent when omitted
+  capacityLoss?: number; // fraction of the remaining charge a battery cell fault takes
 }
 
-export interface PositionUpdateMessage {
-  type: "POSITION_UPDATE";
-  position: Coordinate;
-  progress: number;
-  currentWaypoint: number;
-  isComplete: boolean;
+// a failure injected automatically at a point in the flight
+export type ScheduledFailure = Failure & { time: number }; // seconds of simulated time
+
+export interface SimulationOptions {
+  droneId?: string;
+  waypoints: Coordinate[];
+  speed: number; // metres per second
+  altitudeReference?: AltitudeReference;
+  vehicleType?: VehicleType;
+  payloadKg?: number;
+  wind?: WindSettings;
+  gps?: GpsSettings;
+  failures?: ScheduledFailure[];
+  failsafeTimeout?: number; // seconds without a link before returning to launch
+  routeMode?: RouteMode;
+  laps?: number; // laps of a loop or ping-pong route, repeats forever when omitted
+  seed?: number; // makes gusts and other random effects repeatable
+  timeScale?: number; // simulated seconds per real second, 0.1 to 100
 }
 
-export interface SimulationStartedMessage {
-  type: "SIMULATION_STARTED";
-  initialPosition: Coordinate;
+// change to the mission of a drone in flight; indices are positions in the
+// mission's waypoints, and only waypoints not yet reached can change
+export type MissionUpdate =
+  | { operation: "INSERT"; index: number; waypoint: Coordinate }
+  | { operation: "MOVE"; index: number; waypoint: Coordinate }
+  | { operation: "DELETE"; index: number }
+  | { operation: "GOTO"; waypoint: Coordinate } // hold at a point off the mission
+  | { operation: "RESUME" }; // back to the mission after a go-to
+
+export type SeparationStatus = "CLEAR" | "CONFLICT" | "LOSS";
+
+// a room listed by the server, with the drones its operator is flying
+export interface RoomSummary {
+  name: string;
+  hasOperator: boolean;
+  observers: number;
+  drones: {
+    droneId: string;
+    flightMode: FlightMode;
+    simTime: number;
+    isPaused: boolean;
+    isComplete: boolean;
+  }[];
 }
 
-export interface ErrorMessage {
-  type: "ERROR";
-  message: string;
+// a simulation recorded by the server, for review and replay
+export interface RecordingMetadata {
+  id: string;
+  droneId: string;
+  startedAt: string; // ISO time the simulation started
+  endedAt: string | null; // null while recording, or if the server stopped first
+  duration: number; // seconds of simulated time recorded
+  frameCount: number;
+  commandCount: number;
+  config: { waypoints: Coordinate[]; [key: string]: unknown }; // mission and setup it started with
 }
 
-// Union type of all possible message types
-export type WebSocketMessage =
-  | PositionUpdateMessage
-  | SimulationStartedMessage
-  | ErrorMessage
-  | { type: string; [key: string]: unknown };
+// Point in a flight to seek to: simulated seconds, fraction of the route,
+// or the moment a waypoint is reached
+export type SeekTarget =
+  | { time: number }
+  | { progress: number }
+  | { waypointIndex: number };
+
+// Messages to and from the server are defined by the protocol module the
+// server itself uses, so the two cannot drift apart
+export type {
+  ClientMessage,
+  ErrorCode,
+  GpsStatus,
+  MissionItemCompletedMessage,
+  MissionItemStartedMessage,
+  RoomRole,
+  RoomStatus,
+  SeparationMessage,
+  ServerMessage,
+  SimulationSnapshot,
+  TelemetryFrame as PositionUpdateMessage,
+} from "../server/src/protocol";
 
 // API functions
 export const uploadCoordinateFile = async (
@@ -96,17 +226,228 @@ export const searchLocations = async (
   }
 };
 
+export const fetchRooms = async (): Promise<RoomSummary[]> => {
+  try {
+    const response = await axios.get<{ rooms: RoomSummary[] }>(
+      `${API_BASE_URL}/rooms`
+    );
+
+    return response.data.rooms;
+  } catch (error) {
+    console.error("Error fetching rooms:", error);
+    throw error;
+  }
+};
+
+export const fetchRecordings = async (): Promise<RecordingMetadata[]> => {
+  try {
+    const response = await axios.get<{ recordings: RecordingMetadata[] }>(
+      `${API_BASE_URL}/recordings`
+    );
+
+    return response.data.recordings;
+  } catch (error) {
+    console.error("Error fetching recordings:", error);
+    throw error;
+  }
+};
+
+// a recording's metadata and log as JSON lines, for bug reports
+export const recordingDownloadUrl = (id: string): string =>
+  `${API_BASE_URL}/recordings/${encodeURIComponent(id)}/download`;
+
+// formats flights can be exported in for other mapping and analysis tools
+export type ExportFormat = "gpx" | "kml" | "geojson" | "csv";
+
+// a recording's planned route and flown track in the given format
+export const recordingExportUrl = (id: string, format: ExportFormat): string =>
+  `${API_BASE_URL}/recordings/${encodeURIComponent(id)}/export?format=${format}`;
+
+// a planned route that has not been flown, as a file in the given format
+export const exportRoute = async (
+  waypoints: Coordinate[],
+  format: ExportFormat,
+  altitudeReference: AltitudeReference
+): Promise<Blob> => {
+  try {
+    const response = await axios.post<Blob>(
+      `${API_BASE_URL}/export`,
+      { waypoints, altitudeReference },
+      { params: { format }, responseType: "blob" }
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error("Error exporting route:", error);
+    throw error;
+  }
+};
+
+// how the order of waypoints may change when optimising a route
+export interface RouteOptimizationOptions {
+  fixedStart: boolean; // keep the first waypoint first
+  fixedEnd: boolean; // keep the last waypoint last
+  returnToStart: boolean; // the route flies back to the first waypoint
+}
+
+export interface RouteOptimization {
+  waypoints: Coordinate[];
+  order: number[]; // index of each waypoint in the original order
+  distanceBefore: number; // metres
+  distanceAfter: number; // metres
+}
+
+// waypoints reordered into a shorter route
+export const optimizeRoute = async (
+  waypoints: Coordinate[],
+  options: RouteOptimizationOptions
+): Promise<RouteOptimization> => {
+  try {
+    const response = await axios.post<RouteOptimization>(
+      `${API_BASE_URL}/optimize-route`,
+      { waypoints, ...options }
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error("Error optimizing route:", error);
+    throw error;
+  }
+};
+
+// a mission plan saved to the server's library
+export interface Mission {
+  id: string;
+  name: string;
+  description: string;
+  waypoints: Coordinate[];
+  tags: string[];
+  createdAt: string; // ISO time
+  updatedAt: string; // ISO time
+}
+
+export type MissionDraft = Pick<Mission, "name" | "description" | "waypoints" | "tags">;
+
+export const fetchMissions = async (): Promise<Mission[]> => {
+  try {
+    const response = await axios.get<{ missions: Mission[] }>(
+      `${API_BASE_URL}/missions`
+    );
+
+    return response.data.missions;
+  } catch (error) {
+    console.error("Error fetching missions:", error);
+    throw error;
+  }
+};
+
+export const createMission = async (mission: MissionDraft): Promise<Mission> => {
+  try {
+    const response = await axios.post<{ mission: Mission }>(
+      `${API_BASE_URL}/missions`,
+      mission
+    );
+
+    return response.data.mission;
+  } catch (error) {
+    console.error("Error saving mission:", error);
+    throw error;
+  }
+};
+
+export const updateMission = async (id: string, mission: MissionDraft): Promise<Mission> => {
+  try {
+    const response = await axios.put<{ mission: Mission }>(
+      `${API_BASE_URL}/missions/${id}`,
+      mission
+    );
+
+    return response.data.mission;
+  } catch (error) {
+    console.error("Error updating mission:", error);
+    throw error;
+  }
+};
+
+export const deleteMission = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(`${API_BASE_URL}/missions/${id}`);
+  } catch (error) {
+    console.error("Error deleting mission:", error);
+    throw error;
+  }
+};
+
+// Geofences apply to simulations started after they are saved
+export const fetchGeofences = async (): Promise<Geofence[]> => {
+  try {
+    const response = await axios.get<{ geofences: Geofence[] }>(
+      `${API_BASE_URL}/geofences`
+    );
+
+    return response.data.geofences;
+  } catch (error) {
+    console.error("Error fetching geofences:", error);
+    throw error;
+  }
+};
+
+export const createGeofence = async (
+  geofence: Omit<Geofence, "id">
+): Promise<Geofence> => {
+  try {
+    const response = await axios.post<{ geofence: Geofence }>(
+      `${API_BASE_URL}/geofences`,
+      geofence
+    );
+
+    return response.data.geofence;
+  } catch (error) {
+    console.error("Error creating geofence:", error);
+    throw error;
+  }
+};
+
+export const updateGeofence = async (geofence: Geofence): Promise<Geofence> => {
+  try {
+    const response = await axios.put<{ geofence: Geofence }>(
+      `${API_BASE_URL}/geofences/${geofence.id}`,
+      geofence
+    );
+
+    return response.data.geofence;
+  } catch (error) {
+    console.error("Error updating geofence:", error);
+    throw error;
+  }
+};
+
+export const deleteGeofence = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(`${API_BASE_URL}/geofences/${id}`);
+  } catch (error) {
+    console.error("Error deleting geofence:", error);
+    throw error;
+  }
+};
+
 // WebSocket class for simulation
 export class SimulationSocket {
   private socket: WebSocket | null = null;
   private isConnected = false;
-  private messageQueue: SimulationMessage[] = [];
-  private eventListeners: Record<
-    string,
-    Array<(data: WebSocketMessage) => void>
+  private messageQueue: ClientMessage[] = [];
+  // listeners by message type, each only ever given messages of its type
+  private eventListeners: Partial<
+    Record<ServerMessage["type"], Array<(data: ServerMessage) => void>>
   > = {};
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 5;
+  // token of the session to resume after a reconnect
+  private sessionToken: string | null = null;
+  private isResuming = false;
+  // set when the server speaks another protocol version, as reconnecting
+  // cannot help
+  private isUnsupported = false;
 
   constructor() {
     this.connect();
@@ -121,6 +462,14 @@ export class SimulationSocket {
       this.reconnectAttempts = 0;
       console.log("WebSocket connected to", WS_URL);
 
+      // Agree on the protocol, then take back the drones of the previous
+      // connection before anything else is sent on their behalf
+      this.send({ type: "HELLO", protocolVersion: PROTOCOL_VERSION });
+      if (this.sessionToken) {
+        this.isResuming = true;
+        this.send({ type: "RESUME_SESSION", token: this.sessionToken });
+      }
+
       // Send any queued messages
       while (this.messageQueue.length > 0) {
         const message = this.messageQueue.shift();
@@ -129,12 +478,12 @@ export class SimulationSocket {
     };
 
     this.socket.onmessage = (event: MessageEvent) => {
-      try {
-        const data = JSON.parse(event.data) as WebSocketMessage;
-        this.handleMessage(data);
-      } catch (error) {
-        console.error("Error parsing WebSocket message:", error);
+      const result = decodeServerMessage(String(event.data));
+      if ("error" in result) {
+        console.error("Ignoring invalid WebSocket message:", result.error);
+        return;
       }
+      this.handleMessage(result.message);
     };
 
     this.socket.onclose = (event) => {
@@ -142,7 +491,9 @@ export class SimulationSocket {
       console.log(`WebSocket disconnected with code ${event.code}, reason: ${event.reason}`);
 
       // Attempt to reconnect after a delay, with a maximum number of attempts
-      if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      if (this.isUnsupported) {
+        console.error("The server speaks another protocol version. Please reload the page.");
+      } else if (this.reconnectAttempts < this.maxReconnectAttempts) {
         console.log(`Reconnection attempt ${this.reconnectAttempts + 1}/${this.maxReconnectAttempts}`);
         this.reconnectAttempts++;
         setTimeout(() => this.connect(), 2000);
@@ -158,21 +509,30 @@ export class SimulationSocket {
     };
   }
 
-  private handleMessage(data: WebSocketMessage): void {
-    const { type } = data;
-
-    if (this.eventListeners[type]) {
-      this.eventListeners[type].forEach((listener) => listener(data));
+  private handleMessage(data: ServerMessage): void {
+    // Keep the token to resume the session with. A fresh connection's own
+    // token is ignored while it waits to hear whether it resumed.
+    if (data.type === "SESSION_STARTED" && !this.isResuming) {
+      this.sessionToken = data.token;
+    } else if (data.type === "SESSION_RESUMED" || data.type === "SESSION_EXPIRED") {
+      this.isResuming = false;
+      this.sessionToken = data.token;
+    } else if (data.type === "ERROR" && data.code === "UNSUPPORTED_VERSION") {
+      this.isUnsupported = true;
     }
 
-    if (this.eventListeners["*"]) {
-      this.eventListeners["*"].forEach((listener) => listener(data));
-    }
+    this.eventListeners[data.type]?.forEach((listener) => listener(data));
   }
 
-  public send(message: SimulationMessage): void {
+  public send(message: ClientMessage): void {
+    const result = encodeClientMessage(message);
+    if ("error" in result) {
+      console.error(`Not sending invalid ${message.type} message:`, result.error);
+      return;
+    }
+
     if (this.isConnected && this.socket) {
-      this.socket.send(JSON.stringify(message));
+      this.socket.send(result.data);
     } else {
       // Queue the message to be sent when connection is established
       this.messageQueue.push(message);
@@ -184,20 +544,21 @@ export class SimulationSocket {
     }
   }
 
-  public on(
-    event: string,
-    callback: (data: WebSocketMessage) => void
+  public on<T extends ServerMessage["type"]>(
+    event: T,
+    callback: (data: Extract<ServerMessage, { type: T }>) => void
   ): () => void {
+    const listener = callback as (data: ServerMessage) => void;
     if (!this.eventListeners[event]) {
       this.eventListeners[event] = [];
     }
 
-    this.eventListeners[event].push(callback);
+    this.eventListeners[event]!.push(listener);
 
     // Return a function to remove the listener
     return () => {
-      this.eventListeners[event] = this.eventListeners[event].filter(
-        (cb) => cb !== callback
+      this.eventListeners[event] = this.eventListeners[event]!.filter(
+        (cb) => cb !== listener
       );
     };
   }
@@ -205,25 +566,70 @@ export class SimulationSocket {
   public startSimulation(options: SimulationOptions): void {
     this.send({
       type: "START_SIMULATION",
+      droneId: options.droneId,
       waypoints: options.waypoints,
       speed: options.speed,
+      altitudeReference: options.altitudeReference,
+      vehicleType: options.vehicleType,
+      payloadKg: options.payloadKg,
+      wind: options.wind,
+      gps: options.gps,
+      failures: options.failures,
+      failsafeTimeout: options.failsafeTimeout,
+      routeMode: options.routeMode,
+      laps: options.laps,
+      seed: options.seed,
+      timeScale: options.timeScale,
     });
   }
 
-  public pauseSimulation(): void {
-    this.send({ type: "PAUSE_SIMULATION" });
+  // Commands apply to one drone, or to the whole fleet when droneId is omitted
+  public pauseSimulation(droneId?: string): void {
+    this.send({ type: "PAUSE_SIMULATION", droneId });
+  }
+
+  public resumeSimulation(droneId?: string): void {
+    this.send({ type: "RESUME_SIMULATION", droneId });
+  }
+
+  public stopSimulation(droneId?: string): void {
+    this.send({ type: "STOP_SIMULATION", droneId });
+  }
+
+  public updateSpeed(speed: number, droneId?: string): void {
+    this.send({ type: "UPDATE_SPEED", speed, droneId });
+  }
+
+  public seekSimulation(target: SeekTarget, droneId?: string): void {
+    this.send({ type: "SEEK_SIMULATION", ...target, droneId });
+  }
+
+  public injectFailure(failure: Failure, droneId?: string): void {
+    this.send({ type: "INJECT_FAILURE", failure, droneId });
+  }
+
+  // Mission updates always target a single drone
+  public updateMission(update: MissionUpdate, droneId: string): void {
+    this.send({ type: "UPDATE_MISSION", update, droneId });
+  }
+
+  public setTimeScale(timeScale: number, droneId?: string): void {
+    this.send({ type: "SET_TIME_SCALE", timeScale, droneId });
   }
 
-  public resumeSimulation(): void {
-    this.send({ type: "RESUME_SIMULATION" });
+  // An operator shares its drones with the room; observers only watch them
+  public joinRoom(room: string, role: RoomRole): void {
+    this.send({ type: "JOIN_ROOM", room, role });
   }
 
-  public stopSimulation(): void {
-    this.send({ type: "STOP_SIMULATION" });
+  public leaveRoom(): void {
+    this.send({ type: "LEAVE_ROOM" });
   }
 
-  public updateSpeed(speed: number): void {
-    this.send({ type: "UPDATE_SPEED", speed });
+  // Replays show a recorded flight as a drone of its own; stopping the drone
+  // stops the replay
+  public replayRecording(recordingId: string, droneId?: string, timeScale?: number): void {
+    this.send({ type: "REPLAY_RECORDING", recordingId, droneId, timeScale });
   }
 
   public disconnect(): void {
@@ -0,0 +1,23 @@
+// src/lib/geofence.ts
+import { Coordinate, Geofence } from "./api";
+import { geofenceContains } from "../server/src/geofence";
+
+// Altitude the server flies waypoints at when none is set before them
+const DEFAULT_ALTITUDE = 50;
+
+// Names of the exclusion zones each waypoint lies in. Waypoints without an
+// altitude fly at the altitude of the waypoint before them, as on the server.
+export const waypointExclusions = (
+  waypoints: Coordinate[],
+  geofences: Geofence[]
+): string[][] => {
+  const exclusions = geofences.filter((fence) => fence.kind === "exclusion");
+  let altitude = DEFAULT_ALTITUDE;
+
+  return waypoints.map((waypoint) => {
+    if (waypoint.alt !== undefined && !isNaN(waypoint.alt)) altitude = waypoint.alt;
+    return exclusions
+      .filter((fence) => geofenceContains(fence, waypoint, altitude))
+      .map((fence) => fence.name);
+  });
+};
@@ -0,0 +1,145 @@
+// src/lib/survey.ts
+import { Coordinate } from "./api";
+
+const EARTH_RADIUS = 6371000; // metres
+const METRES_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS; // of latitude
+
+// Most lines a survey may have, so a tiny spacing over a large area cannot
+// lock up the page
+const MAX_SURVEY_LINES = 500;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Corner of the area the survey starts from
+export type SurveyCorner = "northwest" | "northeast" | "southwest" | "southeast";
+
+export interface SurveyPattern {
+  spacing: number; // metres between lines
+  heading: number; // degrees clockwise from north that the lines run along
+  overshoot: number; // metres flown past the area at each end to turn around
+  startCorner: SurveyCorner;
+  altitude?: number; // metres in the mission's altitude reference, set on every waypoint when given
+}
+
+// A camera pointed straight down, and how much its photos should overlap
+export interface SurveyCamera {
+  sensorWidth: number; // mm, across the survey lines
+  sensorHeight: number; // mm, along the survey lines
+  focalLength: number; // mm
+  altitude: number; // metres above the ground
+  frontOverlap: number; // 0..1, between photos along a line
+  sideOverlap: number; // 0..1, between neighbouring lines
+}
+
+// Metres of ground one photo covers across and along the survey lines
+export const cameraFootprint = (camera: SurveyCamera) => ({
+  width: (camera.sensorWidth * camera.altitude) / camera.focalLength,
+  height: (camera.sensorHeight * camera.altitude) / camera.focalLength,
+});
+
+// Line spacing that gives the camera's side overlap
+export const cameraLineSpacing = (camera: SurveyCamera): number =>
+  cameraFootprint(camera).width * (1 - camera.sideOverlap);
+
+// Metres flown between photos to give the camera's front overlap
+export const cameraTriggerDistance = (camera: SurveyCamera): number =>
+  cameraFootprint(camera).height * (1 - camera.frontOverlap);
+
+// Where a line across the area enters and leaves it, in metres along the line
+interface SurveyLine {
+  offset: number; // metres across the lines
+  start: number;
+  end: number;
+}
+
+// Lines across a polygon given as [along, across] points, spaced evenly and
+// centred so the margins at both sides are equal. A line spans from its
+// first crossing of the boundary to its last, so concave areas are flown
+// straight across.
+const surveyLines = (points: [number, number][], spacing: number): SurveyLine[] => {
+  const offsets = points.map(([, across]) => across);
+  const min = Math.min(...offsets);
+  const width = Math.max(...offsets) - min;
+  const count = Math.max(1, Math.ceil(width / spacing));
+  if (count > MAX_SURVEY_LINES) return [];
+
+  const lines: SurveyLine[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = min + (width - (count - 1) * spacing) / 2 + i * spacing;
+    const crossings: number[] = [];
+    for (let j = 0, k = points.length - 1; j < points.length; k = j++) {
+      const [alongA, acrossA] = points[j];
+      const [alongB, acrossB] = points[k];
+      if (acrossA <= offset !== acrossB <= offset) {
+        crossings.push(alongA + ((offset - acrossA) * (alongB - alongA)) / (acrossB - acrossA));
+      }
+    }
+    if (crossings.length >= 2) {
+      lines.push({ offset, start: Math.min(...crossings), end: Math.max(...crossings) });
+    }
+  }
+  return lines;
+};
+
+// Boustrophedon (lawnmower) route over a polygon: parallel lines flown in
+// alternating directions, each extended by the overshoot at both ends.
+// Empty when the area has fewer than three corners or the spacing would
+// need too many lines.
+export const surveyRoute = (area: Coordinate[], pattern: SurveyPattern): Coordinate[] => {
+  const { spacing, heading, overshoot, startCorner, altitude } = pattern;
+  if (area.length < 3 || !(spacing > 0) || !isFinite(heading)) return [];
+
+  // Flat east/north metres around the first corner, which is accurate
+  // enough over the size of a survey
+  const origin = area[0];
+  const metresPerLng = METRES_PER_DEGREE * Math.cos(toRadians(origin.lat));
+  const metresPerLat = METRES_PER_DEGREE;
+  const east = area.map((point) => (point.lng - origin.lng) * metresPerLng);
+  const north = area.map((point) => (point.lat - origin.lat) * metresPerLat);
+
+  // Along runs with the lines and across to their right
+  const sin = Math.sin(toRadians(heading));
+  const cos = Math.cos(toRadians(heading));
+  const points = area.map((_, i): [number, number] => [
+    east[i] * sin + north[i] * cos,
+    east[i] * cos - north[i] * sin,
+  ]);
+  const toCoordinate = (along: number, across: number): Coordinate => {
+    const coordinate = {
+      lat: origin.lat + (along * cos - across * sin) / metresPerLat,
+      lng: origin.lng + (along * sin + across * cos) / metresPerLng,
+    };
+    return altitude === undefined ? coordinate : { ...coordinate, alt: altitude };
+  };
+
+  const lines = surveyLines(points, spacing);
+  if (lines.length === 0) return [];
+
+  // Start from whichever end of the first or last line lies nearest the
+  // chosen corner of the area's bounds
+  const corner = {
+    east: startCorner.endsWith("west") ? Math.min(...east) : Math.max(...east),
+    north: startCorner.startsWith("south") ? Math.min(...north) : Math.max(...north),
+  };
+  const distanceToCorner = (along: number, across: number) =>
+    Math.hypot(along * sin + across * cos - corner.east, along * cos - across * sin - corner.north);
+  const starts = [false, true].flatMap((reversed) =>
+    [false, true].map((backwards) => {
+      const line = reversed ? lines[lines.length - 1] : lines[0];
+      const along = backwards ? line.end + overshoot : line.start - overshoot;
+      return { reversed, backwards, distance: distanceToCorner(along, line.offset) };
+    })
+  );
+  const { reversed, backwards } = starts.reduce((best, start) =>
+    start.distance < best.distance ? start : best
+  );
+
+  const ordered = reversed ? [...lines].reverse() : lines;
+  return ordered.flatMap((line, i) => {
+    const ends = [
+      toCoordinate(line.start - overshoot, line.offset),
+      toCoordinate(line.end + overshoot, line.offset),
+    ];
+    return (i % 2 === 1) !== backwards ? ends.reverse() : ends;
+  });
+};
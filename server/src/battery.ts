@@ -0,0 +1,147 @@
+// battery.ts - Battery capacity, power draw and state-of-charge tracking
+
+import {
+  BatteryConfig,
+  BatteryLevel,
+  BatteryState,
+  VehicleType,
+} from "./types";
+
+const GRAVITY = 9.81;
+
+// Weight given to the newest sample in the smoothed power used for endurance
+const POWER_SMOOTHING = 0.05;
+
+/**
+ * Battery and power presets for the supported vehicle types
+ */
+export const BATTERY_PRESETS: Record<VehicleType, BatteryConfig> = {
+  quadcopter: {
+    capacityWh: 100,
+    massKg: 1.5,
+    basePowerW: 180,
+    dragCoefficient: 0.15,
+    climbEfficiency: 0.7,
+    warningThreshold: 0.3,
+    criticalThreshold: 0.15,
+    lowBatteryAction: "RTL",
+  },
+  "fixed-wing": {
+    capacityWh: 200,
+    massKg: 3,
+    basePowerW: 80,
+    dragCoefficient: 0.08,
+    climbEfficiency: 0.6,
+    warningThreshold: 0.25,
+    criticalThreshold: 0.1,
+    lowBatteryAction: "RTL",
+  },
+};
+
+/**
+ * Builds a battery configuration from a preset, applying any overrides
+ */
+export function createBatteryConfig(
+  type: VehicleType,
+  overrides: Partial<BatteryConfig> = {}
+): BatteryConfig {
+  return { ...BATTERY_PRESETS[type], ...overrides };
+}
+
+/**
+ * Why a battery configuration cannot be flown, or null if it can. The power
+ * model divides by the mass and climb efficiency, so they and the capacity
+ * and base power must be positive, and the thresholds must fall in order.
+ */
+export function batteryConfigError(config: BatteryConfig): string | null {
+  const positive = ["capacityWh", "massKg", "basePowerW", "climbEfficiency"] as const;
+  const invalid = positive.find((key) => !(config[key] > 0 && isFinite(config[key])));
+  if (invalid) return `battery.${invalid} must be a positive number`;
+
+  const { warningThreshold, criticalThreshold } = config;
+  if (!(warningThreshold >= 0 && warningThreshold <= 1)) {
+    return "battery.warningThreshold must be a number from 0 to 1";
+  }
+  if (!(criticalThreshold >= 0 && criticalThreshold <= warningThreshold)) {
+    return "battery.criticalThreshold must be from 0 to the warning threshold";
+  }
+  return null;
+}
+
+export function createBatteryState(config: BatteryConfig): BatteryState {
+  return {
+    config,
+    remainingWh: config.capacityWh,
+    stateOfCharge: 1,
+    powerW: 0,
+    averagePowerW: config.basePowerW,
+    level: "OK",
+  };
+}
+
+/**
+ * Electrical power in watts needed to fly at the given airspeed and climb
+ * rate. The base power keeps the vehicle in the air (hover for a multirotor)
+ * and grows with the extra mass of the payload; drag adds power with the
+ * square of the airspeed, and climbing adds the rate of gain of potential
+ * energy.
+ */
+export function powerDraw(
+  config: BatteryConfig,
+  airspeed: number,
+  verticalSpeed: number,
+  payloadKg: number
+): number {
+  const massRatio = (config.massKg + payloadKg) / config.massKg;
+  const basePower = config.basePowerW * Math.pow(massRatio, 1.5);
+  const dragPower = config.dragCoefficient * airspeed * airspeed;
+  const climbPower =
+    ((config.massKg + payloadKg) * GRAVITY * Math.max(verticalSpeed, 0)) /
+    config.climbEfficiency;
+  return basePower + dragPower + climbPower;
+}
+
+/**
+ * Drains the battery for dt seconds at the given power and returns the new
+ * warning level if a threshold was crossed during this step
+ */
+export function drainBattery(
+  battery: BatteryState,
+  powerW: number,
+  dt: number
+): BatteryLevel | null {
+  const { config } = battery;
+
+  battery.powerW = powerW;
+  battery.averagePowerW += (powerW - battery.averagePowerW) * POWER_SMOOTHING;
+  battery.remainingWh = Math.max(battery.remainingWh - (powerW * dt) / 3600, 0);
+  battery.stateOfCharge =
+    config.capacityWh > 0 ? battery.remainingWh / config.capacityWh : 0;
+
+  const level = batteryLevel(config, battery.stateOfCharge);
+  if (level === battery.level) return null;
+
+  battery.level = level;
+  return level;
+}
+
+/**
+ * Classifies a state of charge against the configured thresholds
+ */
+export function batteryLevel(
+  config: BatteryConfig,
+  stateOfCharge: number
+): BatteryLevel {
+  if (stateOfCharge <= 0) return "DEPLETED";
+  if (stateOfCharge <= config.criticalThreshold) return "CRITICAL";
+  if (stateOfCharge <= config.warningThreshold) return "LOW";
+  return "OK";
+}
+
+/**
+ * Seconds of flight left at the recent average power draw
+ */
+export function estimatedEndurance(battery: BatteryState): number {
+  if (battery.averagePowerW <= 0) return Infinity;
+  return (battery.remainingWh * 3600) / battery.averagePowerW;
+}
@@ -0,0 +1,140 @@
+// clock.ts - Virtual clock that drives the simulation engine
+//
+// Simulated time only ever advances in fixed steps, so a flight is the same
+// whether it runs in real time, accelerated, or headless as fast as possible.
+// The wall clock only decides how many steps to take on each tick.
+
+import { ClockListener, SimulationState, VirtualClock } from "./types";
+import {
+  FIXED_TIMESTEP_S,
+  MAX_SIMULATION_DURATION_S,
+  stepSimulation,
+  telemetryFrame,
+} from "./engine";
+
+// Wall-clock period of the timer that drives real-time simulations
+const TICK_INTERVAL_MS = 100;
+
+export const MIN_TIME_SCALE = 0.1;
+export const MAX_TIME_SCALE = 100;
+
+// Most wall-clock time a single tick catches up on after a stall, so a
+// blocked event loop does not cause a burst of steps
+const MAX_CATCH_UP_MS = 1000;
+
+// Steps a headless run takes between yields to the event loop, a few
+// milliseconds of work
+const HEADLESS_CHUNK_STEPS = 1000;
+
+export function clampTimeScale(timeScale: unknown): number {
+  if (typeof timeScale !== "number" || !isFinite(timeScale)) return 1;
+  return Math.max(MIN_TIME_SCALE, Math.min(MAX_TIME_SCALE, timeScale));
+}
+
+/**
+ * Number of steps between telemetry frames. At N times real time only every
+ * Nth step is reported, keeping the message rate of a real-time run. The
+ * stride depends only on the time scale, so the frames sent are the same
+ * however the timer jitters.
+ */
+function frameStride(timeScale: number): number {
+  return Math.max(1, Math.round(timeScale));
+}
+
+/**
+ * Takes one step and reports it: a telemetry frame when the step is due
+ * one, followed by any events the step raised
+ */
+function advance(
+  state: SimulationState,
+  droneId: string,
+  stride: number,
+  listener: Pick<ClockListener, "onFrame" | "onEvent">
+): void {
+  stepSimulation(state);
+  if (state.stepCount % stride === 0 || state.isComplete) {
+    listener.onFrame(telemetryFrame(state, droneId));
+  }
+  state.pendingEvents.splice(0).forEach((event) => {
+    listener.onEvent({ ...event, droneId, time: state.simTime });
+  });
+}
+
+export function createClock(timeScale: number, listener: ClockListener): VirtualClock {
+  return {
+    timeScale: clampTimeScale(timeScale),
+    accumulator: 0,
+    lastTick: Date.now(),
+    timer: null,
+    listener,
+  };
+}
+
+/**
+ * Runs a simulation at the clock's time scale until it completes. The state
+ * is read from the simulation on every tick, so it can be replaced (e.g. by
+ * a seek) while the clock runs. Paused simulations keep their place and owe
+ * no time when resumed.
+ */
+export function startClock(
+  clock: VirtualClock,
+  simulation: { droneId: string; state: SimulationState }
+): void {
+  if (clock.timer) return;
+  clock.accumulator = 0;
+  clock.lastTick = Date.now();
+
+  clock.timer = setInterval(() => {
+    const { state } = simulation;
+    const now = Date.now();
+    const elapsed = Math.min(now - clock.lastTick, MAX_CATCH_UP_MS);
+    clock.lastTick = now;
+    if (state.isPaused) return;
+
+    clock.accumulator += (elapsed / 1000) * clock.timeScale;
+    const stride = frameStride(clock.timeScale);
+
+    while (clock.accumulator >= FIXED_TIMESTEP_S && !state.isComplete) {
+      clock.accumulator -= FIXED_TIMESTEP_S;
+      advance(state, simulation.droneId, stride, clock.listener);
+    }
+
+    if (state.isComplete) {
+      stopClock(clock);
+      clock.listener.onComplete();
+    }
+  }, TICK_INTERVAL_MS);
+}
+
+export function stopClock(clock: VirtualClock): void {
+  if (clock.timer) clearInterval(clock.timer);
+  clock.timer = null;
+}
+
+export function setTimeScale(clock: VirtualClock, timeScale: number): void {
+  clock.timeScale = clampTimeScale(timeScale);
+}
+
+/**
+ * Runs a simulation to completion as fast as possible without a client,
+ * reporting every step to the listener as it is taken. Gives up once
+ * maxDuration seconds of simulated time have passed, or when the drone
+ * holds position since nothing can release it. Yields to the event loop
+ * between chunks of steps so live simulations keep flying meanwhile.
+ */
+export async function runToCompletion(
+  state: SimulationState,
+  droneId: string,
+  listener: Pick<ClockListener, "onFrame" | "onEvent">,
+  maxDuration: number = MAX_SIMULATION_DURATION_S
+): Promise<void> {
+  const flying = () =>
+    !state.isComplete && state.flightMode !== "HOLD" && state.simTime < maxDuration;
+
+  while (flying()) {
+    for (let step = 0; step < HEADLESS_CHUNK_STEPS && flying(); step++) {
+      advance(state, droneId, 1, listener);
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
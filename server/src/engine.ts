@@ -0,0 +1,854 @@
+// engine.ts - Deterministic simulation core
+//
+// The engine advances a simulation in fixed timesteps of simulated time. It
+// never reads the wall clock or an unseeded random source, so the same
+// config and seed always produce the same telemetry.
+
+import {
+  Coordinate,
+  Failure,
+  FlightMode,
+  MissionUpdate,
+  RecordedCommand,
+  SeekTarget,
+  SimulationCommand,
+  SimulationConfig,
+  SimulationState,
+  VehicleModel,
+} from "./types";
+import type { TelemetryFrame } from "./protocol";
+import {
+  destinationPoint,
+  initialBearing,
+  interpolateGreatCircle,
+  toRadians,
+  vincentyDistance,
+} from "./geo";
+import {
+  approachAltitude,
+  approachSpeed,
+  brakingSpeed,
+  climbSpeedLimit,
+  cornerSpeed,
+  createVehicleModel,
+  headingDifference,
+  isVehicleType,
+  turnAngle,
+  turnTowards,
+  vehicleModelError,
+} from "./flightModel";
+import {
+  batteryConfigError,
+  createBatteryConfig,
+  createBatteryState,
+  drainBattery,
+  estimatedEndurance,
+  powerDraw,
+} from "./battery";
+import {
+  createWindState,
+  isWindMode,
+  requiredAirspeed,
+  solveWindTriangle,
+  updateWind,
+  windSpeedAndDirection,
+} from "./wind";
+import {
+  beginWaypointActions,
+  parseMissionActions,
+  releaseHold,
+  startHold,
+  stopsAtWaypoint,
+  updateMissionItem,
+} from "./missionActions";
+import { checkGeofences } from "./geofence";
+import { createGpsState, gpsStatus, updateGps } from "./gps";
+import {
+  activeFailures,
+  advanceLosses,
+  createFailureState,
+  DEFAULT_CELL_CAPACITY_LOSS,
+  dueFailures,
+  parseScheduledFailures,
+  startLoss,
+  truePosition,
+  updateDrift,
+} from "./failures";
+import {
+  advanceWaypoint,
+  followingWaypointIndex,
+  isRouteMode,
+  legStart,
+  missionDistance,
+  resumeMission,
+} from "./route";
+import { currentMission, updateMission } from "./missionUpdate";
+
+// Simulated seconds advanced by each step
+const STEPS_PER_SECOND = 10;
+export const FIXED_TIMESTEP_S = 1 / STEPS_PER_SECOND;
+
+// Longest simulated time a run or seek may cover before it gives up
+export const MAX_SIMULATION_DURATION_S = 24 * 3600;
+
+export const DEFAULT_SPEED_MPS = 10;
+
+// Extra power a quadcopter needs to stay in the air on its remaining motors
+const MOTOR_OUT_POWER_FACTOR = 1.5;
+const DEFAULT_ALTITUDE_M = 50;
+
+// How close the drone has to get to a waypoint's altitude before moving on
+const ALTITUDE_TOLERANCE_M = 0.5;
+
+// Seconds over which the drone aims to fly back onto its track after drifting
+const CROSS_TRACK_CORRECTION_TIME = 5;
+
+// The parts of a config that decide whether the drone can fly it at all
+type FlightLimits = Pick<SimulationConfig, "speed" | "vehicleType" | "vehicle" | "battery">;
+
+/**
+ * The vehicle a config asks for, with its settings applied over the presets
+ */
+export function configVehicle(config: FlightLimits): VehicleModel {
+  return createVehicleModel(
+    isVehicleType(config.vehicleType) ? config.vehicleType : undefined,
+    config.vehicle
+  );
+}
+
+/**
+ * Why a config cannot be flown with the speed and vehicle it asks for, or
+ * null if it can
+ */
+export function simulationConfigError(config: FlightLimits): string | null {
+  if (config.speed !== undefined && !(config.speed > 0)) {
+    return "speed must be a positive number";
+  }
+  const vehicle = configVehicle(config);
+  return (
+    vehicleModelError(vehicle) ??
+    batteryConfigError(createBatteryConfig(vehicle.type, config.battery))
+  );
+}
+
+/**
+ * Builds the initial state of a simulation. The config must contain at
+ * least two waypoints.
+ */
+export function createSimulationState(config: SimulationConfig): SimulationState {
+  const waypoints = resolveWaypointAltitudes(config.waypoints);
+
+  // A route has to cover some ground to be repeated
+  const routeMode =
+    isRouteMode(config.routeMode) && calculateTotalDistance(waypoints) > 0
+      ? config.routeMode
+      : "once";
+  const laps =
+    routeMode !== "once" && typeof config.laps === "number" && config.laps >= 1
+      ? Math.floor(config.laps)
+      : null;
+
+  // Build the vehicle model from the requested preset and overrides
+  const vehicle = configVehicle(config);
+
+  const state: SimulationState = {
+    waypoints,
+    currentWaypointIndex: 0,
+    nextWaypointIndex: 1,
+    legOrigin: null,
+    suspendedMission: null,
+    progress: 0,
+    speed: config.speed || DEFAULT_SPEED_MPS,
+    airspeed: 0,
+    groundSpeed: 0,
+    crabAngle: 0,
+    crossTrackError: 0,
+    wind: createWindState(
+      config.wind && isWindMode(config.wind.mode) ? config.wind : {},
+      config.seed
+    ),
+    gps: createGpsState(config.gps, config.seed, toPosition(waypoints[0])),
+    failures: createFailureState(
+      parseScheduledFailures(config.failures),
+      config.failsafeTimeout,
+      config.seed
+    ),
+    heading: initialBearing(waypoints[0], waypoints[1]),
+    altitude: waypoints[0].alt!,
+    verticalSpeed: 0,
+    altitudeReference: config.altitudeReference === "AMSL" ? "AMSL" : "AGL",
+    vehicle,
+    battery: createBatteryState(createBatteryConfig(vehicle.type, config.battery)),
+    payloadKg:
+      typeof config.payloadKg === "number" && config.payloadKg > 0
+        ? config.payloadKg
+        : 0,
+    flightMode: "MISSION",
+    routeMode,
+    laps,
+    lap: 1,
+    routeDirection: 1,
+    lapStartDistance: 0,
+    missionItem: null,
+    geofences: config.geofences || [],
+    breachedGeofences: [],
+    homePosition: toPosition(waypoints[0]),
+    pendingEvents: [],
+    segmentDistanceFlown: 0,
+    distanceFlown: 0,
+    isPaused: false,
+    simTime: 0,
+    stepCount: 0,
+    currentPosition: toPosition(waypoints[0]),
+    totalDistance: missionDistance(waypoints, routeMode, laps),
+  };
+
+  // Actions at the launch point, such as a hover after take-off
+  beginWaypointActions(state, 0);
+  return state;
+}
+
+/**
+ * Advances the simulation by one fixed timestep. Events raised during the
+ * step are queued on state.pendingEvents for the caller to deliver.
+ */
+export function stepSimulation(state: SimulationState): void {
+  if (state.isComplete) return;
+  updateDronePosition(state, FIXED_TIMESTEP_S);
+  state.stepCount++;
+  state.simTime = state.stepCount / STEPS_PER_SECOND;
+  updateGps(
+    state.gps,
+    truePosition(state),
+    !!state.failures.gpsLoss,
+    state.simTime,
+    FIXED_TIMESTEP_S
+  );
+}
+
+/**
+ * Applies a command to a running simulation. Without a link only injected
+ * failures get through.
+ */
+export function applyCommand(state: SimulationState, command: SimulationCommand): void {
+  if (state.failures.linkLoss && command.type !== "INJECT_FAILURE") return;
+
+  switch (command.type) {
+    case "SET_SPEED":
+      state.speed = command.speed;
+      break;
+    case "RELEASE_HOLD":
+      releaseHold(state);
+      break;
+    case "INJECT_FAILURE":
+      injectFailure(state, command.failure);
+      break;
+    case "UPDATE_MISSION":
+      applyMissionUpdate(state, command.update);
+      break;
+    case "RETURN_TO_LAUNCH":
+      if (!state.isComplete && isFlyingMission(state)) startReturnToLaunch(state);
+      break;
+  }
+}
+
+/**
+ * Changes the mission in flight, sends the drone to a go-to point, or
+ * takes it back to its mission from one. Updates that do not fit the
+ * flight are ignored; the server checks them before they are issued.
+ */
+function applyMissionUpdate(state: SimulationState, update: MissionUpdate): void {
+  if (state.isComplete || !currentMission(state)) return;
+
+  switch (update.operation) {
+    case "GOTO": {
+      // A go-to from another go-to still returns to the mission
+      const { waypoints, currentWaypointIndex, nextWaypointIndex, routeDirection } =
+        currentMission(state)!;
+      const mission = { waypoints, currentWaypointIndex, nextWaypointIndex, routeDirection };
+      const { lat, lng, alt } = update.waypoint;
+      replaceRoute(state, [{ lat, lng, alt: alt ?? state.altitude }], "GUIDED");
+      state.suspendedMission = mission;
+      break;
+    }
+    case "RESUME":
+      // A drone holding over its go-to point resumes once it has stopped
+      // circling it
+      if (state.flightMode === "HOLD") releaseHold(state);
+      else resumeMission(state);
+      break;
+    default:
+      updateMission(state, update);
+  }
+}
+
+/**
+ * Whether a simulation has reached or passed a seek target. A waypoint
+ * counts as unreachable once the drone has left its mission.
+ */
+function hasReached(state: SimulationState, target: SeekTarget): boolean {
+  if (state.isComplete) return true;
+  if ("time" in target) return state.simTime >= target.time;
+  if ("progress" in target) return state.progress >= target.progress;
+  return (
+    state.flightMode !== "MISSION" ||
+    state.currentWaypointIndex >= target.waypointIndex
+  );
+}
+
+/**
+ * Moves a simulation to a seek target and returns the state there. Targets
+ * ahead of the current state are reached by stepping on from it; targets
+ * behind it are reached by replaying the flight from the start with the
+ * commands recorded so far. Either way the result is exactly the state the
+ * flight would have had at that point. Events raised on the way are
+ * dropped, and the pause state of the current simulation is kept.
+ */
+export function seekSimulation(
+  config: SimulationConfig,
+  commands: RecordedCommand[],
+  current: SimulationState,
+  target: SeekTarget
+): SimulationState {
+  const rewind = hasReached(current, target) && !isAt(current, target);
+  const state = rewind ? createSimulationState(config) : current;
+
+  // Commands up to the current step have already been applied to the
+  // current state
+  let nextCommand = rewind
+    ? 0
+    : commands.filter((command) => command.step <= state.stepCount).length;
+  const applyDueCommands = () => {
+    while (
+      nextCommand < commands.length &&
+      commands[nextCommand].step <= state.stepCount
+    ) {
+      applyCommand(state, commands[nextCommand++]);
+    }
+  };
+
+  // A hold only ends with a command, so nothing but time passes once the
+  // drone is holding and no commands are left
+  const stalled = () =>
+    !("time" in target) &&
+    state.flightMode === "HOLD" &&
+    nextCommand >= commands.length;
+
+  applyDueCommands();
+  while (
+    !hasReached(state, target) &&
+    !stalled() &&
+    state.simTime < MAX_SIMULATION_DURATION_S
+  ) {
+    stepSimulation(state);
+    state.pendingEvents.length = 0;
+    applyDueCommands();
+  }
+
+  state.isPaused = current.isPaused;
+  return state;
+}
+
+/**
+ * Whether the simulation is already at a time target, making a seek to it
+ * a no-op
+ */
+function isAt(state: SimulationState, target: SeekTarget): boolean {
+  if ("time" in target) return Math.abs(state.simTime - target.time) < FIXED_TIMESTEP_S / 2;
+  return false;
+}
+
+/**
+ * Builds the telemetry message describing the current state of a drone
+ */
+export function telemetryFrame(
+  state: SimulationState,
+  droneId: string
+): TelemetryFrame {
+  const wind = windSpeedAndDirection(state.wind.current);
+  const position = truePosition(state);
+  const endurance = estimatedEndurance(state.battery);
+  return {
+    type: "POSITION_UPDATE",
+    droneId,
+    time: state.simTime,
+    position,
+    estimatedPosition: { ...state.gps.estimate },
+    gps: gpsStatus(state.gps, position, state.simTime),
+    progress: state.progress,
+    currentWaypoint: (state.suspendedMission ?? state).currentWaypointIndex,
+    distanceFlown: state.distanceFlown,
+    distanceRemaining: Math.max((state.totalDistance || 0) - state.distanceFlown, 0),
+    groundSpeed: state.groundSpeed,
+    airspeed: state.airspeed,
+    crabAngle: state.crabAngle,
+    windSpeed: wind.speed,
+    windDirection: wind.direction,
+    altitude: state.altitude,
+    altitudeReference: state.altitudeReference,
+    verticalSpeed: state.verticalSpeed,
+    heading: state.heading,
+    flightMode: state.flightMode,
+    lap: state.lap,
+    activeFailures: activeFailures(state.failures),
+    batteryLevel: state.battery.stateOfCharge,
+    batteryRemainingWh: state.battery.remainingWh,
+    powerDraw: state.battery.powerW,
+    estimatedEndurance: isFinite(endurance) ? endurance : null,
+    isComplete: state.isComplete || false,
+  };
+}
+
+/**
+ * Advances the drone for dt seconds: through the mission action it is
+ * carrying out, or otherwise along the route. It then follows the planned
+ * altitude and drains the battery.
+ */
+function updateDronePosition(state: SimulationState, dt: number): void {
+  updateFailures(state, dt);
+
+  if (state.missionItem) updateMissionItem(state, dt);
+  else flyLeg(state, dt);
+
+  // Follow the planned vertical profile within the climb and descent limits
+  const previousAltitude = state.altitude;
+  state.altitude = approachAltitude(
+    state.vehicle,
+    state.altitude,
+    plannedAltitude(state),
+    dt
+  );
+  state.verticalSpeed = (state.altitude - previousAltitude) / dt;
+  state.currentPosition = { ...state.currentPosition, alt: state.altitude };
+
+  updateBattery(state, dt);
+  if (!state.isComplete) updateGeofences(state);
+
+  // Progress through a route that repeats forever is progress through the
+  // current lap
+  const repeatsForever =
+    state.routeMode !== "once" && state.laps === null && state.flightMode === "MISSION";
+  const start = repeatsForever ? state.lapStartDistance : 0;
+  const totalDistance = (state.totalDistance || 0) - start;
+  state.progress =
+    totalDistance > 0
+      ? Math.min((state.distanceFlown - start) / totalDistance, 1)
+      : 1;
+}
+
+/**
+ * Advances the drone along the route for dt seconds. The vehicle model
+ * limits how quickly the drone can yaw, accelerate and brake, so it slows
+ * down into corners and speeds up again once it is lined up with the next
+ * leg. The wind changes the ground speed and the heading needed to hold the
+ * track, and pushes the drone off the track when it is too strong to
+ * counter. Movement follows the great circle of each leg and carries any
+ * leftover distance over into the next leg.
+ */
+function flyLeg(state: SimulationState, dt: number): void {
+  const { waypoints, vehicle } = state;
+
+  // If we've reached the end of the waypoints
+  if (state.nextWaypointIndex >= waypoints.length) {
+    finishRoute(state);
+    return;
+  }
+
+  const legOrigin = legStart(state);
+  const legEnd = waypoints[state.nextWaypointIndex];
+  const cruiseSpeed = Math.min(state.speed, vehicle.maxSpeed);
+
+  const legDistance = calculateDistance(legOrigin, legEnd);
+  const distanceToCorner = legDistance - state.segmentDistanceFlown;
+  const trackPosition =
+    legDistance > 0
+      ? interpolateGreatCircle(legOrigin, legEnd, state.segmentDistanceFlown / legDistance)
+      : legOrigin;
+
+  // Yaw towards the next waypoint, crabbing into the wind, and hold the
+  // heading on vertical legs
+  const track =
+    distanceToCorner > 1
+      ? initialBearing(trackPosition, legEnd)
+      : state.heading - state.crabAngle;
+  const targetHeading = track + state.crabAngle;
+  state.heading = turnTowards(vehicle, state.heading, targetHeading, dt);
+  const headingError = Math.abs(headingDifference(state.heading, targetHeading));
+
+  // Only fly at full speed once lined up with the leg, and brake in time
+  // to make the turn at the next waypoint
+  const alignedSpeed = cruiseSpeed * Math.max(Math.cos(toRadians(headingError)), 0);
+  const exitSpeed = stopsAtWaypoint(legEnd.actions)
+    ? vehicle.minSpeed
+    : cornerSpeed(
+        vehicle,
+        turnAngle(
+          legOrigin,
+          legEnd,
+          waypoints[followingWaypointIndex(state, state.nextWaypointIndex)]
+        ),
+        cruiseSpeed
+      );
+  const climbLimit = climbSpeedLimit(
+    vehicle,
+    legEnd.alt! - state.altitude,
+    distanceToCorner
+  );
+  const targetSpeed = Math.min(
+    cruiseSpeed,
+    alignedSpeed,
+    brakingSpeed(vehicle, distanceToCorner, exitSpeed),
+    climbLimit
+  );
+
+  // Fly the airspeed that makes good the target speed over the ground in
+  // the current wind, within the vehicle's limits
+  const wind = updateWind(state.wind, state.altitude, dt);
+  const crossTrackCorrection = -state.crossTrackError / CROSS_TRACK_CORRECTION_TIME;
+  const targetAirspeed = Math.max(
+    vehicle.minSpeed,
+    Math.min(
+      vehicle.maxSpeed,
+      requiredAirspeed(targetSpeed, track, wind, crossTrackCorrection)
+    )
+  );
+  state.airspeed = approachSpeed(vehicle, state.airspeed, targetAirspeed, dt);
+
+  const { alongTrack, crossTrack, crabAngle } = solveWindTriangle(
+    state.airspeed,
+    track,
+    wind,
+    crossTrackCorrection
+  );
+  state.crabAngle = crabAngle;
+  state.crossTrackError += crossTrack * dt;
+  state.groundSpeed = Math.hypot(alongTrack, crossTrack);
+  let remainingStep = alongTrack * dt;
+
+  while (state.nextWaypointIndex < waypoints.length) {
+    const current = legStart(state);
+    const next = waypoints[state.nextWaypointIndex];
+    const segmentDistance = calculateDistance(current, next);
+    const segmentRemaining = segmentDistance - state.segmentDistanceFlown;
+
+    if (remainingStep < segmentRemaining) {
+      state.segmentDistanceFlown += remainingStep;
+      state.distanceFlown += remainingStep;
+      state.currentPosition = interpolateGreatCircle(
+        current,
+        next,
+        state.segmentDistanceFlown / segmentDistance
+      );
+      break;
+    }
+
+    // Wait over the waypoint until the climb or descent to it is finished
+    if (Math.abs(state.altitude - next.alt!) > ALTITUDE_TOLERANCE_M) {
+      state.segmentDistanceFlown = segmentDistance;
+      state.distanceFlown += segmentRemaining;
+      state.currentPosition = toPosition(next);
+      break;
+    }
+
+    // We've reached the next waypoint, advance to the next segment
+    remainingStep -= segmentRemaining;
+    state.distanceFlown += segmentRemaining;
+    state.currentPosition = toPosition(next);
+    advanceWaypoint(state);
+
+    // Stop here while the waypoint's actions are carried out
+    beginWaypointActions(state, state.currentWaypointIndex);
+    if (state.missionItem) return;
+  }
+
+  if (state.nextWaypointIndex >= waypoints.length) finishRoute(state);
+
+  // Offset the position by however far the wind has pushed the drone
+  if (Math.abs(state.crossTrackError) > 0.01) {
+    state.currentPosition = destinationPoint(
+      state.currentPosition,
+      track + 90,
+      state.crossTrackError
+    );
+  }
+}
+
+/**
+ * Ends the route once the drone has flown all of it. A go-to ends in a hold
+ * over the point, from which the drone can be sent back to its mission.
+ */
+function finishRoute(state: SimulationState): void {
+  if (state.flightMode === "GUIDED") {
+    startHold(state);
+    return;
+  }
+  state.isComplete = true;
+  state.airspeed = 0;
+  state.groundSpeed = 0;
+}
+
+/**
+ * Drains the battery for the power used during this step, raising a
+ * BATTERY_WARNING whenever a threshold is crossed. At the critical threshold
+ * the drone abandons the mission and returns to launch or lands, and a
+ * depleted battery ends the flight where it is.
+ */
+function updateBattery(state: SimulationState, dt: number): void {
+  const { battery } = state;
+  const power = state.isComplete
+    ? 0
+    : powerDraw(battery.config, state.airspeed, state.verticalSpeed, state.payloadKg);
+  const level = drainBattery(battery, power, dt);
+  if (!level) return;
+
+  let action: FlightMode | undefined;
+  if (level === "CRITICAL" && isFlyingMission(state)) {
+    action = battery.config.lowBatteryAction;
+    if (action === "RTL") startReturnToLaunch(state);
+    else startLanding(state);
+  } else if (level === "DEPLETED") {
+    state.isComplete = true;
+    state.airspeed = 0;
+    state.groundSpeed = 0;
+    state.verticalSpeed = 0;
+  }
+
+  state.pendingEvents.push({
+    type: "BATTERY_WARNING",
+    level,
+    stateOfCharge: battery.stateOfCharge,
+    remainingWh: battery.remainingWh,
+    action,
+  });
+}
+
+/**
+ * Injects the failures that are due, recovers lost links and GPS, and
+ * triggers the failsafe return to launch once the link has been lost for
+ * too long
+ */
+function updateFailures(state: SimulationState, dt: number): void {
+  const { failures } = state;
+  dueFailures(failures, state.simTime).forEach((failure) => injectFailure(state, failure));
+
+  advanceLosses(failures, dt).forEach((type) => {
+    state.pendingEvents.push({
+      type: "FAILURE_EVENT",
+      failure: type,
+      phase: "RECOVERED",
+      flightMode: state.flightMode,
+    });
+  });
+
+  if (
+    failures.linkLoss &&
+    !failures.failsafeTriggered &&
+    failures.linkLoss.elapsed >= failures.failsafeTimeout
+  ) {
+    failures.failsafeTriggered = true;
+    if (isFlyingMission(state)) startReturnToLaunch(state);
+    state.pendingEvents.push({
+      type: "FAILURE_EVENT",
+      failure: "LINK_LOSS",
+      phase: "FAILSAFE",
+      flightMode: state.flightMode,
+    });
+  }
+
+  updateDrift(failures, state.wind.current, dt);
+}
+
+/**
+ * Starts a failure and carries out its immediate consequences. A motor
+ * failure forces a landing where the drone is, and a battery cell fault
+ * takes a share of the remaining charge; warnings follow on the next step.
+ */
+function injectFailure(state: SimulationState, failure: Failure): void {
+  const { failures, battery } = state;
+
+  switch (failure.type) {
+    case "LINK_LOSS":
+      failures.linkLoss = startLoss(failure.duration);
+      failures.failsafeTriggered = false;
+      break;
+    case "GPS_LOSS":
+      failures.gpsLoss = startLoss(failure.duration);
+      break;
+    case "MOTOR_FAILURE":
+      if (!failures.motorFailed && state.vehicle.type === "quadcopter") {
+        // The remaining motors work harder to keep the drone in the air
+        battery.config = {
+          ...battery.config,
+          basePowerW: battery.config.basePowerW * MOTOR_OUT_POWER_FACTOR,
+        };
+      }
+      failures.motorFailed = true;
+      if (state.flightMode !== "LAND") startLanding(state);
+      break;
+    case "BATTERY_CELL_FAULT":
+      failures.cellFaults++;
+      battery.remainingWh *= 1 - (failure.capacityLoss ?? DEFAULT_CELL_CAPACITY_LOSS);
+      battery.stateOfCharge =
+        battery.config.capacityWh > 0 ? battery.remainingWh / battery.config.capacityWh : 0;
+      break;
+  }
+
+  state.pendingEvents.push({
+    type: "FAILURE_EVENT",
+    failure: failure.type,
+    phase: "INJECTED",
+    flightMode: state.flightMode,
+    duration: failure.duration,
+    stateOfCharge:
+      failure.type === "BATTERY_CELL_FAULT" ? battery.stateOfCharge : undefined,
+  });
+}
+
+/**
+ * Whether the drone is on its mission or a go-to, rather than already
+ * returning or landing
+ */
+function isFlyingMission(state: SimulationState): boolean {
+  return (
+    state.flightMode === "MISSION" ||
+    state.flightMode === "HOLD" ||
+    state.flightMode === "GUIDED"
+  );
+}
+
+/**
+ * Raises a GEOFENCE_BREACH for every fence the drone has just breached and
+ * carries out the fence's response. Responses only interrupt the mission or
+ * a go-to; a drone already returning, landing or holding just reports the
+ * breach.
+ */
+function updateGeofences(state: SimulationState): void {
+  checkGeofences(state).forEach((fence) => {
+    if (state.flightMode === "MISSION" || state.flightMode === "GUIDED") {
+      if (fence.action === "hold") startHold(state);
+      else if (fence.action === "rtl") startReturnToLaunch(state);
+    }
+
+    state.pendingEvents.push({
+      type: "GEOFENCE_BREACH",
+      geofenceId: fence.id,
+      name: fence.name,
+      kind: fence.kind,
+      action: fence.action,
+      position: { ...state.currentPosition },
+      flightMode: state.flightMode,
+    });
+  });
+}
+
+/**
+ * Replaces the rest of the mission with a new route starting at the drone's
+ * current position
+ */
+function replaceRoute(
+  state: SimulationState,
+  route: Coordinate[],
+  flightMode: FlightMode
+): void {
+  state.waypoints = [{ ...state.currentPosition, alt: state.altitude }, ...route];
+  state.currentWaypointIndex = 0;
+  state.nextWaypointIndex = 1;
+  state.legOrigin = null;
+  state.suspendedMission = null;
+  state.segmentDistanceFlown = 0;
+  state.crossTrackError = 0;
+  state.flightMode = flightMode;
+  state.missionItem = null;
+  state.totalDistance = state.distanceFlown + calculateTotalDistance(state.waypoints);
+}
+
+/**
+ * Flies back to the launch point at the current altitude and lands there.
+ * Terrain is not modelled, so landing descends to altitude 0 in the
+ * mission's altitude reference.
+ */
+function startReturnToLaunch(state: SimulationState): void {
+  const { homePosition } = state;
+  replaceRoute(
+    state,
+    [
+      { lat: homePosition.lat, lng: homePosition.lng, alt: state.altitude },
+      { lat: homePosition.lat, lng: homePosition.lng, alt: 0 },
+    ],
+    "RTL"
+  );
+}
+
+/**
+ * Descends and lands at the current position
+ */
+function startLanding(state: SimulationState): void {
+  const { lat, lng } = state.currentPosition;
+  replaceRoute(state, [{ lat, lng, alt: 0 }], "LAND");
+}
+
+/**
+ * Altitude of the planned profile at the drone's current position, found by
+ * interpolating linearly between the altitudes of the current leg's ends
+ */
+function plannedAltitude(state: SimulationState): number {
+  const { waypoints } = state;
+
+  if (state.missionItem?.action.type === "LAND") return 0;
+
+  if (state.nextWaypointIndex >= waypoints.length) {
+    return waypoints[waypoints.length - 1].alt!;
+  }
+
+  const current = legStart(state);
+  const next = waypoints[state.nextWaypointIndex];
+  const segmentDistance = calculateDistance(current, next);
+  const ratio =
+    segmentDistance > 0 ? state.segmentDistanceFlown / segmentDistance : 1;
+  return current.alt! + (next.alt! - current.alt!) * ratio;
+}
+
+/**
+ * Fills in missing waypoint altitudes: each waypoint without one keeps the
+ * altitude of the previous waypoint, and the first defaults to
+ * DEFAULT_ALTITUDE_M. Invalid mission actions are dropped.
+ */
+function resolveWaypointAltitudes(waypoints: Coordinate[]): Coordinate[] {
+  let previousAltitude = DEFAULT_ALTITUDE_M;
+  return waypoints.map((waypoint) => {
+    const alt =
+      typeof waypoint.alt === "number" && !isNaN(waypoint.alt)
+        ? waypoint.alt
+        : previousAltitude;
+    previousAltitude = alt;
+    const actions = parseMissionActions(waypoint.actions);
+    return actions.length > 0
+      ? { lat: waypoint.lat, lng: waypoint.lng, alt, actions }
+      : { lat: waypoint.lat, lng: waypoint.lng, alt };
+  });
+}
+
+/**
+ * Position of a waypoint, without its actions
+ */
+function toPosition(waypoint: Coordinate): Coordinate {
+  return { lat: waypoint.lat, lng: waypoint.lng, alt: waypoint.alt };
+}
+
+/**
+ * Calculates the geodesic distance in metres between two coordinates
+ */
+function calculateDistance(point1: Coordinate, point2: Coordinate): number {
+  return vincentyDistance(point1, point2);
+}
+
+/**
+ * Calculates the total distance in metres of a route through all waypoints
+ */
+function calculateTotalDistance(waypoints: Coordinate[]): number {
+  let totalDistance = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    totalDistance += calculateDistance(waypoints[i], waypoints[i + 1]);
+  }
+  return totalDistance;
+}
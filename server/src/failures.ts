@@ -0,0 +1,197 @@
+// failures.ts - Injected failures: link and GPS loss, motor and battery faults
+
+import {
+  ActiveLoss,
+  Coordinate,
+  Failure,
+  FailureState,
+  FailureType,
+  ScheduledFailure,
+  SimulationState,
+  WindVector,
+} from "./types";
+import { EARTH_RADIUS_M, toDegrees, toRadians } from "./geo";
+import { createRandomState, randomGaussian } from "./random";
+
+const FAILURE_TYPES: FailureType[] = [
+  "LINK_LOSS",
+  "GPS_LOSS",
+  "MOTOR_FAILURE",
+  "BATTERY_CELL_FAULT",
+];
+
+export const DEFAULT_FAILSAFE_TIMEOUT_S = 10;
+
+// Share of the charge lost with one cell of a four-cell pack
+export const DEFAULT_CELL_CAPACITY_LOSS = 0.25;
+
+// How quickly dead reckoning errors grow without GPS, in metres per second
+// squared, and the share of the wind the drone fails to correct for
+const DRIFT_ACCELERATION = 0.05;
+const UNCORRECTED_WIND = 0.2;
+
+// Seconds the drone takes to fly back onto its route once GPS returns
+const DRIFT_RECOVERY_TIME = 10;
+
+// Metres of drift small enough to count as back on the route
+const DRIFT_RECOVERED_M = 0.01;
+
+// Offset from the simulation seed so dead reckoning errors do not draw the
+// same numbers as the wind or GPS
+const FAILURE_SEED_OFFSET = 0x85ebca6b;
+
+/**
+ * Reads a failure from untrusted input, or returns null if it is invalid
+ */
+export function parseFailure(value: unknown): Failure | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  if (!FAILURE_TYPES.includes(data.type as FailureType)) return null;
+
+  const failure: Failure = { type: data.type as FailureType };
+  if (typeof data.duration === "number" && isFinite(data.duration) && data.duration > 0) {
+    failure.duration = data.duration;
+  }
+  if (
+    typeof data.capacityLoss === "number" &&
+    data.capacityLoss > 0 &&
+    data.capacityLoss <= 1
+  ) {
+    failure.capacityLoss = data.capacityLoss;
+  }
+  return failure;
+}
+
+/**
+ * Reads the failures to inject during a flight, dropping invalid ones, in
+ * the order they happen
+ */
+export function parseScheduledFailures(value: unknown): ScheduledFailure[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .flatMap((raw): ScheduledFailure[] => {
+      const failure = parseFailure(raw);
+      const time = (raw as Record<string, unknown>).time;
+      if (!failure || typeof time !== "number" || !isFinite(time) || time < 0) return [];
+      return [{ ...failure, time }];
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+export function createFailureState(
+  scheduled: ScheduledFailure[],
+  failsafeTimeout: number | undefined,
+  seed: number
+): FailureState {
+  return {
+    scheduled: [...scheduled],
+    failsafeTimeout:
+      typeof failsafeTimeout === "number" && failsafeTimeout >= 0
+        ? failsafeTimeout
+        : DEFAULT_FAILSAFE_TIMEOUT_S,
+    linkLoss: null,
+    failsafeTriggered: false,
+    gpsLoss: null,
+    motorFailed: false,
+    cellFaults: 0,
+    random: createRandomState(seed + FAILURE_SEED_OFFSET),
+    drift: { north: 0, east: 0 },
+    driftVelocity: { north: 0, east: 0 },
+  };
+}
+
+/**
+ * Removes and returns the scheduled failures due by the given time
+ */
+export function dueFailures(failures: FailureState, simTime: number): ScheduledFailure[] {
+  const due = failures.scheduled.filter((failure) => failure.time <= simTime);
+  failures.scheduled = failures.scheduled.slice(due.length);
+  return due;
+}
+
+/**
+ * Starts a loss of the link or GPS that recovers after the given duration
+ */
+export function startLoss(duration?: number): ActiveLoss {
+  return { elapsed: 0, remaining: duration ?? null };
+}
+
+/**
+ * Advances the link and GPS losses by dt seconds and returns the ones that
+ * have recovered
+ */
+export function advanceLosses(failures: FailureState, dt: number): FailureType[] {
+  const recovered: FailureType[] = [];
+
+  const advance = (loss: ActiveLoss | null, type: FailureType): ActiveLoss | null => {
+    if (!loss) return null;
+    loss.elapsed += dt;
+    if (loss.remaining === null) return loss;
+    loss.remaining -= dt;
+    if (loss.remaining > 0) return loss;
+    recovered.push(type);
+    return null;
+  };
+
+  failures.linkLoss = advance(failures.linkLoss, "LINK_LOSS");
+  failures.gpsLoss = advance(failures.gpsLoss, "GPS_LOSS");
+  if (!failures.linkLoss) failures.failsafeTriggered = false;
+  return recovered;
+}
+
+/**
+ * Moves the drone away from where it believes it is while it navigates by
+ * dead reckoning: errors in its velocity estimate wander at random and it
+ * cannot correct for part of the wind. Once GPS returns it flies back onto
+ * its route.
+ */
+export function updateDrift(failures: FailureState, wind: WindVector, dt: number): void {
+  const { drift, driftVelocity, random } = failures;
+
+  if (failures.gpsLoss) {
+    const spread = DRIFT_ACCELERATION * Math.sqrt(dt);
+    driftVelocity.north += spread * randomGaussian(random);
+    driftVelocity.east += spread * randomGaussian(random);
+    drift.north += (driftVelocity.north + wind.north * UNCORRECTED_WIND) * dt;
+    drift.east += (driftVelocity.east + wind.east * UNCORRECTED_WIND) * dt;
+    return;
+  }
+
+  const decay = Math.exp(-dt / DRIFT_RECOVERY_TIME);
+  const recovered = Math.hypot(drift.north, drift.east) * decay < DRIFT_RECOVERED_M;
+  failures.drift = recovered
+    ? { north: 0, east: 0 }
+    : { north: drift.north * decay, east: drift.east * decay };
+  failures.driftVelocity = { north: 0, east: 0 };
+}
+
+/**
+ * Where the drone really is: where it navigates to, offset by any drift
+ * built up without GPS
+ */
+export function truePosition(state: SimulationState): Coordinate {
+  const { currentPosition, failures } = state;
+  const { north, east } = failures.drift;
+  if (north === 0 && east === 0) return { ...currentPosition };
+
+  return {
+    ...currentPosition,
+    lat: currentPosition.lat + toDegrees(north / EARTH_RADIUS_M),
+    lng:
+      currentPosition.lng +
+      toDegrees(east / (EARTH_RADIUS_M * Math.cos(toRadians(currentPosition.lat)))),
+  };
+}
+
+/**
+ * Failures affecting the drone right now
+ */
+export function activeFailures(failures: FailureState): FailureType[] {
+  const active: FailureType[] = [];
+  if (failures.linkLoss) active.push("LINK_LOSS");
+  if (failures.gpsLoss) active.push("GPS_LOSS");
+  if (failures.motorFailed) active.push("MOTOR_FAILURE");
+  if (failures.cellFaults > 0) active.push("BATTERY_CELL_FAULT");
+  return active;
+}
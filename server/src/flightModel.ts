@@ -0,0 +1,188 @@
+// flightModel.ts - Vehicle performance presets and kinematic limits
+
+import { Coordinate, VehicleModel, VehicleType } from "./types";
+import { initialBearing } from "./geo";
+
+/**
+ * Performance presets for the supported vehicle types
+ */
+export const VEHICLE_PRESETS: Record<VehicleType, VehicleModel> = {
+  quadcopter: {
+    type: "quadcopter",
+    maxSpeed: 20,
+    minSpeed: 0,
+    acceleration: 4,
+    deceleration: 5,
+    maxYawRate: 90,
+    climbRate: 5,
+    descentRate: 3,
+    turnRadius: 5,
+  },
+  "fixed-wing": {
+    type: "fixed-wing",
+    maxSpeed: 35,
+    minSpeed: 12,
+    acceleration: 2,
+    deceleration: 2,
+    maxYawRate: 25,
+    climbRate: 4,
+    descentRate: 5,
+    turnRadius: 60,
+  },
+};
+
+/**
+ * Builds a vehicle model from a preset, applying any per-simulation overrides
+ */
+export function createVehicleModel(
+  type: VehicleType = "quadcopter",
+  overrides: Partial<VehicleModel> = {}
+): VehicleModel {
+  const preset = VEHICLE_PRESETS[type] || VEHICLE_PRESETS.quadcopter;
+  return { ...preset, ...overrides, type: preset.type };
+}
+
+/**
+ * Why a vehicle model cannot be flown, or null if it can. A rate of zero or
+ * less would leave the drone unable to reach its speed, heading or altitude.
+ */
+export function vehicleModelError(model: VehicleModel): string | null {
+  const rates = [
+    "maxSpeed",
+    "acceleration",
+    "deceleration",
+    "maxYawRate",
+    "climbRate",
+    "descentRate",
+  ] as const;
+  const invalid = rates.find((key) => !(model[key] > 0 && isFinite(model[key])));
+  if (invalid) return `vehicle.${invalid} must be a positive number`;
+
+  if (!(model.minSpeed >= 0 && model.minSpeed <= model.maxSpeed)) {
+    return "vehicle.minSpeed must be from 0 to the maximum speed";
+  }
+  if (!(model.turnRadius >= 0)) return "vehicle.turnRadius must be a number of at least 0";
+  return null;
+}
+
+export function isVehicleType(value: unknown): value is VehicleType {
+  return typeof value === "string" && value in VEHICLE_PRESETS;
+}
+
+/**
+ * Smallest signed difference between two headings, in degrees (-180, 180]
+ */
+export function headingDifference(from: number, to: number): number {
+  const diff = (((to - from) % 360) + 540) % 360 - 180;
+  return diff === -180 ? 180 : diff;
+}
+
+/**
+ * Turns the current heading towards the target, limited by the yaw rate
+ */
+export function turnTowards(
+  model: VehicleModel,
+  heading: number,
+  targetHeading: number,
+  dt: number
+): number {
+  const diff = headingDifference(heading, targetHeading);
+  const maxTurn = model.maxYawRate * dt;
+  const turn = Math.max(-maxTurn, Math.min(maxTurn, diff));
+  return (((heading + turn) % 360) + 360) % 360;
+}
+
+/**
+ * Moves the current speed towards the target, limited by the
+ * acceleration and deceleration of the vehicle
+ */
+export function approachSpeed(
+  model: VehicleModel,
+  currentSpeed: number,
+  targetSpeed: number,
+  dt: number
+): number {
+  if (targetSpeed > currentSpeed) {
+    return Math.min(targetSpeed, currentSpeed + model.acceleration * dt);
+  }
+  return Math.max(targetSpeed, currentSpeed - model.deceleration * dt);
+}
+
+/**
+ * Heading change in degrees at a corner between the inbound leg from the
+ * previous waypoint and the outbound leg to the next. Returns 180 when there
+ * is no next waypoint, where the vehicle stops.
+ */
+export function turnAngle(
+  previous: Coordinate,
+  corner: Coordinate,
+  next: Coordinate | undefined
+): number {
+  if (!next) return 180;
+
+  const inbound = initialBearing(previous, corner);
+  const outbound = initialBearing(corner, next);
+  return Math.abs(headingDifference(inbound, outbound));
+}
+
+/**
+ * Fastest speed at which the vehicle can pass a corner of the given turn
+ * angle: at the maximum yaw rate, the heading change has to complete while
+ * the vehicle is still within its turn radius of the waypoint. A full
+ * reversal brings a multirotor to a stop.
+ */
+export function cornerSpeed(
+  model: VehicleModel,
+  turnAngle: number,
+  cruiseSpeed: number
+): number {
+  if (turnAngle <= 0) return cruiseSpeed;
+  if (turnAngle >= 180) return model.minSpeed;
+
+  const turnTime = turnAngle / model.maxYawRate;
+  const speed = model.turnRadius / turnTime;
+  return Math.max(model.minSpeed, Math.min(cruiseSpeed, speed));
+}
+
+/**
+ * Highest speed from which the vehicle can still slow down to exitSpeed
+ * within the given distance
+ */
+export function brakingSpeed(
+  model: VehicleModel,
+  distance: number,
+  exitSpeed: number
+): number {
+  return Math.sqrt(exitSpeed * exitSpeed + 2 * model.deceleration * Math.max(distance, 0));
+}
+
+/**
+ * Moves the current altitude towards the target, limited by the climb and
+ * descent rates of the vehicle
+ */
+export function approachAltitude(
+  model: VehicleModel,
+  currentAltitude: number,
+  targetAltitude: number,
+  dt: number
+): number {
+  if (targetAltitude > currentAltitude) {
+    return Math.min(targetAltitude, currentAltitude + model.climbRate * dt);
+  }
+  return Math.max(targetAltitude, currentAltitude - model.descentRate * dt);
+}
+
+/**
+ * Highest horizontal speed at which the vehicle can still complete the given
+ * altitude change before covering the given distance
+ */
+export function climbSpeedLimit(
+  model: VehicleModel,
+  altitudeChange: number,
+  distance: number
+): number {
+  const rate = altitudeChange > 0 ? model.climbRate : model.descentRate;
+  const climbTime = Math.abs(altitudeChange) / rate;
+  if (climbTime <= 0) return Infinity;
+  return Math.max(distance, 0) / climbTime;
+}
@@ -0,0 +1,80 @@
+// flightSummary.ts - Flies missions headless and sums up how they went
+//
+// A mission is stepped to the end as fast as possible and boiled down to a
+// summary as it flies, so even a long flight never holds more than its
+// events in memory. The same mission and seed always sum up the same.
+
+import {
+  FlightOutcome,
+  FlightSummary,
+  LegSummary,
+  SimulationConfig,
+  SimulationState,
+} from "./types";
+import type { SimulationEventMessage, TelemetryFrame } from "./protocol";
+import { createSimulationState } from "./engine";
+import { runToCompletion } from "./clock";
+
+/**
+ * Flies a mission to completion, or for at most maxDuration seconds of
+ * simulated time, and sums up the flight
+ */
+export async function summarizeFlight(
+  config: SimulationConfig,
+  name: string,
+  maxDuration?: number
+): Promise<FlightSummary> {
+  const state = createSimulationState(config);
+  const startingWh = state.battery.remainingWh;
+
+  const legs: LegSummary[] = [];
+  const events: SimulationEventMessage[] = [];
+  let maxSpeed = 0;
+
+  // The waypoint last reached, and where and when the drone reached it
+  let leg = { from: state.currentWaypointIndex, lap: state.lap, time: 0, distance: 0 };
+
+  const onFrame = (frame: TelemetryFrame) => {
+    maxSpeed = Math.max(maxSpeed, frame.groundSpeed);
+
+    // Only waypoints reached while flying the mission end a leg; a
+    // failsafe replaces the route with one of its own
+    if (frame.flightMode !== "MISSION" || frame.currentWaypoint === leg.from) return;
+    legs.push({
+      from: leg.from,
+      to: frame.currentWaypoint,
+      lap: leg.lap,
+      duration: frame.time - leg.time,
+      distance: frame.distanceFlown - leg.distance,
+    });
+    leg = {
+      from: frame.currentWaypoint,
+      lap: frame.lap,
+      time: frame.time,
+      distance: frame.distanceFlown,
+    };
+  };
+
+  await runToCompletion(state, name, { onFrame, onEvent: (event) => events.push(event) }, maxDuration);
+
+  return {
+    name,
+    outcome: flightOutcome(state),
+    flightMode: state.flightMode,
+    duration: state.simTime,
+    distance: state.distanceFlown,
+    maxSpeed,
+    averageSpeed: state.simTime > 0 ? state.distanceFlown / state.simTime : 0,
+    legs,
+    energyUsedWh: startingWh - state.battery.remainingWh,
+    batteryRemainingWh: state.battery.remainingWh,
+    stateOfCharge: state.battery.stateOfCharge,
+    events,
+  };
+}
+
+function flightOutcome(state: SimulationState): FlightOutcome {
+  if (state.battery.level === "DEPLETED") return "BATTERY_DEPLETED";
+  if (state.isComplete) return state.flightMode === "MISSION" ? "COMPLETED" : "ABORTED";
+  return state.flightMode === "HOLD" ? "HOLDING" : "TIMED_OUT";
+}
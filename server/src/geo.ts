@@ -0,0 +1,204 @@
+// geo.ts - Geodesic helpers for distances, bearings and great-circle paths
+
+import { Coordinate } from "./types";
+
+/**
+ * Mean Earth radius in metres, used by the spherical formulas
+ */
+export const EARTH_RADIUS_M = 6371008.8;
+
+// WGS-84 ellipsoid parameters used by the Vincenty formula
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+const VINCENTY_MAX_ITERATIONS = 200;
+const VINCENTY_TOLERANCE = 1e-12;
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Normalises a bearing in degrees to the range [0, 360)
+ */
+export function normalizeBearing(bearing: number): number {
+  return ((bearing % 360) + 360) % 360;
+}
+
+/**
+ * Angular distance in radians between two points on a sphere
+ */
+function angularDistance(point1: Coordinate, point2: Coordinate): number {
+  const lat1 = toRadians(point1.lat);
+  const lat2 = toRadians(point2.lat);
+  const dLat = lat2 - lat1;
+  const dLng = toRadians(point2.lng - point1.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Great-circle distance in metres using the Haversine formula
+ */
+export function haversineDistance(point1: Coordinate, point2: Coordinate): number {
+  return EARTH_RADIUS_M * angularDistance(point1, point2);
+}
+
+/**
+ * Ellipsoidal distance in metres on WGS-84 using Vincenty's inverse formula.
+ * Falls back to Haversine for nearly antipodal points where the iteration
+ * does not converge.
+ */
+export function vincentyDistance(point1: Coordinate, point2: Coordinate): number {
+  const L = toRadians(point2.lng - point1.lng);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(point1.lat)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(point2.lat)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cosSqAlpha = 0;
+  let cos2SigmaM = 0;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 +
+        (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+
+    // Coincident points
+    if (sinSigma === 0) return 0;
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Equatorial line: cosSqAlpha = 0
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    const lambdaPrev = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma +
+          C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - lambdaPrev) < VINCENTY_TOLERANCE) {
+      const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+              (B / 6) *
+                cos2SigmaM *
+                (-3 + 4 * sinSigma * sinSigma) *
+                (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+
+  return haversineDistance(point1, point2);
+}
+
+/**
+ * Initial great-circle bearing from point1 towards point2, in degrees [0, 360)
+ */
+export function initialBearing(point1: Coordinate, point2: Coordinate): number {
+  const lat1 = toRadians(point1.lat);
+  const lat2 = toRadians(point2.lat);
+  const dLng = toRadians(point2.lng - point1.lng);
+
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return normalizeBearing(toDegrees(Math.atan2(y, x)));
+}
+
+/**
+ * Returns the point at the given fraction (0..1) along the great circle
+ * between point1 and point2
+ */
+export function interpolateGreatCircle(
+  point1: Coordinate,
+  point2: Coordinate,
+  fraction: number
+): Coordinate {
+  const delta = angularDistance(point1, point2);
+
+  // Points are too close together for the spherical formula to be stable
+  if (delta < 1e-12) {
+    return { lat: point1.lat, lng: point1.lng };
+  }
+
+  const lat1 = toRadians(point1.lat);
+  const lng1 = toRadians(point1.lng);
+  const lat2 = toRadians(point2.lat);
+  const lng2 = toRadians(point2.lng);
+
+  const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const b = Math.sin(fraction * delta) / Math.sin(delta);
+
+  const x = a * Math.cos(lat1) * Math.cos(lng1) + b * Math.cos(lat2) * Math.cos(lng2);
+  const y = a * Math.cos(lat1) * Math.sin(lng1) + b * Math.cos(lat2) * Math.sin(lng2);
+  const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+  return {
+    lat: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    lng: toDegrees(Math.atan2(y, x)),
+  };
+}
+
+/**
+ * Returns the point reached by travelling the given distance in metres from
+ * origin along a great circle with the given initial bearing
+ */
+export function destinationPoint(
+  origin: Coordinate,
+  bearing: number,
+  distance: number
+): Coordinate {
+  const delta = distance / EARTH_RADIUS_M;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) +
+      Math.cos(lat1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+      Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return {
+    lat: toDegrees(lat2),
+    // Wrap longitude back into [-180, 180)
+    lng: ((toDegrees(lng2) + 540) % 360) - 180,
+  };
+}
@@ -0,0 +1,150 @@
+// geofence.ts - Geofence geometry, validation and breach detection
+
+import {
+  Coordinate,
+  Geofence,
+  GeofenceAction,
+  GeofenceKind,
+  GeofenceShape,
+  SimulationState,
+} from "./types";
+import { haversineDistance } from "./geo";
+import { truePosition } from "./failures";
+
+const GEOFENCE_KINDS: GeofenceKind[] = ["inclusion", "exclusion"];
+const GEOFENCE_ACTIONS: GeofenceAction[] = ["warn", "hold", "rtl"];
+
+/**
+ * Whether a point lies inside a polygon, by counting how many edges a ray
+ * running east from the point crosses. Edges are treated as straight lines
+ * in latitude and longitude, which is accurate enough for fences of a few
+ * kilometres.
+ */
+function insidePolygon(point: Coordinate, polygon: Coordinate[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a position lies within the area and altitude band of a fence
+ */
+export function geofenceContains(
+  fence: Geofence,
+  position: Coordinate,
+  altitude: number
+): boolean {
+  if (fence.floor !== undefined && altitude < fence.floor) return false;
+  if (fence.ceiling !== undefined && altitude > fence.ceiling) return false;
+
+  const { shape } = fence;
+  if (shape.type === "circle") {
+    return haversineDistance(shape.center, position) <= shape.radius;
+  }
+  return insidePolygon(position, shape.points);
+}
+
+/**
+ * Whether being at a position breaks the rule of a fence: inside an
+ * exclusion zone, or outside an inclusion zone
+ */
+export function breachesGeofence(
+  fence: Geofence,
+  position: Coordinate,
+  altitude: number
+): boolean {
+  const inside = geofenceContains(fence, position, altitude);
+  return fence.kind === "exclusion" ? inside : !inside;
+}
+
+/**
+ * Updates which fences the drone is breaching and returns the fences it has
+ * breached since the last check
+ */
+export function checkGeofences(state: SimulationState): Geofence[] {
+  const position = truePosition(state);
+  const breached = state.geofences.filter((fence) =>
+    breachesGeofence(fence, position, state.altitude)
+  );
+  const newBreaches = breached.filter(
+    (fence) => !state.breachedGeofences.includes(fence.id)
+  );
+  state.breachedGeofences = breached.map((fence) => fence.id);
+  return newBreaches;
+}
+
+/**
+ * Reads a geofence definition from untrusted input. Returns the fence
+ * without its id, or an error message describing what is wrong.
+ */
+export function parseGeofence(
+  value: unknown
+): { fence: Omit<Geofence, "id"> } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "Geofence must be an object" };
+  const data = value as Record<string, unknown>;
+
+  const isPoint = (point: unknown): point is Coordinate =>
+    !!point &&
+    typeof (point as Coordinate).lat === "number" &&
+    typeof (point as Coordinate).lng === "number";
+  const optionalNumber = (n: unknown) => n === undefined || (typeof n === "number" && isFinite(n));
+
+  if (!GEOFENCE_KINDS.includes(data.kind as GeofenceKind)) {
+    return { error: "kind must be 'inclusion' or 'exclusion'" };
+  }
+  const action = data.action === undefined ? "warn" : data.action;
+  if (!GEOFENCE_ACTIONS.includes(action as GeofenceAction)) {
+    return { error: "action must be 'warn', 'hold' or 'rtl'" };
+  }
+  if (!optionalNumber(data.floor) || !optionalNumber(data.ceiling)) {
+    return { error: "floor and ceiling must be numbers" };
+  }
+  if (
+    data.floor !== undefined &&
+    data.ceiling !== undefined &&
+    (data.floor as number) > (data.ceiling as number)
+  ) {
+    return { error: "floor must not be above the ceiling" };
+  }
+
+  const rawShape = data.shape as Record<string, unknown> | undefined;
+  let shape: GeofenceShape;
+  if (rawShape?.type === "polygon") {
+    const points = rawShape.points;
+    if (!Array.isArray(points) || points.length < 3 || !points.every(isPoint)) {
+      return { error: "A polygon needs at least three {lat, lng} points" };
+    }
+    shape = {
+      type: "polygon",
+      points: points.map((point) => ({ lat: point.lat, lng: point.lng })),
+    };
+  } else if (rawShape?.type === "circle") {
+    const { center, radius } = rawShape;
+    if (!isPoint(center) || typeof radius !== "number" || !(radius > 0)) {
+      return { error: "A circle needs a {lat, lng} center and a positive radius" };
+    }
+    shape = { type: "circle", center: { lat: center.lat, lng: center.lng }, radius };
+  } else {
+    return { error: "shape.type must be 'polygon' or 'circle'" };
+  }
+
+  return {
+    fence: {
+      name: typeof data.name === "string" && data.name.trim() ? data.name.trim() : "Geofence",
+      kind: data.kind as GeofenceKind,
+      shape,
+      floor: data.floor as number | undefined,
+      ceiling: data.ceiling as number | undefined,
+      action: action as GeofenceAction,
+    },
+  };
+}
@@ -0,0 +1,141 @@
+// gps.ts - Simulated GPS receiver with noise, bias drift and dropouts
+
+import { Coordinate, GpsConfig, GpsState } from "./types";
+import { EARTH_RADIUS_M, haversineDistance, toDegrees, toRadians } from "./geo";
+import { createRandomState, nextRandom, randomBetween, randomGaussian } from "./random";
+
+// Ranging error in metres that the dilution of precision scales
+const UERE_M = 2.5;
+
+// Vertical fixes are less precise than horizontal ones
+const VDOP_RATIO = 1.5;
+
+// Seconds over which the bias wanders, as a first-order Gauss-Markov process
+const BIAS_TIME_CONSTANT = 60;
+
+// Fewest satellites that give a position fix
+const MIN_SATELLITES = 4;
+
+// Offset from the simulation seed so the receiver does not draw the same
+// numbers as the wind
+const GPS_SEED_OFFSET = 0x9e3779b9;
+
+export const DEFAULT_GPS_CONFIG: GpsConfig = {
+  hdop: 0.9,
+  satellites: 12,
+  biasDrift: 1,
+  updateRate: 5,
+  dropoutRate: 0,
+  dropoutDuration: 5,
+};
+
+/**
+ * Builds a receiver from the given settings, falling back to the defaults
+ * for missing or invalid ones
+ */
+export function createGpsState(
+  config: Partial<GpsConfig> = {},
+  seed: number,
+  position: Coordinate
+): GpsState {
+  const merged: GpsConfig = { ...DEFAULT_GPS_CONFIG };
+  (Object.keys(DEFAULT_GPS_CONFIG) as (keyof GpsConfig)[]).forEach((key) => {
+    const value = config[key];
+    if (typeof value === "number" && isFinite(value) && value >= 0) merged[key] = value;
+  });
+  merged.updateRate = Math.max(merged.updateRate, 0.1);
+
+  return {
+    config: merged,
+    random: createRandomState(seed + GPS_SEED_OFFSET),
+    bias: { north: 0, east: 0, up: 0 },
+    timeToNextFix: 0,
+    dropoutRemaining: 0,
+    hasFix: merged.satellites >= MIN_SATELLITES,
+    estimate: { ...position },
+    fixTime: 0,
+  };
+}
+
+/**
+ * Offsets a position by the given number of metres north, east and up
+ */
+function offsetPosition(
+  position: Coordinate,
+  north: number,
+  east: number,
+  up: number
+): Coordinate {
+  return {
+    lat: position.lat + toDegrees(north / EARTH_RADIUS_M),
+    lng:
+      position.lng +
+      toDegrees(east / (EARTH_RADIUS_M * Math.cos(toRadians(position.lat)))),
+    alt: (position.alt ?? 0) + up,
+  };
+}
+
+/**
+ * Advances the receiver by dt seconds. The bias wanders continuously; a new
+ * fix with fresh noise is taken at the update rate unless the receiver is in
+ * a dropout, sees too few satellites or has lost the signal, in which case
+ * the last fix is held.
+ */
+export function updateGps(
+  gps: GpsState,
+  position: Coordinate,
+  signalLost: boolean,
+  simTime: number,
+  dt: number
+): void {
+  const { config, random } = gps;
+
+  // Gauss-Markov bias with a steady-state size of biasDrift
+  const decay = Math.exp(-dt / BIAS_TIME_CONSTANT);
+  const diffusion = config.biasDrift * Math.sqrt(1 - decay * decay);
+  gps.bias = {
+    north: gps.bias.north * decay + diffusion * randomGaussian(random),
+    east: gps.bias.east * decay + diffusion * randomGaussian(random),
+    up: gps.bias.up * decay + VDOP_RATIO * diffusion * randomGaussian(random),
+  };
+
+  gps.dropoutRemaining = Math.max(gps.dropoutRemaining - dt, 0);
+  gps.timeToNextFix -= dt;
+  if (gps.timeToNextFix > 0) return;
+
+  const interval = 1 / config.updateRate;
+  gps.timeToNextFix += interval;
+
+  if (
+    gps.dropoutRemaining === 0 &&
+    nextRandom(random) < (config.dropoutRate / 60) * interval
+  ) {
+    gps.dropoutRemaining = config.dropoutDuration * randomBetween(random, 0.5, 1.5);
+  }
+
+  gps.hasFix =
+    !signalLost && gps.dropoutRemaining === 0 && config.satellites >= MIN_SATELLITES;
+  if (!gps.hasFix) return;
+
+  const sigma = config.hdop * UERE_M;
+  gps.estimate = offsetPosition(
+    position,
+    gps.bias.north + sigma * randomGaussian(random),
+    gps.bias.east + sigma * randomGaussian(random),
+    gps.bias.up + VDOP_RATIO * sigma * randomGaussian(random)
+  );
+  gps.fixTime = simTime;
+}
+
+/**
+ * Receiver status reported in telemetry
+ */
+export function gpsStatus(gps: GpsState, position: Coordinate, simTime: number) {
+  return {
+    fix: gps.hasFix,
+    satellites: gps.hasFix ? gps.config.satellites : 0,
+    hdop: gps.config.hdop,
+    fixAge: simTime - gps.fixTime,
+    error: haversineDistance(gps.estimate, position),
+  };
+}
@@ -0,0 +1,395 @@
+// mavlink.ts - MAVLink v2 framing and the common messages the bridge speaks
+//
+// Only the messages a ground control station needs to show a vehicle,
+// upload a mission to it and command it are defined. Fields are listed in
+// wire order: largest types first, then any extensions. v1 frames are read
+// as well, since ground stations send them until they see v2 traffic.
+
+const MAVLINK_V2_MAGIC = 0xfd;
+const MAVLINK_V1_MAGIC = 0xfe;
+const V2_HEADER_LENGTH = 10;
+const V1_HEADER_LENGTH = 6;
+const CHECKSUM_LENGTH = 2;
+const SIGNATURE_LENGTH = 13;
+const INCOMPAT_FLAG_SIGNED = 0x01;
+
+type FieldType = "uint8" | "int8" | "uint16" | "int16" | "uint32" | "int32" | "float";
+
+const FIELD_SIZES: Record<FieldType, number> = {
+  uint8: 1,
+  int8: 1,
+  uint16: 2,
+  int16: 2,
+  uint32: 4,
+  int32: 4,
+  float: 4,
+};
+
+// Message ids, the checksum seed derived from each message's definition,
+// and its fields
+const MESSAGES = {
+  HEARTBEAT: {
+    id: 0,
+    crcExtra: 50,
+    fields: [
+      ["custom_mode", "uint32"],
+      ["type", "uint8"],
+      ["autopilot", "uint8"],
+      ["base_mode", "uint8"],
+      ["system_status", "uint8"],
+      ["mavlink_version", "uint8"],
+    ],
+  },
+  SYS_STATUS: {
+    id: 1,
+    crcExtra: 124,
+    fields: [
+      ["onboard_control_sensors_present", "uint32"],
+      ["onboard_control_sensors_enabled", "uint32"],
+      ["onboard_control_sensors_health", "uint32"],
+      ["load", "uint16"],
+      ["voltage_battery", "uint16"],
+      ["current_battery", "int16"],
+      ["drop_rate_comm", "uint16"],
+      ["errors_comm", "uint16"],
+      ["errors_count1", "uint16"],
+      ["errors_count2", "uint16"],
+      ["errors_count3", "uint16"],
+      ["errors_count4", "uint16"],
+      ["battery_remaining", "int8"],
+    ],
+  },
+  ATTITUDE: {
+    id: 30,
+    crcExtra: 39,
+    fields: [
+      ["time_boot_ms", "uint32"],
+      ["roll", "float"],
+      ["pitch", "float"],
+      ["yaw", "float"],
+      ["rollspeed", "float"],
+      ["pitchspeed", "float"],
+      ["yawspeed", "float"],
+    ],
+  },
+  GLOBAL_POSITION_INT: {
+    id: 33,
+    crcExtra: 104,
+    fields: [
+      ["time_boot_ms", "uint32"],
+      ["lat", "int32"],
+      ["lon", "int32"],
+      ["alt", "int32"],
+      ["relative_alt", "int32"],
+      ["vx", "int16"],
+      ["vy", "int16"],
+      ["vz", "int16"],
+      ["hdg", "uint16"],
+    ],
+  },
+  MISSION_CURRENT: {
+    id: 42,
+    crcExtra: 28,
+    fields: [["seq", "uint16"]],
+  },
+  MISSION_COUNT: {
+    id: 44,
+    crcExtra: 221,
+    fields: [
+      ["count", "uint16"],
+      ["target_system", "uint8"],
+      ["target_component", "uint8"],
+      ["mission_type", "uint8"],
+    ],
+  },
+  MISSION_ACK: {
+    id: 47,
+    crcExtra: 153,
+    fields: [
+      ["target_system", "uint8"],
+      ["target_component", "uint8"],
+      ["type", "uint8"],
+      ["mission_type", "uint8"],
+    ],
+  },
+  MISSION_REQUEST_INT: {
+    id: 51,
+    crcExtra: 196,
+    fields: [
+      ["seq", "uint16"],
+      ["target_system", "uint8"],
+      ["target_component", "uint8"],
+      ["mission_type", "uint8"],
+    ],
+  },
+  MISSION_ITEM_INT: {
+    id: 73,
+    crcExtra: 38,
+    fields: [
+      ["param1", "float"],
+      ["param2", "float"],
+      ["param3", "float"],
+      ["param4", "float"],
+      ["x", "int32"],
+      ["y", "int32"],
+      ["z", "float"],
+      ["seq", "uint16"],
+      ["command", "uint16"],
+      ["target_system", "uint8"],
+      ["target_component", "uint8"],
+      ["frame", "uint8"],
+      ["current", "uint8"],
+      ["autocontinue", "uint8"],
+      ["mission_type", "uint8"],
+    ],
+  },
+  COMMAND_LONG: {
+    id: 76,
+    crcExtra: 152,
+    fields: [
+      ["param1", "float"],
+      ["param2", "float"],
+      ["param3", "float"],
+      ["param4", "float"],
+      ["param5", "float"],
+      ["param6", "float"],
+      ["param7", "float"],
+      ["command", "uint16"],
+      ["target_system", "uint8"],
+      ["target_component", "uint8"],
+      ["confirmation", "uint8"],
+    ],
+  },
+  COMMAND_ACK: {
+    id: 77,
+    crcExtra: 143,
+    fields: [
+      ["command", "uint16"],
+      ["result", "uint8"],
+      ["progress", "uint8"],
+      ["result_param2", "int32"],
+      ["target_system", "uint8"],
+      ["target_component", "uint8"],
+    ],
+  },
+} as const;
+
+type Messages = typeof MESSAGES;
+export type MavlinkMessageName = keyof Messages;
+
+// A message of one type, each field a number
+export type MavlinkMessageOf<N extends MavlinkMessageName> = { name: N } & {
+  [F in Messages[N]["fields"][number][0]]: number;
+};
+
+export type MavlinkMessage = { [N in MavlinkMessageName]: MavlinkMessageOf<N> }[MavlinkMessageName];
+
+// A message to send; fields left out are sent as zero
+export type MavlinkMessageInit = {
+  [N in MavlinkMessageName]: { name: N } & Partial<Omit<MavlinkMessageOf<N>, "name">>;
+}[MavlinkMessageName];
+
+// A received message and the system and component that sent it
+export interface MavlinkFrame {
+  systemId: number;
+  componentId: number;
+  sequence: number;
+  message: MavlinkMessage;
+}
+
+const MESSAGES_BY_ID = new Map<number, MavlinkMessageName>(
+  (Object.keys(MESSAGES) as MavlinkMessageName[]).map((name) => [MESSAGES[name].id, name])
+);
+
+// Enumerations used by the bridge
+
+export const MAV_TYPE = { FIXED_WING: 1, QUADROTOR: 2 } as const;
+export const MAV_AUTOPILOT_GENERIC = 0;
+export const MAV_MODE_FLAG = {
+  CUSTOM_MODE_ENABLED: 1,
+  AUTO_ENABLED: 4,
+  GUIDED_ENABLED: 8,
+  SAFETY_ARMED: 128,
+} as const;
+export const MAV_STATE = { STANDBY: 3, ACTIVE: 4 } as const;
+export const MAV_SYS_STATUS_SENSOR_GPS = 0x20;
+
+export const MAV_CMD = {
+  NAV_WAYPOINT: 16,
+  NAV_LOITER_TIME: 19,
+  NAV_RETURN_TO_LAUNCH: 20,
+  NAV_LAND: 21,
+  NAV_TAKEOFF: 22,
+  DO_PAUSE_CONTINUE: 193,
+  MISSION_START: 300,
+  COMPONENT_ARM_DISARM: 400,
+} as const;
+
+export const MAV_RESULT = { ACCEPTED: 0, DENIED: 2, UNSUPPORTED: 3 } as const;
+
+export const MAV_FRAME = {
+  GLOBAL: 0,
+  GLOBAL_RELATIVE_ALT: 3,
+  GLOBAL_INT: 5,
+  GLOBAL_RELATIVE_ALT_INT: 6,
+} as const;
+
+export const MAV_MISSION_TYPE_MISSION = 0;
+export const MAV_MISSION_RESULT = {
+  ACCEPTED: 0,
+  ERROR: 1,
+  UNSUPPORTED_FRAME: 2,
+  UNSUPPORTED: 3,
+  INVALID_SEQUENCE: 13,
+} as const;
+
+// Encoding
+
+/**
+ * Builds a v2 frame for a message. Trailing zero bytes of the payload are
+ * left off, as the protocol requires.
+ */
+export function encodeMavlinkFrame(
+  message: MavlinkMessageInit,
+  header: { sequence: number; systemId: number; componentId: number }
+): Buffer {
+  const definition = MESSAGES[message.name];
+  const fields = message as unknown as Record<string, number | undefined>;
+
+  const payload = Buffer.alloc(payloadLength(message.name));
+  let offset = 0;
+  definition.fields.forEach(([field, type]) => {
+    writeField(payload, offset, type, fields[field] ?? 0);
+    offset += FIELD_SIZES[type];
+  });
+  let length = payload.length;
+  while (length > 1 && payload[length - 1] === 0) length--;
+
+  const frame = Buffer.alloc(V2_HEADER_LENGTH + length + CHECKSUM_LENGTH);
+  frame[0] = MAVLINK_V2_MAGIC;
+  frame[1] = length;
+  frame[2] = 0; // Incompatibility flags
+  frame[3] = 0; // Compatibility flags
+  frame[4] = header.sequence & 0xff;
+  frame[5] = header.systemId;
+  frame[6] = header.componentId;
+  frame.writeUIntLE(definition.id, 7, 3);
+  payload.copy(frame, V2_HEADER_LENGTH, 0, length);
+
+  const checksum = frameChecksum(frame, 1, V2_HEADER_LENGTH + length, definition.crcExtra);
+  frame.writeUInt16LE(checksum, V2_HEADER_LENGTH + length);
+  return frame;
+}
+
+function writeField(buffer: Buffer, offset: number, type: FieldType, value: number): void {
+  if (type === "float") {
+    buffer.writeFloatLE(isFinite(value) ? value : 0, offset);
+    return;
+  }
+  const size = FIELD_SIZES[type];
+  const signed = type.startsWith("int");
+  const max = signed ? 2 ** (size * 8 - 1) - 1 : 2 ** (size * 8) - 1;
+  const min = signed ? -(2 ** (size * 8 - 1)) : 0;
+  const integer = Math.max(min, Math.min(max, Math.round(isFinite(value) ? value : 0)));
+  if (signed) buffer.writeIntLE(integer, offset, size);
+  else buffer.writeUIntLE(integer, offset, size);
+}
+
+// Decoding
+
+/**
+ * Reads every frame of a message this module defines from a datagram.
+ * Frames that fail their checksum, and messages it does not know, are
+ * skipped. Signatures are not checked.
+ */
+export function decodeMavlinkFrames(data: Buffer): MavlinkFrame[] {
+  const frames: MavlinkFrame[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const magic = data[offset];
+    if (magic !== MAVLINK_V2_MAGIC && magic !== MAVLINK_V1_MAGIC) {
+      offset++;
+      continue;
+    }
+
+    const isV2 = magic === MAVLINK_V2_MAGIC;
+    const headerLength = isV2 ? V2_HEADER_LENGTH : V1_HEADER_LENGTH;
+    if (offset + headerLength > data.length) break;
+
+    const length = data[offset + 1];
+    const signed = isV2 && (data[offset + 2] & INCOMPAT_FLAG_SIGNED) !== 0;
+    const frameLength =
+      headerLength + length + CHECKSUM_LENGTH + (signed ? SIGNATURE_LENGTH : 0);
+    if (offset + frameLength > data.length) break;
+
+    const messageId = isV2 ? data.readUIntLE(offset + 7, 3) : data[offset + 5];
+    const name = MESSAGES_BY_ID.get(messageId);
+    const end = offset + headerLength + length;
+    if (
+      !name ||
+      frameChecksum(data, offset + 1, end, MESSAGES[name].crcExtra) !== data.readUInt16LE(end)
+    ) {
+      offset++;
+      continue;
+    }
+
+    frames.push({
+      systemId: data[offset + (isV2 ? 5 : 3)],
+      componentId: data[offset + (isV2 ? 6 : 4)],
+      sequence: data[offset + (isV2 ? 4 : 2)],
+      message: decodePayload(name, data.subarray(offset + headerLength, end)),
+    });
+    offset += frameLength;
+  }
+
+  return frames;
+}
+
+/**
+ * Reads a message's fields from its payload, which may have had trailing
+ * zeros, or extensions the sender does not know, left off
+ */
+function decodePayload(name: MavlinkMessageName, data: Buffer): MavlinkMessage {
+  const payload = Buffer.alloc(Math.max(payloadLength(name), data.length));
+  data.copy(payload);
+
+  const message: Record<string, number | string> = { name };
+  let offset = 0;
+  MESSAGES[name].fields.forEach(([field, type]) => {
+    message[field] = readField(payload, offset, type);
+    offset += FIELD_SIZES[type];
+  });
+  return message as unknown as MavlinkMessage;
+}
+
+function readField(buffer: Buffer, offset: number, type: FieldType): number {
+  if (type === "float") return buffer.readFloatLE(offset);
+  const size = FIELD_SIZES[type];
+  return type.startsWith("int") ? buffer.readIntLE(offset, size) : buffer.readUIntLE(offset, size);
+}
+
+// Utility Functions
+
+function payloadLength(name: MavlinkMessageName): number {
+  return MESSAGES[name].fields.reduce(
+    (length: number, [, type]) => length + FIELD_SIZES[type as FieldType],
+    0
+  );
+}
+
+/**
+ * CRC-16/MCRF4XX of a frame from after the magic byte to the end of the
+ * payload, seeded with the message's checksum extra
+ */
+function frameChecksum(data: Buffer, start: number, end: number, crcExtra: number): number {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) crc = crcAccumulate(data[i], crc);
+  return crcAccumulate(crcExtra, crc);
+}
+
+function crcAccumulate(byte: number, crc: number): number {
+  let tmp = byte ^ (crc & 0xff);
+  tmp = (tmp ^ (tmp << 4)) & 0xff;
+  return ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xffff;
+}
@@ -0,0 +1,549 @@
+// mavlinkBridge.ts - Simulations as MAVLink vehicles for ground control stations
+//
+// Each simulation is shown as a vehicle with its own system id. Position and
+// attitude are streamed several times a second, and the heartbeat, status
+// and mission progress once a second. Ground stations can upload a mission
+// to a vehicle and arm it to fly it, pause and continue, return to launch,
+// and disarm to stop. A drone that has lost its link goes quiet.
+
+import dgram from "dgram";
+
+import {
+  AltitudeReference,
+  Coordinate,
+  GcsCommand,
+  MavlinkBridge,
+  MavlinkBridgeConfig,
+  MavlinkVehicle,
+  MissionAction,
+  MissionUpload,
+  MonitoredDrone,
+  SimulationState,
+  UdpEndpoint,
+} from "./types";
+import {
+  MAV_AUTOPILOT_GENERIC,
+  MAV_CMD,
+  MAV_FRAME,
+  MAV_MISSION_RESULT,
+  MAV_MISSION_TYPE_MISSION,
+  MAV_MODE_FLAG,
+  MAV_RESULT,
+  MAV_STATE,
+  MAV_SYS_STATUS_SENSOR_GPS,
+  MAV_TYPE,
+  MavlinkMessageInit,
+  MavlinkMessageOf,
+  decodeMavlinkFrames,
+  encodeMavlinkFrame,
+} from "./mavlink";
+import { parseWaypoint } from "./missionUpdate";
+import { toRadians } from "./geo";
+
+// Commands are only taken from ground stations on this machine unless
+// another address to listen on is configured
+export const DEFAULT_MAVLINK_BIND_ADDRESS = "127.0.0.1";
+export const DEFAULT_MAVLINK_PORT = 14555;
+
+// Wall-clock milliseconds between rounds of position and attitude
+export const MAVLINK_STREAM_INTERVAL_MS = 200;
+
+// Rounds between heartbeats, making them once a second
+const ROUNDS_PER_HEARTBEAT = 5;
+
+// Every vehicle is a single autopilot component. System ids above the
+// vehicles' are left to ground stations.
+const AUTOPILOT_COMPONENT_ID = 1;
+const MAX_VEHICLE_SYSTEM_ID = 250;
+
+const MAVLINK_VERSION = 3;
+
+// Reported as the custom mode, since the generic autopilot has no modes
+// of its own
+const FLIGHT_MODES: SimulationState["flightMode"][] = ["MISSION", "RTL", "LAND", "HOLD", "GUIDED"];
+
+/**
+ * Reads the bridge's settings: where to send telemetry as "host:port"
+ * (QGroundControl and Mission Planner listen on port 14550), and the port
+ * and address to take commands on. Without a target there is no bridge.
+ */
+export function parseMavlinkConfig(
+  target: string | undefined,
+  port: string | undefined,
+  bindAddress: string | undefined
+): { config: MavlinkBridgeConfig | null } | { error: string } {
+  if (!target) return { config: null };
+  const endpoint = parseUdpEndpoint(target);
+  if (!endpoint) return { error: `MAVLINK_TARGET must be host:port, not "${target}"` };
+  const localPort = port ? Number(port) : DEFAULT_MAVLINK_PORT;
+  if (!isPort(localPort)) return { error: `MAVLINK_PORT must be a UDP port, not "${port}"` };
+  return {
+    config: {
+      target: endpoint,
+      port: localPort,
+      bindAddress: bindAddress || DEFAULT_MAVLINK_BIND_ADDRESS,
+    },
+  };
+}
+
+function parseUdpEndpoint(value: string): UdpEndpoint | null {
+  const separator = value.lastIndexOf(":");
+  const address = value.slice(0, separator);
+  const port = Number(value.slice(separator + 1));
+  return separator > 0 && isPort(port) ? { address, port } : null;
+}
+
+function isPort(port: number): boolean {
+  return Number.isInteger(port) && port > 0 && port < 65536;
+}
+
+/**
+ * Opens the bridge's UDP socket. Commands from ground stations are passed
+ * to onCommand, which says whether they were carried out.
+ */
+export function createMavlinkBridge(
+  config: MavlinkBridgeConfig,
+  onCommand: MavlinkBridge["onCommand"]
+): MavlinkBridge {
+  const bridge: MavlinkBridge = {
+    config,
+    socket: dgram.createSocket("udp4"),
+    sequences: new Map(),
+    vehicles: new Map(),
+    missions: new Map(),
+    uploads: new Map(),
+    stations: new Map(),
+    streamCount: 0,
+    onCommand,
+  };
+
+  bridge.socket.on("message", (data, remote) =>
+    receive(bridge, data, { address: remote.address, port: remote.port })
+  );
+  bridge.socket.on("error", (error) => console.error("MAVLink bridge error:", error));
+  bridge.socket.on("listening", () =>
+    console.log(
+      `MAVLink bridge sending to ${config.target.address}:${config.target.port}, ` +
+        `taking commands on UDP ${config.bindAddress}:${config.port}`
+    )
+  );
+  bridge.socket.bind(config.port, config.bindAddress);
+  return bridge;
+}
+
+// Vehicles
+
+/**
+ * Shows a drone as the vehicle with the given system id, in place of any
+ * drone it showed before
+ */
+export function bindVehicle(
+  bridge: MavlinkBridge,
+  systemId: number,
+  clientId: string,
+  droneId: string
+): void {
+  bridge.vehicles.forEach((vehicle, id) => {
+    if (vehicle.clientId === clientId && vehicle.droneId === droneId) bridge.vehicles.delete(id);
+  });
+  bridge.vehicles.set(systemId, { systemId, clientId, droneId });
+}
+
+/**
+ * The vehicle showing a drone, giving it the lowest free system id if it
+ * has none. Returns null once every id is taken.
+ */
+function vehicleFor(bridge: MavlinkBridge, drone: MonitoredDrone): MavlinkVehicle | null {
+  for (const vehicle of bridge.vehicles.values()) {
+    if (vehicle.clientId === drone.clientId && vehicle.droneId === drone.droneId) return vehicle;
+  }
+  for (let systemId = 1; systemId <= MAX_VEHICLE_SYSTEM_ID; systemId++) {
+    if (!bridge.vehicles.has(systemId)) {
+      bindVehicle(bridge, systemId, drone.clientId, drone.droneId);
+      return bridge.vehicles.get(systemId)!;
+    }
+  }
+  return null;
+}
+
+// Telemetry
+
+/**
+ * Sends a round of telemetry for every drone, with a heartbeat every
+ * ROUNDS_PER_HEARTBEAT rounds. Vehicles whose drones are gone are dropped.
+ */
+export function streamTelemetry(bridge: MavlinkBridge, drones: MonitoredDrone[]): void {
+  const withHeartbeat = bridge.streamCount++ % ROUNDS_PER_HEARTBEAT === 0;
+  const shown = new Set<number>();
+
+  drones.forEach((drone) => {
+    const vehicle = vehicleFor(bridge, drone);
+    if (!vehicle) return;
+    shown.add(vehicle.systemId);
+    if (drone.state.failures.linkLoss) return;
+
+    positionMessages(drone.state).forEach((message) => send(bridge, vehicle.systemId, message));
+    if (withHeartbeat) {
+      statusMessages(drone.state).forEach((message) => send(bridge, vehicle.systemId, message));
+    }
+  });
+
+  bridge.vehicles.forEach((vehicle, systemId) => {
+    if (!shown.has(systemId)) bridge.vehicles.delete(systemId);
+  });
+}
+
+/**
+ * Where the drone believes it is, as its GPS reports it, and which way it
+ * is heading. The flight model has no attitude, so the drone is shown
+ * level. Terrain is not modelled either, so the ground is at altitude 0.
+ */
+function positionMessages(state: SimulationState): MavlinkMessageInit[] {
+  const { estimate } = state.gps;
+  const timeBootMs = state.simTime * 1000;
+  const track = toRadians(state.heading - state.crabAngle);
+  const heading = ((state.heading % 360) + 360) % 360;
+
+  return [
+    {
+      name: "GLOBAL_POSITION_INT",
+      time_boot_ms: timeBootMs,
+      lat: estimate.lat * 1e7,
+      lon: estimate.lng * 1e7,
+      alt: state.altitude * 1000,
+      relative_alt: state.altitude * 1000,
+      vx: state.groundSpeed * Math.cos(track) * 100,
+      vy: state.groundSpeed * Math.sin(track) * 100,
+      vz: -state.verticalSpeed * 100,
+      hdg: Math.floor(heading * 100),
+    },
+    {
+      name: "ATTITUDE",
+      time_boot_ms: timeBootMs,
+      yaw: toRadians(heading > 180 ? heading - 360 : heading),
+    },
+  ];
+}
+
+/**
+ * Heartbeat, health and mission progress. A drone is armed until its
+ * flight is over.
+ */
+function statusMessages(state: SimulationState): MavlinkMessageInit[] {
+  const armed = !state.isComplete;
+  const modeFlag =
+    state.flightMode === "MISSION"
+      ? MAV_MODE_FLAG.AUTO_ENABLED
+      : state.flightMode === "GUIDED"
+        ? MAV_MODE_FLAG.GUIDED_ENABLED
+        : 0;
+
+  return [
+    {
+      name: "HEARTBEAT",
+      custom_mode: FLIGHT_MODES.indexOf(state.flightMode),
+      type: state.vehicle.type === "fixed-wing" ? MAV_TYPE.FIXED_WING : MAV_TYPE.QUADROTOR,
+      autopilot: MAV_AUTOPILOT_GENERIC,
+      base_mode:
+        MAV_MODE_FLAG.CUSTOM_MODE_ENABLED | modeFlag | (armed ? MAV_MODE_FLAG.SAFETY_ARMED : 0),
+      system_status: armed ? MAV_STATE.ACTIVE : MAV_STATE.STANDBY,
+      mavlink_version: MAVLINK_VERSION,
+    },
+    {
+      name: "SYS_STATUS",
+      onboard_control_sensors_present: MAV_SYS_STATUS_SENSOR_GPS,
+      onboard_control_sensors_enabled: MAV_SYS_STATUS_SENSOR_GPS,
+      onboard_control_sensors_health: state.failures.gpsLoss ? 0 : MAV_SYS_STATUS_SENSOR_GPS,
+      voltage_battery: 0xffff, // Voltage and current are not modelled
+      current_battery: -1,
+      battery_remaining: Math.round(state.battery.stateOfCharge * 100),
+    },
+    {
+      name: "MISSION_CURRENT",
+      seq: (state.suspendedMission ?? state).currentWaypointIndex,
+    },
+  ];
+}
+
+// Commands and Mission Uploads
+
+/**
+ * Handles the frames of a datagram from a ground station, which from then
+ * on is sent telemetry too
+ */
+function receive(bridge: MavlinkBridge, data: Buffer, from: UdpEndpoint): void {
+  decodeMavlinkFrames(data).forEach(({ systemId, componentId, message }) => {
+    bridge.stations.set(`${from.address}:${from.port}`, from);
+    const station = { ...from, systemId, componentId };
+
+    switch (message.name) {
+      case "MISSION_COUNT":
+        receiveMissionCount(bridge, message, station);
+        break;
+      case "MISSION_ITEM_INT":
+        receiveMissionItem(bridge, message);
+        break;
+      case "COMMAND_LONG":
+        receiveCommand(bridge, message, station);
+        break;
+    }
+  });
+}
+
+/**
+ * Starts a mission upload to a vehicle, or clears its uploaded mission when
+ * the count is zero. Only plain missions are taken, not fences or rally
+ * points.
+ */
+function receiveMissionCount(
+  bridge: MavlinkBridge,
+  message: MavlinkMessageOf<"MISSION_COUNT">,
+  station: MissionUpload["station"]
+): void {
+  const systemId = message.target_system;
+  if (!isVehicleId(systemId)) return;
+  bridge.uploads.delete(systemId);
+
+  if (message.mission_type !== MAV_MISSION_TYPE_MISSION) {
+    sendMissionAck(bridge, systemId, station, MAV_MISSION_RESULT.UNSUPPORTED);
+    return;
+  }
+  if (message.count === 0) {
+    bridge.missions.delete(systemId);
+    sendMissionAck(bridge, systemId, station, MAV_MISSION_RESULT.ACCEPTED);
+    return;
+  }
+
+  const upload: MissionUpload = {
+    count: message.count,
+    received: 0,
+    waypoints: [],
+    altitudeReference: "AGL",
+    station,
+  };
+  bridge.uploads.set(systemId, upload);
+  requestMissionItem(bridge, systemId, upload);
+}
+
+/**
+ * Takes the next item of an upload and asks for the one after, storing the
+ * mission once the last has arrived. An item out of order gets the
+ * expected one asked for again.
+ */
+function receiveMissionItem(
+  bridge: MavlinkBridge,
+  message: MavlinkMessageOf<"MISSION_ITEM_INT">
+): void {
+  const systemId = message.target_system;
+  const upload = bridge.uploads.get(systemId);
+  if (!upload || message.mission_type !== MAV_MISSION_TYPE_MISSION) return;
+  if (message.seq !== upload.received) {
+    requestMissionItem(bridge, systemId, upload);
+    return;
+  }
+
+  const item = missionItem(message);
+  if (item === "UNSUPPORTED_FRAME") {
+    bridge.uploads.delete(systemId);
+    sendMissionAck(bridge, systemId, upload.station, MAV_MISSION_RESULT.UNSUPPORTED_FRAME);
+    return;
+  }
+  if (item) {
+    upload.waypoints.push(item.waypoint);
+    upload.altitudeReference = item.altitudeReference;
+  }
+  upload.received++;
+
+  if (upload.received < upload.count) {
+    requestMissionItem(bridge, systemId, upload);
+    return;
+  }
+
+  bridge.uploads.delete(systemId);
+  if (upload.waypoints.length < 2) {
+    sendMissionAck(bridge, systemId, upload.station, MAV_MISSION_RESULT.ERROR);
+    return;
+  }
+  bridge.missions.set(systemId, {
+    waypoints: upload.waypoints,
+    altitudeReference: upload.altitudeReference,
+  });
+  sendMissionAck(bridge, systemId, upload.station, MAV_MISSION_RESULT.ACCEPTED);
+}
+
+/**
+ * The waypoint a mission item flies to, with a hover or landing there.
+ * Items that are not a place to fly to, such as a return to launch, are
+ * skipped and give null.
+ */
+function missionItem(
+  message: MavlinkMessageOf<"MISSION_ITEM_INT">
+): { waypoint: Coordinate; altitudeReference: AltitudeReference } | "UNSUPPORTED_FRAME" | null {
+  const actions: MissionAction[] = [];
+  switch (message.command) {
+    case MAV_CMD.NAV_WAYPOINT:
+    case MAV_CMD.NAV_LOITER_TIME:
+      // Seconds to hold at the waypoint
+      if (message.param1 > 0) actions.push({ type: "HOVER", duration: message.param1 });
+      break;
+    case MAV_CMD.NAV_LAND:
+      actions.push({ type: "LAND" });
+      break;
+    case MAV_CMD.NAV_TAKEOFF:
+      break;
+    default:
+      return null;
+  }
+
+  let altitudeReference: AltitudeReference;
+  switch (message.frame) {
+    case MAV_FRAME.GLOBAL:
+    case MAV_FRAME.GLOBAL_INT:
+      altitudeReference = "AMSL";
+      break;
+    case MAV_FRAME.GLOBAL_RELATIVE_ALT:
+    case MAV_FRAME.GLOBAL_RELATIVE_ALT_INT:
+      altitudeReference = "AGL";
+      break;
+    default:
+      return "UNSUPPORTED_FRAME";
+  }
+
+  // A take-off without a position climbs where the drone already is
+  if (message.x === 0 && message.y === 0) return null;
+  const waypoint = parseWaypoint({
+    lat: message.x / 1e7,
+    lng: message.y / 1e7,
+    alt: message.z,
+    actions,
+  });
+  return waypoint && { waypoint, altitudeReference };
+}
+
+function requestMissionItem(bridge: MavlinkBridge, systemId: number, upload: MissionUpload): void {
+  send(
+    bridge,
+    systemId,
+    {
+      name: "MISSION_REQUEST_INT",
+      seq: upload.received,
+      target_system: upload.station.systemId,
+      target_component: upload.station.componentId,
+      mission_type: MAV_MISSION_TYPE_MISSION,
+    },
+    upload.station
+  );
+}
+
+function sendMissionAck(
+  bridge: MavlinkBridge,
+  systemId: number,
+  station: MissionUpload["station"],
+  result: number
+): void {
+  send(
+    bridge,
+    systemId,
+    {
+      name: "MISSION_ACK",
+      target_system: station.systemId,
+      target_component: station.componentId,
+      type: result,
+      mission_type: MAV_MISSION_TYPE_MISSION,
+    },
+    station
+  );
+}
+
+/**
+ * Carries out a command to a vehicle and acknowledges it. Arming or
+ * starting the mission flies the last mission uploaded; once flown it is
+ * used up.
+ */
+function receiveCommand(
+  bridge: MavlinkBridge,
+  message: MavlinkMessageOf<"COMMAND_LONG">,
+  station: MissionUpload["station"]
+): void {
+  const systemId = message.target_system;
+  if (!isVehicleId(systemId)) return;
+
+  const command = gcsCommand(bridge, message);
+  let result: number = MAV_RESULT.UNSUPPORTED;
+  if (command) {
+    result = bridge.onCommand(systemId, command) ? MAV_RESULT.ACCEPTED : MAV_RESULT.DENIED;
+    if (result === MAV_RESULT.ACCEPTED && command.type === "START") {
+      bridge.missions.delete(systemId);
+    }
+  }
+
+  send(
+    bridge,
+    systemId,
+    {
+      name: "COMMAND_ACK",
+      command: message.command,
+      result,
+      target_system: station.systemId,
+      target_component: station.componentId,
+    },
+    station
+  );
+}
+
+function gcsCommand(
+  bridge: MavlinkBridge,
+  message: MavlinkMessageOf<"COMMAND_LONG">
+): GcsCommand | null {
+  const start: GcsCommand = {
+    type: "START",
+    mission: bridge.missions.get(message.target_system) ?? null,
+  };
+  switch (message.command) {
+    case MAV_CMD.COMPONENT_ARM_DISARM:
+      return message.param1 === 1 ? start : { type: "STOP" };
+    case MAV_CMD.MISSION_START:
+      return start;
+    case MAV_CMD.DO_PAUSE_CONTINUE:
+      return message.param1 === 0 ? { type: "PAUSE" } : { type: "CONTINUE" };
+    case MAV_CMD.NAV_RETURN_TO_LAUNCH:
+      return { type: "RETURN_TO_LAUNCH" };
+    default:
+      return null;
+  }
+}
+
+// Utility Functions
+
+/**
+ * Sends a message from a vehicle to one ground station, or to the target
+ * and every ground station heard from
+ */
+function send(
+  bridge: MavlinkBridge,
+  systemId: number,
+  message: MavlinkMessageInit,
+  to?: UdpEndpoint
+): void {
+  const sequence = bridge.sequences.get(systemId) ?? 0;
+  bridge.sequences.set(systemId, (sequence + 1) & 0xff);
+  const frame = encodeMavlinkFrame(message, {
+    sequence,
+    systemId,
+    componentId: AUTOPILOT_COMPONENT_ID,
+  });
+
+  const recipients = to
+    ? [to]
+    : Array.from(
+        new Map([
+          [`${bridge.config.target.address}:${bridge.config.target.port}`, bridge.config.target],
+          ...bridge.stations,
+        ]).values()
+      );
+  recipients.forEach(({ address, port }) => bridge.socket.send(frame, port, address));
+}
+
+function isVehicleId(systemId: number): boolean {
+  return systemId >= 1 && systemId <= MAX_VEHICLE_SYSTEM_ID;
+}
@@ -0,0 +1,313 @@
+// missionActions.ts - Actions carried out at waypoints during a mission
+
+import {
+  MissionAction,
+  MissionActionType,
+  MissionItemState,
+  SimulationState,
+} from "./types";
+import { destinationPoint, toDegrees } from "./geo";
+import { approachSpeed, turnTowards } from "./flightModel";
+import { requiredAirspeed, updateWind, windSpeedAndDirection } from "./wind";
+import { resumeMission } from "./route";
+
+const ACTION_TYPES: MissionActionType[] = [
+  "HOVER",
+  "LOITER",
+  "CHANGE_SPEED",
+  "CAMERA",
+  "DROP_PAYLOAD",
+  "LAND",
+];
+
+// Actions the drone has to slow down and stop for
+const STOPPING_ACTIONS: MissionActionType[] = ["HOVER", "LOITER", "LAND"];
+
+/**
+ * Reads the actions of a waypoint from untrusted input, dropping any that
+ * are unknown or have missing or invalid parameters
+ */
+export function parseMissionActions(value: unknown): MissionAction[] {
+  if (!Array.isArray(value)) return [];
+
+  const positive = (n: unknown): n is number =>
+    typeof n === "number" && isFinite(n) && n > 0;
+
+  return value.flatMap((raw): MissionAction[] => {
+    if (!raw || typeof raw !== "object") return [];
+    const action = raw as Record<string, unknown>;
+    if (!ACTION_TYPES.includes(action.type as MissionActionType)) return [];
+
+    switch (action.type as MissionActionType) {
+      case "HOVER":
+        return positive(action.duration)
+          ? [{ type: "HOVER", duration: action.duration }]
+          : [];
+      case "LOITER":
+        return positive(action.turns) && positive(action.radius)
+          ? [{ type: "LOITER", turns: action.turns, radius: action.radius }]
+          : [];
+      case "CHANGE_SPEED":
+        return positive(action.speed)
+          ? [{ type: "CHANGE_SPEED", speed: action.speed }]
+          : [];
+      case "CAMERA":
+        return [{ type: "CAMERA" }];
+      case "DROP_PAYLOAD":
+        return [
+          positive(action.massKg)
+            ? { type: "DROP_PAYLOAD", massKg: action.massKg }
+            : { type: "DROP_PAYLOAD" },
+        ];
+      case "LAND":
+        return [{ type: "LAND" }];
+    }
+  });
+}
+
+/**
+ * Whether the drone has to come to a stop at a waypoint to carry out its
+ * actions
+ */
+export function stopsAtWaypoint(actions: MissionAction[] | undefined): boolean {
+  return (actions || []).some((action) => STOPPING_ACTIONS.includes(action.type));
+}
+
+/**
+ * Starts the actions of the waypoint the drone has just reached. Instant
+ * actions are carried out straight away; the first action that takes time
+ * becomes the drone's current mission item.
+ */
+export function beginWaypointActions(state: SimulationState, waypointIndex: number): void {
+  startAction(state, waypointIndex, 0);
+}
+
+/**
+ * Carries out actions of a waypoint from actionIndex onwards until one
+ * needs more time, raising MISSION_ITEM_STARTED and MISSION_ITEM_COMPLETED
+ * events as it goes
+ */
+function startAction(
+  state: SimulationState,
+  waypointIndex: number,
+  actionIndex: number
+): void {
+  const waypoint = state.waypoints[waypointIndex];
+  const actions = waypoint.actions || [];
+  state.missionItem = null;
+
+  for (let index = actionIndex; index < actions.length; index++) {
+    const action = actions[index];
+    state.pendingEvents.push({
+      type: "MISSION_ITEM_STARTED",
+      waypointIndex,
+      actionIndex: index,
+      action,
+    });
+
+    switch (action.type) {
+      case "CHANGE_SPEED":
+        state.speed = action.speed;
+        break;
+      case "DROP_PAYLOAD":
+        state.payloadKg = Math.max(state.payloadKg - (action.massKg ?? state.payloadKg), 0);
+        break;
+      case "CAMERA":
+        break;
+      default:
+        // Hold over the waypoint, which also takes up any drift
+        state.crossTrackError = 0;
+        state.currentPosition = { lat: waypoint.lat, lng: waypoint.lng, alt: state.altitude };
+        state.missionItem = {
+          waypointIndex,
+          actionIndex: index,
+          action,
+          elapsed: 0,
+          centre: { lat: waypoint.lat, lng: waypoint.lng },
+          orbitPhase: "ENTRY",
+          orbitDistance: 0,
+          orbitAngle: state.heading - 90,
+          orbitSwept: 0,
+        };
+        if (action.type === "LAND") state.flightMode = "LAND";
+        return;
+    }
+
+    completeAction(state, waypointIndex, index, action);
+  }
+}
+
+function completeAction(
+  state: SimulationState,
+  waypointIndex: number,
+  actionIndex: number,
+  action: MissionAction
+): void {
+  state.pendingEvents.push({
+    type: "MISSION_ITEM_COMPLETED",
+    waypointIndex,
+    actionIndex,
+    action,
+    payloadKg: state.payloadKg,
+  });
+}
+
+/**
+ * Stops the mission and holds position where the drone is until released.
+ * A fixed-wing aircraft circles the point instead.
+ */
+export function startHold(state: SimulationState): void {
+  state.flightMode = "HOLD";
+  state.missionItem = {
+    waypointIndex: -1,
+    actionIndex: -1,
+    action: { type: "HOVER", duration: Infinity },
+    elapsed: 0,
+    centre: { lat: state.currentPosition.lat, lng: state.currentPosition.lng },
+    orbitPhase: "ENTRY",
+    orbitDistance: 0,
+    orbitAngle: state.heading - 90,
+    orbitSwept: 0,
+  };
+}
+
+/**
+ * Ends a hold so the drone carries on with its mission, once any circle it
+ * is flying brings it back to where it stopped
+ */
+export function releaseHold(state: SimulationState): void {
+  const item = state.missionItem;
+  if (state.flightMode !== "HOLD" || !item || item.waypointIndex >= 0) return;
+  item.action = { type: "HOVER", duration: 0 };
+}
+
+/**
+ * Advances the current mission item by dt seconds and moves on to the next
+ * action of the waypoint once it is done. Landing ends the flight.
+ */
+export function updateMissionItem(state: SimulationState, dt: number): void {
+  const item = state.missionItem;
+  if (!item) return;
+
+  item.elapsed += dt;
+  let done = false;
+
+  switch (item.action.type) {
+    case "HOVER": {
+      const finished = item.elapsed >= item.action.duration;
+      // Fixed-wing aircraft cannot hover, so they circle for the duration
+      if (state.vehicle.minSpeed > 0) {
+        done = flyOrbit(state, item, state.vehicle.turnRadius, finished, dt);
+      } else {
+        holdPosition(state, dt);
+        done = finished;
+      }
+      break;
+    }
+    case "LOITER":
+      done = flyOrbit(
+        state,
+        item,
+        Math.max(item.action.radius, state.vehicle.turnRadius),
+        item.orbitSwept >= item.action.turns * 360,
+        dt
+      );
+      break;
+    case "LAND":
+      holdPosition(state, dt);
+      done = state.altitude <= 0;
+      break;
+  }
+
+  if (!done) return;
+
+  // A released hold is not part of the mission and raises no events. A
+  // hold over a go-to point goes back to the mission left for it.
+  if (item.waypointIndex < 0) {
+    state.missionItem = null;
+    state.flightMode = "MISSION";
+    resumeMission(state);
+    return;
+  }
+
+  completeAction(state, item.waypointIndex, item.actionIndex, item.action);
+  if (item.action.type === "LAND") {
+    state.missionItem = null;
+    state.isComplete = true;
+    state.airspeed = 0;
+    state.groundSpeed = 0;
+    return;
+  }
+  startAction(state, item.waypointIndex, item.actionIndex + 1);
+}
+
+/**
+ * Holds the drone over the waypoint. It keeps flying into the wind to stay
+ * in place, so its airspeed matches the wind speed.
+ */
+function holdPosition(state: SimulationState, dt: number): void {
+  const wind = updateWind(state.wind, state.altitude, dt);
+  state.airspeed = approachSpeed(
+    state.vehicle,
+    state.airspeed,
+    windSpeedAndDirection(wind).speed,
+    dt
+  );
+  state.groundSpeed = 0;
+  state.crabAngle = 0;
+}
+
+/**
+ * Flies a circle of the given radius around the item's waypoint: out from
+ * the waypoint to the circle, clockwise around it until finished is set,
+ * then back in to the waypoint. Returns true once back over the waypoint.
+ * The speed is capped so the turn stays within the vehicle's yaw rate.
+ */
+function flyOrbit(
+  state: SimulationState,
+  item: MissionItemState,
+  radius: number,
+  finished: boolean,
+  dt: number
+): boolean {
+  const { vehicle } = state;
+  const maxOrbitSpeed = (radius * vehicle.maxYawRate * Math.PI) / 180;
+  const targetSpeed = Math.max(
+    vehicle.minSpeed,
+    Math.min(state.speed, vehicle.maxSpeed, maxOrbitSpeed)
+  );
+  state.groundSpeed = approachSpeed(vehicle, state.groundSpeed, targetSpeed, dt);
+  const step = state.groundSpeed * dt;
+
+  let track: number;
+  switch (item.orbitPhase) {
+    case "ENTRY":
+      track = item.orbitAngle;
+      item.orbitDistance = Math.min(item.orbitDistance + step, radius);
+      if (item.orbitDistance >= radius) item.orbitPhase = "ORBIT";
+      break;
+    case "ORBIT": {
+      const swept = toDegrees(step / radius);
+      item.orbitAngle += swept;
+      item.orbitSwept += swept;
+      track = item.orbitAngle + 90;
+      if (finished) item.orbitPhase = "EXIT";
+      break;
+    }
+    case "EXIT":
+      track = item.orbitAngle + 180;
+      item.orbitDistance = Math.max(item.orbitDistance - step, 0);
+      break;
+  }
+
+  state.heading = turnTowards(vehicle, state.heading, track, dt);
+  state.crabAngle = 0;
+  const wind = updateWind(state.wind, state.altitude, dt);
+  state.airspeed = Math.max(
+    vehicle.minSpeed,
+    Math.min(vehicle.maxSpeed, requiredAirspeed(state.groundSpeed, track, wind, 0))
+  );
+  state.currentPosition = destinationPoint(item.centre, item.orbitAngle, item.orbitDistance);
+
+  return item.orbitPhase === "EXIT" && item.orbitDistance <= 0;
+}
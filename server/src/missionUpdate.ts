@@ -0,0 +1,228 @@
+// missionUpdate.ts - Changes to the mission of a drone in flight
+
+import {
+  Coordinate,
+  MissionProgress,
+  MissionUpdate,
+  SimulationState,
+} from "./types";
+import { parseMissionActions } from "./missionActions";
+import { remainingDistance, replanLeg } from "./route";
+
+const OPERATIONS: MissionUpdate["operation"][] = [
+  "INSERT",
+  "MOVE",
+  "DELETE",
+  "GOTO",
+  "RESUME",
+];
+
+/**
+ * Reads a mission update from untrusted input, or returns null if it is
+ * invalid. Whether it can be applied depends on the flight, which
+ * missionUpdateError checks.
+ */
+export function parseMissionUpdate(value: unknown): MissionUpdate | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  const operation = data.operation as MissionUpdate["operation"];
+  if (!OPERATIONS.includes(operation)) return null;
+
+  const index = data.index;
+  const validIndex = typeof index === "number" && Number.isInteger(index) && index >= 0;
+
+  switch (operation) {
+    case "INSERT":
+    case "MOVE": {
+      const waypoint = parseWaypoint(data.waypoint);
+      return waypoint && validIndex ? { operation, index: index as number, waypoint } : null;
+    }
+    case "DELETE":
+      return validIndex ? { operation, index: index as number } : null;
+    case "GOTO": {
+      const waypoint = parseWaypoint(data.waypoint);
+      return waypoint ? { operation, waypoint } : null;
+    }
+    case "RESUME":
+      return { operation };
+  }
+}
+
+/**
+ * Reads a waypoint from untrusted input, or returns null if it is invalid
+ */
+export function parseWaypoint(value: unknown): Coordinate | null {
+  if (!value || typeof value !== "object") return null;
+  const { lat, lng, alt, actions } = value as Record<string, unknown>;
+  if (
+    typeof lat !== "number" ||
+    typeof lng !== "number" ||
+    !(Math.abs(lat) <= 90) ||
+    !(Math.abs(lng) <= 180)
+  ) {
+    return null;
+  }
+
+  const waypoint: Coordinate = { lat, lng };
+  if (typeof alt === "number" && isFinite(alt)) waypoint.alt = alt;
+  const parsedActions = parseMissionActions(actions);
+  if (parsedActions.length > 0) waypoint.actions = parsedActions;
+  return waypoint;
+}
+
+/**
+ * The mission the drone is flying, or will go back to after a go-to.
+ * Returns null once the drone has abandoned it to return or land.
+ */
+export function currentMission(state: SimulationState): MissionProgress | null {
+  if (state.suspendedMission) return state.suspendedMission;
+  return state.flightMode === "MISSION" || state.flightMode === "HOLD" ? state : null;
+}
+
+/**
+ * The go-to point the drone is flying to or holding over, if any
+ */
+export function goToTarget(state: SimulationState): Coordinate | null {
+  return state.suspendedMission ? state.waypoints[state.waypoints.length - 1] : null;
+}
+
+/**
+ * Why an update cannot be applied to the flight, or null if it can
+ */
+export function missionUpdateError(
+  state: SimulationState,
+  update: MissionUpdate
+): string | null {
+  if (state.isComplete) return "The flight has finished";
+  if (state.failures.linkLoss) return "The drone has no link to the ground station";
+  if (!currentMission(state)) return "The drone has left its mission";
+
+  switch (update.operation) {
+    case "GOTO":
+      return null;
+    case "RESUME":
+      return state.suspendedMission ? null : "The drone is not flying to a go-to point";
+    default: {
+      const plan = planMissionUpdate(state, update);
+      return "error" in plan ? plan.error : null;
+    }
+  }
+}
+
+/**
+ * Inserts, moves or deletes a waypoint of the mission. When the waypoint
+ * the drone is flying to changes, the leg is re-planned from where the
+ * drone is. A suspended mission only takes effect once resumed.
+ */
+export function updateMission(
+  state: SimulationState,
+  update: Extract<MissionUpdate, { index: number }>
+): void {
+  const plan = planMissionUpdate(state, update);
+  if ("error" in plan) return;
+
+  if (state.suspendedMission) {
+    state.suspendedMission = plan.mission;
+    return;
+  }
+
+  state.waypoints = plan.mission.waypoints;
+  state.currentWaypointIndex = plan.mission.currentWaypointIndex;
+  state.nextWaypointIndex = plan.mission.nextWaypointIndex;
+  if (state.missionItem && state.missionItem.waypointIndex >= 0) {
+    state.missionItem.waypointIndex = plan.mission.currentWaypointIndex;
+  }
+  if (plan.replan) replanLeg(state);
+  state.totalDistance = state.distanceFlown + remainingDistance(state);
+}
+
+/**
+ * Works out the mission after an edit: its waypoints and where the drone
+ * is along them. Waypoints are followed by identity, so the drone keeps
+ * flying to the same waypoint unless it was moved or deleted, or a new one
+ * was put in front of it.
+ */
+function planMissionUpdate(
+  state: SimulationState,
+  update: Extract<MissionUpdate, { index: number }>
+): { mission: MissionProgress; replan: boolean } | { error: string } {
+  const mission = currentMission(state);
+  if (!mission) return { error: "The drone has left its mission" };
+
+  const { waypoints, currentWaypointIndex: current, routeDirection } = mission;
+  const repeats = state.routeMode !== "once";
+  const ending = mission.nextWaypointIndex >= waypoints.length;
+
+  // On the leg from the last waypoint of a loop back to the first, the
+  // next lap has already begun, so a waypoint added after the last one
+  // starts that lap instead
+  const wrapping = state.routeMode === "loop" && !ending && mission.nextWaypointIndex === 0;
+  const index =
+    update.operation === "INSERT" && wrapping && update.index === waypoints.length
+      ? 0
+      : update.index;
+
+  const lastIndex = update.operation === "INSERT" ? waypoints.length : waypoints.length - 1;
+  if (index > lastIndex) return { error: `There is no waypoint ${index + 1}` };
+
+  // A route flown once can only change ahead of the drone; a repeating
+  // route flies every waypoint again except the one just reached
+  if (update.operation === "INSERT") {
+    if (!repeats && index <= current) {
+      return { error: `New waypoints must come after waypoint ${current + 1}` };
+    }
+  } else if (index === current || (!repeats && index < current)) {
+    return { error: `Waypoint ${index + 1} has already been reached` };
+  }
+
+  let edited: Coordinate[];
+  switch (update.operation) {
+    case "INSERT": {
+      const previous = waypoints[Math.max(index - 1, 0)];
+      edited = [
+        ...waypoints.slice(0, index),
+        withAltitude(update.waypoint, previous.alt),
+        ...waypoints.slice(index),
+      ];
+      break;
+    }
+    case "MOVE":
+      edited = waypoints.map((waypoint, i) =>
+        i === index ? withAltitude(update.waypoint, waypoint.alt) : waypoint
+      );
+      break;
+    case "DELETE":
+      if (waypoints.length <= 2) return { error: "A mission needs at least two waypoints" };
+      edited = waypoints.filter((_, i) => i !== index);
+      break;
+  }
+
+  // The route may already end at the current waypoint, in which case the
+  // drone only flies on if a waypoint is added after it
+  const newCurrent = edited.indexOf(waypoints[current]);
+  let next =
+    state.routeMode === "loop" && !ending
+      ? (newCurrent + 1) % edited.length
+      : newCurrent + routeDirection;
+  if (next < 0 || next >= edited.length) {
+    if (!ending) return { error: "The drone needs a waypoint ahead of it" };
+    next = edited.length;
+  }
+
+  return {
+    mission: {
+      waypoints: edited,
+      currentWaypointIndex: newCurrent,
+      nextWaypointIndex: next,
+      routeDirection,
+    },
+    replan: edited[next] !== waypoints[mission.nextWaypointIndex],
+  };
+}
+
+/**
+ * A waypoint without an altitude of its own keeps the given one
+ */
+function withAltitude(waypoint: Coordinate, alt: number | undefined): Coordinate {
+  return typeof waypoint.alt === "number" ? waypoint : { ...waypoint, alt };
+}
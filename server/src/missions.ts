@@ -0,0 +1,133 @@
+// missions.ts - Mission library kept on disk
+//
+// Each saved mission is a JSON file named after its id. Writes go to a
+// temporary file first and are then renamed into place, so a crash never
+// leaves half a mission behind.
+
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { Coordinate, Mission } from "./types";
+import { parseWaypoint } from "./missionUpdate";
+
+const MISSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+
+export type MissionFields = Pick<Mission, "name" | "description" | "waypoints" | "tags">;
+
+/**
+ * Reads a mission's name, description, waypoints and tags from untrusted
+ * input, or returns an error message describing what is wrong. Tags are
+ * trimmed, lower-cased and de-duplicated.
+ */
+export function parseMission(value: unknown): { mission: MissionFields } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "Mission must be an object" };
+  const data = value as Record<string, unknown>;
+
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be 1 to ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const description = data.description === undefined ? "" : data.description;
+  if (typeof description !== "string" || description.length > MAX_DESCRIPTION_LENGTH) {
+    return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+
+  const waypoints = Array.isArray(data.waypoints) ? data.waypoints.map(parseWaypoint) : [];
+  if (waypoints.length === 0 || waypoints.some((waypoint) => waypoint === null)) {
+    return { error: "waypoints must be a non-empty list of {lat, lng} points" };
+  }
+
+  const tags = data.tags === undefined ? [] : data.tags;
+  if (
+    !Array.isArray(tags) ||
+    !tags.every((tag) => typeof tag === "string" && tag.trim().length <= MAX_TAG_LENGTH)
+  ) {
+    return { error: `tags must be a list of words of at most ${MAX_TAG_LENGTH} characters` };
+  }
+  const uniqueTags = Array.from(
+    new Set((tags as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))
+  );
+  if (uniqueTags.length > MAX_TAGS) return { error: `A mission can have at most ${MAX_TAGS} tags` };
+
+  return {
+    mission: {
+      name,
+      description: description.trim(),
+      waypoints: waypoints as Coordinate[],
+      tags: uniqueTags,
+    },
+  };
+}
+
+/**
+ * Every saved mission, most recently updated first, optionally only those
+ * with a tag
+ */
+export async function listMissions(directory: string, tag?: string): Promise<Mission[]> {
+  const files = await fs.promises.readdir(directory);
+  const missions = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readMission(directory, path.basename(file, ".json")))
+  );
+  return missions
+    .filter((mission): mission is Mission => mission !== null)
+    .filter((mission) => !tag || mission.tags.includes(tag.trim().toLowerCase()))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * A saved mission, or null if there is no such mission. A mission file that
+ * cannot be read throws.
+ */
+export async function readMission(directory: string, id: string): Promise<Mission | null> {
+  if (!MISSION_ID_PATTERN.test(id)) return null;
+  try {
+    const data = await fs.promises.readFile(missionPath(directory, id), "utf8");
+    return JSON.parse(data) as Mission;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Saves a mission, replacing any saved under the same id
+ */
+export async function saveMission(directory: string, mission: Mission): Promise<void> {
+  const file = missionPath(directory, mission.id);
+  // Each write has its own temporary file, so saves of the same mission
+  // at once cannot write over each other's
+  const temporary = `${file}.${randomUUID()}.tmp`;
+  await fs.promises.writeFile(temporary, JSON.stringify(mission, null, 2));
+  await fs.promises.rename(temporary, file);
+}
+
+/**
+ * Deletes a saved mission, returning whether there was one
+ */
+export async function deleteMission(directory: string, id: string): Promise<boolean> {
+  if (!MISSION_ID_PATTERN.test(id)) return false;
+  try {
+    await fs.promises.unlink(missionPath(directory, id));
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) return false;
+    throw error;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+function missionPath(directory: string, id: string): string {
+  return path.join(directory, `${id}.json`);
+}
@@ -0,0 +1,962 @@
+// protocol.ts - The WebSocket protocol spoken by the server and the client
+//
+// Every message either side can send is declared here, together with a
+// schema that checks it at runtime. Both sides check what they send and what
+// they receive, and agree on PROTOCOL_VERSION in a handshake on connect, so
+// a change to a message on one side cannot go unnoticed on the other. The
+// client imports this module directly; it must stay free of Node-only code.
+
+import type {
+  AltitudeReference,
+  BatteryConfig,
+  BatteryLevel,
+  Coordinate,
+  Failure,
+  FailureType,
+  FlightMode,
+  GeofenceAction,
+  GeofenceKind,
+  GpsConfig,
+  MissionAction,
+  MissionUpdate,
+  RouteMode,
+  ScheduledFailure,
+  SeparationAssessment,
+  SeparationStatus,
+  VehicleModel,
+  VehicleType,
+  WindConfig,
+  WindLayer,
+} from "./types";
+
+// Changed whenever a message changes in a way the other side would misread.
+// The server only accepts clients speaking the same version.
+export const PROTOCOL_VERSION = 1;
+
+// Why the server rejected a message, sent with every ERROR
+export type ErrorCode =
+  | "INVALID_MESSAGE" // Not JSON, or does not match its schema
+  | "UNKNOWN_MESSAGE_TYPE"
+  | "HANDSHAKE_REQUIRED" // Sent before HELLO
+  | "UNSUPPORTED_VERSION"
+  | "INVALID_WAYPOINTS"
+  | "NO_ACTIVE_SIMULATION" // No drone of the client matches the command
+  | "INVALID_SEEK_TARGET"
+  | "INVALID_FAILURE"
+  | "INVALID_MISSION_UPDATE"
+  | "MISSION_UPDATE_REJECTED" // Valid, but the flight cannot take it
+  | "INVALID_ROOM"
+  | "ROOM_OCCUPIED" // The room already has an operator
+  | "SIMULATIONS_RUNNING" // Only a client with no drones can observe
+  | "OBSERVER_READ_ONLY"
+  | "RECORDING_NOT_FOUND"
+  | "DRONE_IN_USE"; // A replay cannot take the id of a drone in flight
+
+export type RoomRole = "operator" | "observer";
+
+// Schemas
+
+// A runtime check that a value is a T. The phantom type makes the compiler
+// reject a schema that does not describe exactly T.
+interface Schema<T> {
+  check: (value: unknown, path: string) => string | null; // Why it is not a T
+  readonly type?: (value: T) => T;
+}
+
+// A schema for each property of an object type, optional ones included
+type Shape<T> = { [P in keyof Required<T>]: Schema<T[P]> };
+
+// The shape of each member of a union told apart by a tag property
+type Variants<T extends Record<K, string>, K extends string> = {
+  [V in T[K]]: Shape<Omit<Extract<T, Record<K, V>>, K>>;
+};
+
+function schema<T>(check: Schema<T>["check"]): Schema<T> {
+  return { check };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// JSON cannot carry infinities or NaN, so neither side may send them
+const number = schema<number>((value, path) =>
+  typeof value === "number" && isFinite(value) ? null : `${path} must be a finite number`
+);
+
+const positive = schema<number>((value, path) =>
+  typeof value === "number" && isFinite(value) && value > 0
+    ? null
+    : `${path} must be a positive number`
+);
+
+const nonNegative = schema<number>((value, path) =>
+  typeof value === "number" && isFinite(value) && value >= 0
+    ? null
+    : `${path} must be a number of at least 0`
+);
+
+const fraction = schema<number>((value, path) =>
+  typeof value === "number" && value >= 0 && value <= 1
+    ? null
+    : `${path} must be a number from 0 to 1`
+);
+
+const string = schema<string>((value, path) =>
+  typeof value === "string" ? null : `${path} must be a string`
+);
+
+const boolean = schema<boolean>((value, path) =>
+  typeof value === "boolean" ? null : `${path} must be a boolean`
+);
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return schema((value, path) =>
+    values.includes(value as T) ? null : `${path} must be one of ${values.join(", ")}`
+  );
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return schema((value, path) => (value === undefined ? null : inner.check(value, path)));
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((value, path) => (value === null ? null : inner.check(value, path)));
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return schema((value, path) => {
+    if (!Array.isArray(value)) return `${path} must be an array`;
+    for (let i = 0; i < value.length; i++) {
+      const error = item.check(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  });
+}
+
+/**
+ * Checks the properties of an object against their schemas. Properties
+ * without one are ignored.
+ */
+function checkShape(
+  value: Record<string, unknown>,
+  shape: Record<string, Schema<unknown>>,
+  path: string
+): string | null {
+  for (const [key, property] of Object.entries(shape)) {
+    const error = property.check(value[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+function object<T>(shape: Shape<T>): Schema<T> {
+  return schema((value, path) =>
+    isRecord(value)
+      ? checkShape(value, shape as Record<string, Schema<unknown>>, path)
+      : `${path} must be an object`
+  );
+}
+
+/**
+ * A schema for a union of object types told apart by the tag property key
+ */
+function tagged<T extends Record<K, string>, K extends string>(
+  key: K,
+  variants: Variants<T, K>
+): Schema<T> {
+  const tags = Object.keys(variants);
+  return schema((value, path) => {
+    if (!isRecord(value)) return `${path} must be an object`;
+    const tag = value[key];
+    if (typeof tag !== "string" || !tags.includes(tag)) {
+      return `${path}.${key} must be one of ${tags.join(", ")}`;
+    }
+    const shape = variants[tag as T[K]] as Record<string, Schema<unknown>>;
+    return checkShape(value, shape, path);
+  });
+}
+
+// Domain values
+
+const FLIGHT_MODES: FlightMode[] = ["MISSION", "RTL", "LAND", "HOLD", "GUIDED"];
+const ROUTE_MODES: RouteMode[] = ["once", "loop", "ping-pong"];
+const ALTITUDE_REFERENCES: AltitudeReference[] = ["AGL", "AMSL"];
+const VEHICLE_TYPES: VehicleType[] = ["quadcopter", "fixed-wing"];
+const BATTERY_LEVELS: BatteryLevel[] = ["OK", "LOW", "CRITICAL", "DEPLETED"];
+const FAILURE_TYPES: FailureType[] = [
+  "LINK_LOSS",
+  "GPS_LOSS",
+  "MOTOR_FAILURE",
+  "BATTERY_CELL_FAULT",
+];
+const SEPARATION_STATUSES: SeparationStatus[] = ["CLEAR", "CONFLICT", "LOSS"];
+const ROOM_ROLES: RoomRole[] = ["operator", "observer"];
+
+const flightMode = oneOf(FLIGHT_MODES);
+const routeMode = oneOf(ROUTE_MODES);
+const altitudeReference = oneOf(ALTITUDE_REFERENCES);
+const batteryLevel = oneOf(BATTERY_LEVELS);
+const failureType = oneOf(FAILURE_TYPES);
+const roomRole = oneOf(ROOM_ROLES);
+
+const missionAction = tagged<MissionAction, "type">("type", {
+  HOVER: { duration: number },
+  LOITER: { turns: number, radius: number },
+  CHANGE_SPEED: { speed: number },
+  CAMERA: {},
+  DROP_PAYLOAD: { massKg: optional(number) },
+  LAND: {},
+});
+
+const coordinate = object<Coordinate>({
+  lat: number,
+  lng: number,
+  alt: optional(number),
+  actions: optional(array(missionAction)),
+});
+
+const failureShape: Shape<Failure> = {
+  type: failureType,
+  duration: optional(number),
+  capacityLoss: optional(number),
+};
+
+const failure = object<Failure>(failureShape);
+
+const scheduledFailure = object<ScheduledFailure>({ ...failureShape, time: number });
+
+const missionUpdate = tagged<MissionUpdate, "operation">("operation", {
+  INSERT: { index: number, waypoint: coordinate },
+  MOVE: { index: number, waypoint: coordinate },
+  DELETE: { index: number },
+  GOTO: { waypoint: coordinate },
+  RESUME: {},
+});
+
+const vehicle = object<Partial<VehicleModel>>({
+  type: optional(oneOf(VEHICLE_TYPES)),
+  maxSpeed: optional(positive),
+  minSpeed: optional(nonNegative),
+  acceleration: optional(positive),
+  deceleration: optional(positive),
+  maxYawRate: optional(positive),
+  climbRate: optional(positive),
+  descentRate: optional(positive),
+  turnRadius: optional(nonNegative),
+});
+
+const battery = object<Partial<BatteryConfig>>({
+  capacityWh: optional(positive),
+  massKg: optional(positive),
+  basePowerW: optional(positive),
+  dragCoefficient: optional(number),
+  climbEfficiency: optional(positive),
+  warningThreshold: optional(fraction),
+  criticalThreshold: optional(fraction),
+  lowBatteryAction: optional(oneOf(["RTL", "LAND"])),
+});
+
+const wind = object<Partial<WindConfig>>({
+  mode: optional(oneOf(["none", "constant", "gusting", "layered"])),
+  speed: optional(number),
+  direction: optional(number),
+  gustSpeed: optional(number),
+  gustInterval: optional(number),
+  gustDirectionVariance: optional(number),
+  layers: optional(
+    array(object<WindLayer>({ altitude: number, speed: number, direction: number }))
+  ),
+});
+
+const gps = object<Partial<GpsConfig>>({
+  hdop: optional(number),
+  satellites: optional(number),
+  biasDrift: optional(number),
+  updateRate: optional(number),
+  dropoutRate: optional(number),
+  dropoutDuration: optional(number),
+});
+
+// Messages from the client
+
+// First message on every connection
+export interface HelloMessage {
+  type: "HELLO";
+  protocolVersion: number;
+}
+
+// The mission and models of a simulated flight, whether it is started over
+// the socket or flown headless
+export interface FlightSettings {
+  waypoints: Coordinate[];
+  speed?: number;
+  altitudeReference?: AltitudeReference;
+  vehicleType?: VehicleType;
+  vehicle?: Partial<VehicleModel>;
+  battery?: Partial<BatteryConfig>;
+  payloadKg?: number;
+  wind?: Partial<WindConfig>;
+  gps?: Partial<GpsConfig>;
+  failures?: ScheduledFailure[]; // Failures to inject during the flight
+  failsafeTimeout?: number;
+  routeMode?: RouteMode;
+  laps?: number;
+  seed?: number;
+}
+
+// Starts a drone, replacing the mission of one already flying with that id
+export interface StartSimulationMessage extends FlightSettings {
+  type: "START_SIMULATION";
+  droneId?: string;
+  timeScale?: number;
+}
+
+// Commands below target one drone, or all of the client's drones when
+// droneId is omitted
+export interface PauseSimulationMessage {
+  type: "PAUSE_SIMULATION";
+  droneId?: string;
+}
+
+export interface ResumeSimulationMessage {
+  type: "RESUME_SIMULATION";
+  droneId?: string;
+}
+
+export interface StopSimulationMessage {
+  type: "STOP_SIMULATION";
+  droneId?: string;
+}
+
+export interface UpdateSpeedMessage {
+  type: "UPDATE_SPEED";
+  speed: number;
+  droneId?: string;
+}
+
+// Exactly one of the targets is needed
+export interface SeekSimulationMessage {
+  type: "SEEK_SIMULATION";
+  time?: number; // Seconds of simulated time
+  progress?: number; // Fraction of the route
+  waypointIndex?: number; // Waypoint to jump to
+  droneId?: string;
+}
+
+export interface InjectFailureMessage {
+  type: "INJECT_FAILURE";
+  failure: Failure;
+  droneId?: string;
+}
+
+export interface UpdateMissionMessage {
+  type: "UPDATE_MISSION";
+  update: MissionUpdate;
+  droneId: string;
+}
+
+export interface SetTimeScaleMessage {
+  type: "SET_TIME_SCALE";
+  timeScale: number;
+  droneId?: string;
+}
+
+export interface ResumeSessionMessage {
+  type: "RESUME_SESSION";
+  token: string;
+}
+
+export interface JoinRoomMessage {
+  type: "JOIN_ROOM";
+  room: string;
+  role: RoomRole;
+}
+
+export interface LeaveRoomMessage {
+  type: "LEAVE_ROOM";
+}
+
+// Streams a recorded flight back as if it were live, as a drone of its own.
+// Stopping the drone stops the replay.
+export interface ReplayRecordingMessage {
+  type: "REPLAY_RECORDING";
+  recordingId: string;
+  droneId?: string; // Id to replay it under, replay-<recording id prefix> by default
+  timeScale?: number; // Recorded seconds per real second
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | StartSimulationMessage
+  | PauseSimulationMessage
+  | ResumeSimulationMessage
+  | StopSimulationMessage
+  | UpdateSpeedMessage
+  | SeekSimulationMessage
+  | InjectFailureMessage
+  | UpdateMissionMessage
+  | SetTimeScaleMessage
+  | ResumeSessionMessage
+  | JoinRoomMessage
+  | LeaveRoomMessage
+  | ReplayRecordingMessage;
+
+const flightSettings: Shape<FlightSettings> = {
+  waypoints: array(coordinate),
+  speed: optional(positive),
+  altitudeReference: optional(altitudeReference),
+  vehicleType: optional(oneOf(VEHICLE_TYPES)),
+  vehicle: optional(vehicle),
+  battery: optional(battery),
+  payloadKg: optional(number),
+  wind: optional(wind),
+  gps: optional(gps),
+  failures: optional(array(scheduledFailure)),
+  failsafeTimeout: optional(number),
+  routeMode: optional(routeMode),
+  laps: optional(number),
+  seed: optional(number),
+};
+
+const CLIENT_MESSAGES: Variants<ClientMessage, "type"> = {
+  HELLO: { protocolVersion: number },
+  START_SIMULATION: {
+    droneId: optional(string),
+    ...flightSettings,
+    timeScale: optional(number),
+  },
+  PAUSE_SIMULATION: { droneId: optional(string) },
+  RESUME_SIMULATION: { droneId: optional(string) },
+  STOP_SIMULATION: { droneId: optional(string) },
+  UPDATE_SPEED: { speed: positive, droneId: optional(string) },
+  SEEK_SIMULATION: {
+    time: optional(number),
+    progress: optional(number),
+    waypointIndex: optional(number),
+    droneId: optional(string),
+  },
+  INJECT_FAILURE: { failure, droneId: optional(string) },
+  UPDATE_MISSION: { update: missionUpdate, droneId: string },
+  SET_TIME_SCALE: { timeScale: number, droneId: optional(string) },
+  RESUME_SESSION: { token: string },
+  JOIN_ROOM: { room: string, role: roomRole },
+  LEAVE_ROOM: {},
+  REPLAY_RECORDING: {
+    recordingId: string,
+    droneId: optional(string),
+    timeScale: optional(number),
+  },
+};
+
+// Messages from the server
+
+export interface GpsStatus {
+  fix: boolean;
+  satellites: number;
+  hdop: number;
+  fixAge: number; // Seconds since the estimate was last updated
+  error: number; // Metres between the estimated and true positions
+}
+
+// Telemetry sent after a simulation step
+export interface TelemetryFrame {
+  type: "POSITION_UPDATE";
+  droneId: string;
+  time: number; // Seconds of simulated time since the start
+  position: Coordinate; // True position
+  estimatedPosition: Coordinate; // Position reported by the GPS
+  gps: GpsStatus;
+  progress: number;
+  currentWaypoint: number;
+  distanceFlown: number; // Metres
+  distanceRemaining: number; // Metres
+  groundSpeed: number; // Metres per second
+  airspeed: number; // Metres per second
+  crabAngle: number; // Degrees between heading and track
+  windSpeed: number; // Metres per second
+  windDirection: number; // Degrees the wind blows from
+  altitude: number; // Metres
+  altitudeReference: AltitudeReference;
+  verticalSpeed: number; // Metres per second, positive when climbing
+  heading: number; // Degrees clockwise from true north
+  flightMode: FlightMode;
+  lap: number; // Current lap of the route, starting at 1
+  activeFailures: FailureType[];
+  batteryLevel: number; // State of charge, 0..1
+  batteryRemainingWh: number;
+  powerDraw: number; // Watts
+  estimatedEndurance: number | null; // Seconds of flight left, null when drawing no power
+  isComplete: boolean;
+}
+
+// The mission action a drone is carrying out at a waypoint
+export interface MissionItemSummary {
+  waypointIndex: number;
+  action: MissionAction;
+}
+
+export interface SimulationStartedMessage {
+  type: "SIMULATION_STARTED";
+  droneId: string;
+  recordingId?: string; // Recording of the flight, to export or replay it
+  initialPosition: Coordinate;
+  waypoints: Coordinate[];
+  routeMode: RouteMode;
+  altitudeReference: AltitudeReference;
+  timeScale: number;
+}
+
+// Sent to the operator and observers when a drone is stopped
+export interface SimulationStoppedMessage {
+  type: "SIMULATION_STOPPED";
+  droneId: string;
+}
+
+export interface SimulationSeekedMessage {
+  type: "SIMULATION_SEEKED";
+  droneId: string;
+  time: number; // Seconds of simulated time at the new point
+  batteryLevel: BatteryLevel;
+  missionItem: MissionItemSummary | null;
+}
+
+// Events raised by the engine carry the drone and the simulated time
+export interface BatteryWarningMessage {
+  type: "BATTERY_WARNING";
+  droneId: string;
+  time: number;
+  level: BatteryLevel;
+  stateOfCharge: number;
+  remainingWh: number;
+  action?: FlightMode; // How the drone responded to a critical battery
+}
+
+export interface MissionItemStartedMessage {
+  type: "MISSION_ITEM_STARTED";
+  droneId: string;
+  time: number;
+  waypointIndex: number;
+  actionIndex: number;
+  action: MissionAction;
+}
+
+export interface MissionItemCompletedMessage {
+  type: "MISSION_ITEM_COMPLETED";
+  droneId: string;
+  time: number;
+  waypointIndex: number;
+  actionIndex: number;
+  action: MissionAction;
+  payloadKg: number; // Payload left on board
+}
+
+export interface GeofenceBreachMessage {
+  type: "GEOFENCE_BREACH";
+  droneId: string;
+  time: number;
+  geofenceId: string;
+  name: string;
+  kind: GeofenceKind;
+  action: GeofenceAction;
+  position: Coordinate;
+  flightMode: FlightMode; // Flight mode after the fence's response
+}
+
+export interface FailureEventMessage {
+  type: "FAILURE_EVENT";
+  droneId: string;
+  time: number;
+  failure: FailureType;
+  phase: "INJECTED" | "FAILSAFE" | "RECOVERED";
+  flightMode: FlightMode; // Flight mode after the drone's response
+  duration?: number;
+  stateOfCharge?: number; // Charge left after a battery cell fault
+}
+
+export type SimulationEventMessage =
+  | BatteryWarningMessage
+  | MissionItemStartedMessage
+  | MissionItemCompletedMessage
+  | GeofenceBreachMessage
+  | FailureEventMessage;
+
+// Another drone, which may belong to another client, that a drone is not
+// clear of
+export interface SeparationAlert extends SeparationAssessment {
+  intruderId: string;
+  intruderPosition: Coordinate;
+}
+
+// Sent to the clients of both drones when the separation between them
+// changes, each from the point of view of its own drone
+export interface ConflictAlertMessage extends SeparationAlert {
+  type: "CONFLICT_ALERT";
+  droneId: string;
+}
+
+export interface LossOfSeparationMessage extends SeparationAlert {
+  type: "LOSS_OF_SEPARATION";
+  droneId: string;
+}
+
+export interface SeparationRestoredMessage extends SeparationAlert {
+  type: "SEPARATION_RESTORED";
+  droneId: string;
+}
+
+export type SeparationMessage =
+  | ConflictAlertMessage
+  | LossOfSeparationMessage
+  | SeparationRestoredMessage;
+
+// The mission as it stands after an update or a seek
+export interface MissionUpdatedMessage {
+  type: "MISSION_UPDATED";
+  droneId: string;
+  waypoints: Coordinate[];
+  currentWaypoint: number; // Last waypoint reached
+  flightMode: FlightMode;
+  goTo: Coordinate | null; // Go-to point the drone has left the mission for
+}
+
+// Reply to HELLO, with the token to resume the session by after a reconnect
+export interface SessionStartedMessage {
+  type: "SESSION_STARTED";
+  protocolVersion: number;
+  token: string;
+  gracePeriod: number; // Seconds a disconnected session's drones keep flying
+}
+
+// A drone of a resumed session or a joined room, as it is now
+export interface SimulationSnapshot {
+  droneId: string;
+  recordingId: string;
+  waypoints: Coordinate[]; // The mission, without any go-to point
+  routeMode: RouteMode;
+  altitudeReference: AltitudeReference;
+  timeScale: number;
+  isPaused: boolean;
+  speed: number; // Metres per second
+  telemetry: TelemetryFrame;
+  batteryLevel: BatteryLevel;
+  missionItem: MissionItemSummary | null;
+  goTo: Coordinate | null;
+  separationAlerts: SeparationAlert[];
+}
+
+// Who is in the room a client has joined
+export interface RoomStatus {
+  room: string;
+  hasOperator: boolean;
+  observers: number; // Clients watching read-only
+}
+
+export interface SessionResumedMessage {
+  type: "SESSION_RESUMED";
+  token: string;
+  room: (RoomStatus & { role: RoomRole }) | null;
+  drones: SimulationSnapshot[]; // The room's drones for an observer
+}
+
+// The session to resume is gone; the connection carries on under a new one
+export interface SessionExpiredMessage {
+  type: "SESSION_EXPIRED";
+  token: string; // Token of the new session
+}
+
+// Sent on joining a room, and again to observers when its operator changes
+export interface RoomJoinedMessage extends RoomStatus {
+  type: "ROOM_JOINED";
+  role: RoomRole;
+  drones: SimulationSnapshot[]; // The operator's drones
+}
+
+// Sent to everyone in a room when someone joins or leaves it
+export interface RoomUpdatedMessage extends RoomStatus {
+  type: "ROOM_UPDATED";
+}
+
+export interface RoomLeftMessage {
+  type: "ROOM_LEFT";
+  room: string;
+  role: RoomRole;
+}
+
+export interface ErrorMessage {
+  type: "ERROR";
+  code: ErrorCode;
+  message: string;
+}
+
+export type ServerMessage =
+  | TelemetryFrame
+  | SimulationStartedMessage
+  | SimulationStoppedMessage
+  | SimulationSeekedMessage
+  | SimulationEventMessage
+  | SeparationMessage
+  | MissionUpdatedMessage
+  | SessionStartedMessage
+  | SessionResumedMessage
+  | SessionExpiredMessage
+  | RoomJoinedMessage
+  | RoomUpdatedMessage
+  | RoomLeftMessage
+  | ErrorMessage;
+
+const ERROR_CODES: ErrorCode[] = [
+  "INVALID_MESSAGE",
+  "UNKNOWN_MESSAGE_TYPE",
+  "HANDSHAKE_REQUIRED",
+  "UNSUPPORTED_VERSION",
+  "INVALID_WAYPOINTS",
+  "NO_ACTIVE_SIMULATION",
+  "INVALID_SEEK_TARGET",
+  "INVALID_FAILURE",
+  "INVALID_MISSION_UPDATE",
+  "MISSION_UPDATE_REJECTED",
+  "INVALID_ROOM",
+  "ROOM_OCCUPIED",
+  "SIMULATIONS_RUNNING",
+  "OBSERVER_READ_ONLY",
+  "RECORDING_NOT_FOUND",
+  "DRONE_IN_USE",
+];
+
+const telemetryShape: Shape<Omit<TelemetryFrame, "type">> = {
+  droneId: string,
+  time: number,
+  position: coordinate,
+  estimatedPosition: coordinate,
+  gps: object<GpsStatus>({
+    fix: boolean,
+    satellites: number,
+    hdop: number,
+    fixAge: number,
+    error: number,
+  }),
+  progress: number,
+  currentWaypoint: number,
+  distanceFlown: number,
+  distanceRemaining: number,
+  groundSpeed: number,
+  airspeed: number,
+  crabAngle: number,
+  windSpeed: number,
+  windDirection: number,
+  altitude: number,
+  altitudeReference,
+  verticalSpeed: number,
+  heading: number,
+  flightMode,
+  lap: number,
+  activeFailures: array(failureType),
+  batteryLevel: number,
+  batteryRemainingWh: number,
+  powerDraw: number,
+  estimatedEndurance: nullable(number),
+  isComplete: boolean,
+};
+
+const missionItemSummary = object<MissionItemSummary>({
+  waypointIndex: number,
+  action: missionAction,
+});
+
+const separationAlertShape: Shape<SeparationAlert> = {
+  status: oneOf(SEPARATION_STATUSES),
+  horizontalDistance: number,
+  verticalDistance: number,
+  timeToConflict: nullable(number),
+  closestApproach: object<SeparationAssessment["closestApproach"]>({
+    time: number,
+    horizontal: number,
+    vertical: number,
+  }),
+  intruderId: string,
+  intruderPosition: coordinate,
+};
+
+const simulationSnapshot = object<SimulationSnapshot>({
+  droneId: string,
+  recordingId: string,
+  waypoints: array(coordinate),
+  routeMode,
+  altitudeReference,
+  timeScale: number,
+  isPaused: boolean,
+  speed: number,
+  telemetry: object<TelemetryFrame>({ type: oneOf(["POSITION_UPDATE"]), ...telemetryShape }),
+  batteryLevel,
+  missionItem: nullable(missionItemSummary),
+  goTo: nullable(coordinate),
+  separationAlerts: array(object<SeparationAlert>(separationAlertShape)),
+});
+
+const roomStatusShape: Shape<RoomStatus> = {
+  room: string,
+  hasOperator: boolean,
+  observers: number,
+};
+
+const SERVER_MESSAGES: Variants<ServerMessage, "type"> = {
+  POSITION_UPDATE: telemetryShape,
+  SIMULATION_STARTED: {
+    droneId: string,
+    recordingId: optional(string),
+    initialPosition: coordinate,
+    waypoints: array(coordinate),
+    routeMode,
+    altitudeReference,
+    timeScale: number,
+  },
+  SIMULATION_STOPPED: { droneId: string },
+  SIMULATION_SEEKED: {
+    droneId: string,
+    time: number,
+    batteryLevel,
+    missionItem: nullable(missionItemSummary),
+  },
+  BATTERY_WARNING: {
+    droneId: string,
+    time: number,
+    level: batteryLevel,
+    stateOfCharge: number,
+    remainingWh: number,
+    action: optional(flightMode),
+  },
+  MISSION_ITEM_STARTED: {
+    droneId: string,
+    time: number,
+    waypointIndex: number,
+    actionIndex: number,
+    action: missionAction,
+  },
+  MISSION_ITEM_COMPLETED: {
+    droneId: string,
+    time: number,
+    waypointIndex: number,
+    actionIndex: number,
+    action: missionAction,
+    payloadKg: number,
+  },
+  GEOFENCE_BREACH: {
+    droneId: string,
+    time: number,
+    geofenceId: string,
+    name: string,
+    kind: oneOf(["inclusion", "exclusion"]),
+    action: oneOf(["warn", "hold", "rtl"]),
+    position: coordinate,
+    flightMode,
+  },
+  FAILURE_EVENT: {
+    droneId: string,
+    time: number,
+    failure: failureType,
+    phase: oneOf(["INJECTED", "FAILSAFE", "RECOVERED"]),
+    flightMode,
+    duration: optional(number),
+    stateOfCharge: optional(number),
+  },
+  CONFLICT_ALERT: { ...separationAlertShape, droneId: string },
+  LOSS_OF_SEPARATION: { ...separationAlertShape, droneId: string },
+  SEPARATION_RESTORED: { ...separationAlertShape, droneId: string },
+  MISSION_UPDATED: {
+    droneId: string,
+    waypoints: array(coordinate),
+    currentWaypoint: number,
+    flightMode,
+    goTo: nullable(coordinate),
+  },
+  SESSION_STARTED: { protocolVersion: number, token: string, gracePeriod: number },
+  SESSION_RESUMED: {
+    token: string,
+    room: nullable(object<RoomStatus & { role: RoomRole }>({ ...roomStatusShape, role: roomRole })),
+    drones: array(simulationSnapshot),
+  },
+  SESSION_EXPIRED: { token: string },
+  ROOM_JOINED: { ...roomStatusShape, role: roomRole, drones: array(simulationSnapshot) },
+  ROOM_UPDATED: roomStatusShape,
+  ROOM_LEFT: { room: string, role: roomRole },
+  ERROR: { code: oneOf(ERROR_CODES), message: string },
+};
+
+const clientMessage = tagged<ClientMessage, "type">("type", CLIENT_MESSAGES);
+const serverMessage = tagged<ServerMessage, "type">("type", SERVER_MESSAGES);
+
+// Encoding and decoding
+
+export type DecodeResult<T> = { message: T } | { code: ErrorCode; error: string };
+
+export type EncodeResult = { data: string } | { error: string };
+
+/**
+ * Parses and checks a message, telling apart malformed messages from ones
+ * of a type this version does not know
+ */
+function decode<T>(
+  raw: string,
+  schema: Schema<T>,
+  types: string[]
+): DecodeResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { code: "INVALID_MESSAGE", error: "Messages must be JSON" };
+  }
+
+  if (!isRecord(value) || typeof value.type !== "string") {
+    return { code: "INVALID_MESSAGE", error: "Messages must be objects with a type" };
+  }
+  if (!types.includes(value.type)) {
+    return { code: "UNKNOWN_MESSAGE_TYPE", error: `Unknown message type ${value.type}` };
+  }
+
+  const error = schema.check(value, value.type);
+  return error ? { code: "INVALID_MESSAGE", error } : { message: value as T };
+}
+
+/**
+ * Checks a message before it is sent and serialises it
+ */
+function encode<T>(message: T, schema: Schema<T>): EncodeResult {
+  const error = schema.check(message, (message as { type?: string }).type ?? "message");
+  return error ? { error } : { data: JSON.stringify(message) };
+}
+
+export function decodeClientMessage(raw: string): DecodeResult<ClientMessage> {
+  return decode(raw, clientMessage, Object.keys(CLIENT_MESSAGES));
+}
+
+export function decodeServerMessage(raw: string): DecodeResult<ServerMessage> {
+  return decode(raw, serverMessage, Object.keys(SERVER_MESSAGES));
+}
+
+export function encodeClientMessage(message: ClientMessage): EncodeResult {
+  return encode(message, clientMessage);
+}
+
+export function encodeServerMessage(message: ServerMessage): EncodeResult {
+  return encode(message, serverMessage);
+}
+
+// Headless missions
+
+// A mission flown headless through the HTTP API rather than over the socket.
+// The name tells apart the summaries of a batch.
+export interface HeadlessMission extends FlightSettings {
+  name?: string;
+}
+
+const headlessMission = object<HeadlessMission>({ name: optional(string), ...flightSettings });
+
+/**
+ * Checks a mission sent to be flown headless, returning why it is not one
+ */
+export function checkHeadlessMission(value: unknown, path: string): string | null {
+  return headlessMission.check(value, path);
+}
@@ -0,0 +1,36 @@
+// random.ts - Seeded pseudo-random numbers for reproducible simulations
+
+import { RandomState } from "./types";
+
+/**
+ * Creates a generator state from a seed. The same seed always produces the
+ * same sequence.
+ */
+export function createRandomState(seed: number): RandomState {
+  return { state: Math.floor(seed) >>> 0 };
+}
+
+/**
+ * Returns the next number in [0, 1) using the mulberry32 algorithm
+ */
+export function nextRandom(rng: RandomState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function randomBetween(rng: RandomState, min: number, max: number): number {
+  return min + (max - min) * nextRandom(rng);
+}
+
+/**
+ * Returns a normally distributed number with mean 0 and standard deviation 1
+ * using the Box-Muller transform
+ */
+export function randomGaussian(rng: RandomState): number {
+  const u1 = Math.max(nextRandom(rng), Number.EPSILON);
+  const u2 = nextRandom(rng);
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
@@ -0,0 +1,217 @@
+// recordings.ts - Flight recordings kept on disk, and replays of them
+//
+// Each simulation is recorded from the moment it starts: its config goes in
+// a metadata file, and every command and every message sent about it goes
+// in a log with one JSON entry per line. Replays stream the messages back
+// at the pace they were first sent.
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+import {
+  RecordedCommand,
+  Recording,
+  RecordingEntry,
+  RecordingMetadata,
+  Replay,
+  SimulationConfig,
+} from "./types";
+import type { ServerMessage } from "./protocol";
+
+const RECORDING_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Starts recording a simulation in the given directory
+ */
+export function startRecording(
+  directory: string,
+  droneId: string,
+  config: SimulationConfig
+): Recording {
+  const id = randomUUID();
+  const recording: Recording = {
+    metadata: {
+      id,
+      droneId,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+      duration: 0,
+      frameCount: 0,
+      commandCount: 0,
+      config,
+    },
+    startTime: Date.now(),
+    log: fs.createWriteStream(logPath(directory, id), { flags: "a" }),
+  };
+  recording.log.on("error", (error) =>
+    console.error(`Error writing recording ${id}:`, error)
+  );
+
+  saveMetadata(directory, recording.metadata);
+  return recording;
+}
+
+/**
+ * Logs a message sent about the recorded simulation
+ */
+export function recordMessage(recording: Recording, message: ServerMessage): void {
+  if (message.type === "POSITION_UPDATE") {
+    recording.metadata.frameCount++;
+    recording.metadata.duration = message.time;
+  }
+  writeEntry(recording, { at: Date.now() - recording.startTime, message });
+}
+
+/**
+ * Logs a command made to the recorded simulation
+ */
+export function recordCommand(recording: Recording, command: RecordedCommand): void {
+  recording.metadata.commandCount++;
+  writeEntry(recording, { at: Date.now() - recording.startTime, command });
+}
+
+function writeEntry(recording: Recording, entry: RecordingEntry): void {
+  if (!recording.log.writableEnded) recording.log.write(JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Stops recording and stores the final metadata
+ */
+export function finishRecording(directory: string, recording: Recording): void {
+  if (recording.log.writableEnded) return;
+  recording.metadata.endedAt = new Date().toISOString();
+  recording.log.end();
+  saveMetadata(directory, recording.metadata);
+}
+
+function saveMetadata(directory: string, metadata: RecordingMetadata): void {
+  fs.promises
+    .writeFile(metadataPath(directory, metadata.id), JSON.stringify(metadata))
+    .catch((error) => console.error(`Error saving recording ${metadata.id}:`, error));
+}
+
+/**
+ * Every stored recording, newest first
+ */
+export async function listRecordings(directory: string): Promise<RecordingMetadata[]> {
+  const files = await fs.promises.readdir(directory);
+  const recordings = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readRecordingMetadata(directory, path.basename(file, ".json")))
+  );
+  return recordings
+    .filter((metadata): metadata is RecordingMetadata => metadata !== null)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * The stored metadata of a recording, or null if there is no such recording
+ */
+export async function readRecordingMetadata(
+  directory: string,
+  id: string
+): Promise<RecordingMetadata | null> {
+  if (!RECORDING_ID_PATTERN.test(id)) return null;
+  try {
+    const data = await fs.promises.readFile(metadataPath(directory, id), "utf8");
+    return JSON.parse(data) as RecordingMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The messages of a recording's log, in the order they were sent. A line
+ * cut short by a recording still being written is skipped.
+ */
+export async function readRecordedMessages(
+  directory: string,
+  id: string
+): Promise<Replay["messages"] | null> {
+  if (!RECORDING_ID_PATTERN.test(id)) return null;
+  let data: string;
+  try {
+    data = await fs.promises.readFile(logPath(directory, id), "utf8");
+  } catch {
+    return null;
+  }
+
+  const messages: Replay["messages"] = [];
+  data.split("\n").forEach((line) => {
+    try {
+      const entry = JSON.parse(line) as RecordingEntry;
+      if ("message" in entry) messages.push(entry);
+    } catch {
+      // Empty or partial line
+    }
+  });
+  return messages;
+}
+
+/**
+ * Path of a recording's log, or null if the id cannot be a recording's
+ */
+export function recordingLogPath(directory: string, id: string): string | null {
+  return RECORDING_ID_PATTERN.test(id) ? logPath(directory, id) : null;
+}
+
+function logPath(directory: string, id: string): string {
+  return path.join(directory, `${id}.jsonl`);
+}
+
+function metadataPath(directory: string, id: string): string {
+  return path.join(directory, `${id}.json`);
+}
+
+// Replays
+
+/**
+ * Streams recorded messages to send under another drone id, at timeScale
+ * times the pace they were recorded at. The first are sent once the caller
+ * has the replay, and onEnd is called after the last one.
+ */
+export function startReplay(
+  droneId: string,
+  messages: Replay["messages"],
+  timeScale: number,
+  send: (message: ServerMessage) => void,
+  onEnd: () => void
+): Replay {
+  const replay: Replay = {
+    droneId,
+    messages,
+    next: 0,
+    startTime: Date.now(),
+    timeScale,
+    timer: null,
+  };
+
+  const tick = () => {
+    const elapsed = (Date.now() - replay.startTime) * replay.timeScale;
+    while (replay.next < messages.length && messages[replay.next].at <= elapsed) {
+      send(asDrone(messages[replay.next++].message, droneId));
+    }
+    if (replay.next >= messages.length) {
+      replay.timer = null;
+      onEnd();
+      return;
+    }
+    replay.timer = setTimeout(tick, (messages[replay.next].at - elapsed) / replay.timeScale);
+  };
+  replay.timer = setTimeout(tick, 0);
+  return replay;
+}
+
+export function stopReplay(replay: Replay): void {
+  if (replay.timer) clearTimeout(replay.timer);
+  replay.timer = null;
+}
+
+/**
+ * A recorded message as if it were about another drone
+ */
+function asDrone(message: ServerMessage, droneId: string): ServerMessage {
+  return "droneId" in message ? { ...message, droneId } : message;
+}
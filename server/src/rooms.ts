@@ -0,0 +1,77 @@
+// rooms.ts - Named rooms where one operator flies and observers watch
+
+import { Room } from "./types";
+import type { RoomRole } from "./protocol";
+
+const MAX_ROOM_NAME_LENGTH = 64;
+
+/**
+ * Reads a room name from untrusted input, or returns null if it is invalid
+ */
+export function parseRoomName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  return name && name.length <= MAX_ROOM_NAME_LENGTH ? name : null;
+}
+
+/**
+ * The room a client is in and its role there, if any
+ */
+export function findMembership(
+  rooms: Map<string, Room>,
+  clientId: string
+): { room: Room; role: RoomRole } | null {
+  for (const room of rooms.values()) {
+    if (room.operatorId === clientId) return { room, role: "operator" };
+    if (room.observerIds.has(clientId)) return { room, role: "observer" };
+  }
+  return null;
+}
+
+/**
+ * Puts a client in a room, creating the room if needed and taking the
+ * client out of any other. A room has at most one operator. Returns why the
+ * client cannot join, or null once it has.
+ */
+export function joinRoom(
+  rooms: Map<string, Room>,
+  name: string,
+  clientId: string,
+  role: RoomRole
+): string | null {
+  const existing = rooms.get(name);
+  if (role === "operator" && existing?.operatorId && existing.operatorId !== clientId) {
+    return `Room ${name} already has an operator`;
+  }
+
+  leaveRoom(rooms, clientId);
+  const room = rooms.get(name) ?? { name, operatorId: null, observerIds: new Set<string>() };
+  if (role === "operator") room.operatorId = clientId;
+  else room.observerIds.add(clientId);
+  rooms.set(name, room);
+  return null;
+}
+
+/**
+ * Takes a client out of its room, dropping the room once nobody is left in
+ * it. Returns the room the client left, if any.
+ */
+export function leaveRoom(rooms: Map<string, Room>, clientId: string): Room | null {
+  const membership = findMembership(rooms, clientId);
+  if (!membership) return null;
+
+  const { room } = membership;
+  if (room.operatorId === clientId) room.operatorId = null;
+  room.observerIds.delete(clientId);
+  if (!room.operatorId && room.observerIds.size === 0) rooms.delete(room.name);
+  return room;
+}
+
+/**
+ * The clients watching a client's simulations: the observers of the room
+ * it operates, if any
+ */
+export function observersOf(rooms: Map<string, Room>, clientId: string): string[] {
+  const membership = findMembership(rooms, clientId);
+  return membership?.role === "operator" ? Array.from(membership.room.observerIds) : [];
+}
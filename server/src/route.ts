@@ -0,0 +1,172 @@
+// route.ts - Order in which the waypoints of a route are flown
+
+import { Coordinate, RouteMode, SimulationState } from "./types";
+import { vincentyDistance } from "./geo";
+
+const ROUTE_MODES: RouteMode[] = ["once", "loop", "ping-pong"];
+
+export function isRouteMode(value: unknown): value is RouteMode {
+  return ROUTE_MODES.includes(value as RouteMode);
+}
+
+/**
+ * Whether the drone flies another lap after the current one. Routes flown
+ * outside of the mission, such as a return to launch, are only flown once.
+ */
+function hasMoreLaps(state: SimulationState): boolean {
+  if (state.routeMode === "once" || state.flightMode !== "MISSION") return false;
+  return state.laps === null || state.lap < state.laps;
+}
+
+/**
+ * Index of the waypoint the drone flies to after the given one, or the
+ * number of waypoints when the route ends there
+ */
+export function followingWaypointIndex(state: SimulationState, index: number): number {
+  const count = state.waypoints.length;
+  const continues = hasMoreLaps(state);
+
+  if (state.routeMode === "ping-pong" && state.flightMode === "MISSION") {
+    const next = index + state.routeDirection;
+    if (next >= 0 && next < count) return next;
+    return continues ? index - state.routeDirection : count;
+  }
+
+  if (index + 1 < count) return index + 1;
+  return continues ? 0 : count;
+}
+
+/**
+ * Moves on to the leg after the waypoint just reached, starting a new lap
+ * when the route wraps around or reverses
+ */
+export function advanceWaypoint(state: SimulationState): void {
+  const reached = state.nextWaypointIndex;
+  const next = followingWaypointIndex(state, reached);
+  const count = state.waypoints.length;
+
+  const wraps =
+    next < count &&
+    (state.routeMode === "ping-pong"
+      ? next - reached !== state.routeDirection
+      : next <= reached);
+  if (wraps && state.flightMode === "MISSION") {
+    if (state.routeMode === "ping-pong") {
+      state.routeDirection = state.routeDirection === 1 ? -1 : 1;
+    }
+    state.lap++;
+    state.lapStartDistance = state.distanceFlown;
+
+    // A route that repeats forever only ever plans to the end of this lap
+    if (state.laps === null) {
+      state.totalDistance =
+        state.distanceFlown + lapDistance(state.waypoints, state.routeMode, false);
+    }
+  }
+
+  state.currentWaypointIndex = reached;
+  state.nextWaypointIndex = next;
+  state.segmentDistanceFlown = 0;
+  state.legOrigin = null;
+}
+
+/**
+ * Where the current leg starts: the waypoint last reached, or the point
+ * the leg was re-planned from
+ */
+export function legStart(state: SimulationState): Coordinate {
+  return state.legOrigin ?? state.waypoints[state.currentWaypointIndex];
+}
+
+/**
+ * Starts the current leg again from where the drone is, after the waypoint
+ * at its end has changed. A drone carrying out a mission item leaves from
+ * the item's centre once it is done.
+ */
+export function replanLeg(state: SimulationState): void {
+  const origin = state.missionItem?.centre ?? state.currentPosition;
+  state.legOrigin = { lat: origin.lat, lng: origin.lng, alt: state.altitude };
+  state.segmentDistanceFlown = 0;
+  state.crossTrackError = 0;
+}
+
+/**
+ * Metres left to fly on the mission: the rest of the current leg and lap,
+ * and any laps after it. A route that repeats forever only counts to the
+ * end of the current lap.
+ */
+export function remainingDistance(state: SimulationState): number {
+  const { waypoints, routeMode } = state;
+  const next = state.nextWaypointIndex;
+  if (next >= waypoints.length) return 0;
+
+  let distance = Math.max(
+    vincentyDistance(legStart(state), waypoints[next]) - state.segmentDistanceFlown,
+    0
+  );
+
+  // Laps end at the last waypoint, or at the first when a ping-pong route
+  // is flown in reverse
+  const step = routeMode === "ping-pong" ? state.routeDirection : 1;
+  const end = step === 1 ? waypoints.length - 1 : 0;
+  for (let i = next; i !== end; i += step) {
+    distance += vincentyDistance(waypoints[i], waypoints[i + step]);
+  }
+
+  if (routeMode !== "once" && state.laps !== null) {
+    distance += Math.max(state.laps - state.lap, 0) * lapDistance(waypoints, routeMode, false);
+  }
+  return distance;
+}
+
+/**
+ * Goes back to the mission left for a go-to, flying from where the drone
+ * is to the waypoint it was heading for
+ */
+export function resumeMission(state: SimulationState): void {
+  const mission = state.suspendedMission;
+  if (!mission) return;
+
+  state.suspendedMission = null;
+  state.waypoints = mission.waypoints;
+  state.currentWaypointIndex = mission.currentWaypointIndex;
+  state.nextWaypointIndex = mission.nextWaypointIndex;
+  state.routeDirection = mission.routeDirection;
+  state.flightMode = "MISSION";
+  state.missionItem = null;
+  replanLeg(state);
+  state.totalDistance = state.distanceFlown + remainingDistance(state);
+}
+
+/**
+ * Length in metres of one lap of the route. Laps after the first of a loop
+ * include the leg from the last waypoint back to the first.
+ */
+export function lapDistance(
+  waypoints: Coordinate[],
+  routeMode: RouteMode,
+  firstLap: boolean
+): number {
+  let distance = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    distance += vincentyDistance(waypoints[i], waypoints[i + 1]);
+  }
+  if (routeMode === "loop" && !firstLap) {
+    distance += vincentyDistance(waypoints[waypoints.length - 1], waypoints[0]);
+  }
+  return distance;
+}
+
+/**
+ * Length in metres of the whole mission, or of the first lap when the route
+ * repeats forever
+ */
+export function missionDistance(
+  waypoints: Coordinate[],
+  routeMode: RouteMode,
+  laps: number | null
+): number {
+  const first = lapDistance(waypoints, routeMode, true);
+  if (routeMode === "once" || laps === null) return first;
+  return first + (laps - 1) * lapDistance(waypoints, routeMode, false);
+}
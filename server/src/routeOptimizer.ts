@@ -0,0 +1,190 @@
+// routeOptimizer.ts - Reorders waypoints into a short route
+//
+// Finding the shortest order is the travelling salesman problem, so a
+// heuristic is used: a nearest-neighbour route is built first, then improved
+// with 2-opt (reversing a stretch of the route) and Or-opt (moving a run of
+// up to three waypoints elsewhere) until neither shortens it. Distances are
+// measured on the ellipsoid, as the simulation flies them.
+
+import { Coordinate, RouteOptimization, RouteOptimizationOptions } from "./types";
+import { vincentyDistance } from "./geo";
+
+// Longest run of waypoints an Or-opt move shifts at once
+const OR_OPT_MAX_RUN = 3;
+
+// Metres a move must save to count, so rounding cannot make it cycle
+const IMPROVEMENT_EPSILON_M = 1e-6;
+
+// A route as indices into the waypoints, with the distance between each pair
+interface Tour {
+  order: number[];
+  distances: number[][];
+  closed: boolean; // Flies back from the last waypoint to the first
+  first: number; // Positions the moves may change
+  last: number;
+}
+
+/**
+ * Reorders waypoints to shorten the route through them. The first waypoint
+ * stays first with a fixed start or a return to it, and the last stays last
+ * with a fixed end. The waypoints keep their altitudes and actions.
+ */
+export function optimizeRoute(
+  waypoints: Coordinate[],
+  options: RouteOptimizationOptions
+): RouteOptimization {
+  const count = waypoints.length;
+  const distances = waypoints.map(() => new Array<number>(count).fill(0));
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      distances[i][j] = distances[j][i] = vincentyDistance(waypoints[i], waypoints[j]);
+    }
+  }
+  const closed = options.returnToStart;
+  const original = waypoints.map((_, i) => i);
+
+  const tour: Tour = {
+    order: nearestNeighbourOrder(distances, options),
+    distances,
+    closed,
+    first: options.fixedStart || closed ? 1 : 0,
+    last: options.fixedEnd && !closed ? count - 2 : count - 1,
+  };
+  let improved = true;
+  while (improved) improved = improveByTwoOpt(tour) || improveByOrOpt(tour);
+
+  return {
+    waypoints: tour.order.map((index) => waypoints[index]),
+    order: tour.order,
+    distanceBefore: routeDistance(original, distances, closed),
+    distanceAfter: routeDistance(tour.order, distances, closed),
+  };
+}
+
+/**
+ * Metres flown along a route through the waypoints in an order
+ */
+function routeDistance(order: number[], distances: number[][], closed: boolean): number {
+  let distance = 0;
+  for (let i = 1; i < order.length; i++) distance += distances[order[i - 1]][order[i]];
+  if (closed && order.length > 1) distance += distances[order[order.length - 1]][order[0]];
+  return distance;
+}
+
+/**
+ * A route from the first waypoint that always flies to the nearest waypoint
+ * not yet visited, leaving a fixed end for last
+ */
+function nearestNeighbourOrder(
+  distances: number[][],
+  options: RouteOptimizationOptions
+): number[] {
+  const count = distances.length;
+  const end = options.fixedEnd && !options.returnToStart ? count - 1 : null;
+  const visited = new Array<boolean>(count).fill(false);
+  const order = [0];
+  visited[0] = true;
+  if (end !== null) visited[end] = true;
+
+  const remaining = count - (end === null ? 1 : 2);
+  for (let step = 0; step < remaining; step++) {
+    const from = order[order.length - 1];
+    let nearest = -1;
+    for (let candidate = 0; candidate < count; candidate++) {
+      if (!visited[candidate] && (nearest < 0 || distances[from][candidate] < distances[from][nearest])) {
+        nearest = candidate;
+      }
+    }
+    visited[nearest] = true;
+    order.push(nearest);
+  }
+
+  if (end !== null) order.push(end);
+  return order;
+}
+
+/**
+ * The waypoint flown before or after a position, or null past an open end
+ */
+function neighbour(tour: Tour, position: number): number | null {
+  const { order, closed } = tour;
+  if (position >= 0 && position < order.length) return order[position];
+  if (!closed) return null;
+  return order[(position + order.length) % order.length];
+}
+
+/**
+ * Metres between two waypoints, nothing when either is past an open end
+ */
+function legDistance(tour: Tour, from: number | null, to: number | null): number {
+  return from === null || to === null ? 0 : tour.distances[from][to];
+}
+
+/**
+ * Goes through the route once making every 2-opt move that shortens it:
+ * reversing the waypoints between two positions. Returns whether there was
+ * one.
+ */
+function improveByTwoOpt(tour: Tour): boolean {
+  const { order } = tour;
+  let improved = false;
+  for (let i = tour.first; i < tour.last; i++) {
+    const before = neighbour(tour, i - 1);
+    for (let j = i + 1; j <= tour.last; j++) {
+      const after = neighbour(tour, j + 1);
+      const change =
+        legDistance(tour, before, order[j]) +
+        legDistance(tour, order[i], after) -
+        legDistance(tour, before, order[i]) -
+        legDistance(tour, order[j], after);
+      if (change < -IMPROVEMENT_EPSILON_M) {
+        const reversed = order.slice(i, j + 1).reverse();
+        order.splice(i, reversed.length, ...reversed);
+        improved = true;
+      }
+    }
+  }
+  return improved;
+}
+
+/**
+ * Goes through the route once making every Or-opt move that shortens it:
+ * taking out a run of waypoints and putting it back, either way round,
+ * between two others. Returns whether there was one.
+ */
+function improveByOrOpt(tour: Tour): boolean {
+  const { order } = tour;
+  let improved = false;
+  for (let run = 1; run <= OR_OPT_MAX_RUN; run++) {
+    for (let i = tour.first; i + run - 1 <= tour.last; i++) {
+      const j = i + run - 1;
+      const before = neighbour(tour, i - 1);
+      const after = neighbour(tour, j + 1);
+      const saved =
+        legDistance(tour, before, order[i]) +
+        legDistance(tour, order[j], after) -
+        legDistance(tour, before, after);
+
+      // Gaps the run could go into: between positions k and k + 1, outside
+      // the run and within the part of the route that may change
+      for (let k = tour.first - 1; k <= tour.last; k++) {
+        if (k >= i - 1 && k <= j) continue;
+        const from = neighbour(tour, k);
+        const to = neighbour(tour, k + 1);
+        if (from === null && to === null) continue;
+
+        const forwards = legDistance(tour, from, order[i]) + legDistance(tour, order[j], to);
+        const backwards = legDistance(tour, from, order[j]) + legDistance(tour, order[i], to);
+        const added = Math.min(forwards, backwards) - legDistance(tour, from, to);
+        if (added - saved < -IMPROVEMENT_EPSILON_M) {
+          const moved = order.splice(i, run);
+          if (backwards < forwards) moved.reverse();
+          order.splice(k < i ? k + 1 : k + 1 - run, 0, ...moved);
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+  return improved;
+}
@@ -0,0 +1,254 @@
+// separation.ts - Separation monitoring between drones in flight
+
+import {
+  MonitoredDrone,
+  SeparationAssessment,
+  SeparationChange,
+  SeparationConfig,
+  SeparationMonitor,
+  SeparationStatus,
+  SimulationState,
+} from "./types";
+import { EARTH_RADIUS_M, toRadians } from "./geo";
+import { truePosition } from "./failures";
+
+export const DEFAULT_SEPARATION_CONFIG: SeparationConfig = {
+  horizontal: 50,
+  vertical: 15,
+  lookAhead: 30,
+};
+
+// Below this closing speed two drones are treated as not closing at all
+const MIN_CLOSING_SPEED_MPS = 1e-6;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+export function createSeparationMonitor(
+  config: SeparationConfig = DEFAULT_SEPARATION_CONFIG
+): SeparationMonitor {
+  return { config, pairs: new Map() };
+}
+
+/**
+ * Position of b relative to a in metres east and north, on a flat plane
+ * through a. Accurate to well under a metre at separation distances.
+ */
+function relativePosition(a: SimulationState, b: SimulationState) {
+  const positionA = truePosition(a);
+  const positionB = truePosition(b);
+  const north = toRadians(positionB.lat - positionA.lat) * EARTH_RADIUS_M;
+  const east =
+    toRadians(positionB.lng - positionA.lng) *
+    EARTH_RADIUS_M *
+    Math.cos(toRadians(positionA.lat));
+  return { east, north, up: b.altitude - a.altitude };
+}
+
+/**
+ * Velocity over the ground in metres per second. The track differs from
+ * the heading by the crab angle flown into the wind.
+ */
+function velocity(state: SimulationState) {
+  const track = toRadians(state.heading - state.crabAngle);
+  return {
+    east: state.groundSpeed * Math.sin(track),
+    north: state.groundSpeed * Math.cos(track),
+    up: state.verticalSpeed,
+  };
+}
+
+/**
+ * Times at which a quantity changing at a steady rate is within the limit
+ * either side of zero, or null if it never is
+ */
+function verticalInterval(offset: number, rate: number, limit: number): Interval | null {
+  if (Math.abs(rate) < MIN_CLOSING_SPEED_MPS) {
+    return Math.abs(offset) < limit ? { start: -Infinity, end: Infinity } : null;
+  }
+  const t1 = (-limit - offset) / rate;
+  const t2 = (limit - offset) / rate;
+  return { start: Math.min(t1, t2), end: Math.max(t1, t2) };
+}
+
+/**
+ * Times at which two points moving at steady velocities are closer than the
+ * limit on the horizontal plane, or null if they never are
+ */
+function horizontalInterval(
+  east: number,
+  north: number,
+  velocityEast: number,
+  velocityNorth: number,
+  limit: number
+): Interval | null {
+  const a = velocityEast ** 2 + velocityNorth ** 2;
+  const c = east ** 2 + north ** 2 - limit ** 2;
+  if (a < MIN_CLOSING_SPEED_MPS ** 2) {
+    return c < 0 ? { start: -Infinity, end: Infinity } : null;
+  }
+
+  const b = 2 * (east * velocityEast + north * velocityNorth);
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant <= 0) return null;
+  const root = Math.sqrt(discriminant);
+  return { start: (-b - root) / (2 * a), end: (-b + root) / (2 * a) };
+}
+
+/**
+ * Predicts how the separation between two drones develops over the
+ * look-ahead window if both hold their current velocity. Separation is lost
+ * when the drones are closer than both minimums at once.
+ */
+export function assessSeparation(
+  a: SimulationState,
+  b: SimulationState,
+  config: SeparationConfig
+): SeparationAssessment {
+  const position = relativePosition(a, b);
+  const velocityA = velocity(a);
+  const velocityB = velocity(b);
+  const closing = {
+    east: velocityB.east - velocityA.east,
+    north: velocityB.north - velocityA.north,
+    up: velocityB.up - velocityA.up,
+  };
+
+  const horizontalDistance = Math.hypot(position.east, position.north);
+  const verticalDistance = Math.abs(position.up);
+
+  // Closest horizontal approach within the window
+  const closingSpeedSquared = closing.east ** 2 + closing.north ** 2;
+  const closestTime =
+    closingSpeedSquared < MIN_CLOSING_SPEED_MPS ** 2
+      ? 0
+      : Math.min(
+          Math.max(
+            -(position.east * closing.east + position.north * closing.north) /
+              closingSpeedSquared,
+            0
+          ),
+          config.lookAhead
+        );
+  const closestApproach = {
+    time: closestTime,
+    horizontal: Math.hypot(
+      position.east + closing.east * closestTime,
+      position.north + closing.north * closestTime
+    ),
+    vertical: Math.abs(position.up + closing.up * closestTime),
+  };
+
+  // Separation is lost while the drones are inside both minimums
+  const horizontal = horizontalInterval(
+    position.east,
+    position.north,
+    closing.east,
+    closing.north,
+    config.horizontal
+  );
+  const vertical = verticalInterval(position.up, closing.up, config.vertical);
+  let timeToConflict: number | null = null;
+  if (horizontal && vertical) {
+    const start = Math.max(horizontal.start, vertical.start, 0);
+    const end = Math.min(horizontal.end, vertical.end, config.lookAhead);
+    if (start <= end) timeToConflict = start;
+  }
+
+  let status: SeparationStatus = "CLEAR";
+  if (timeToConflict === 0) status = "LOSS";
+  else if (timeToConflict !== null) status = "CONFLICT";
+
+  return { status, horizontalDistance, verticalDistance, timeToConflict, closestApproach };
+}
+
+/**
+ * Assesses every pair of drones and returns the pairs whose status changed
+ * since the last check. A pair that was in conflict is cleared once either
+ * drone is no longer monitored.
+ */
+export function checkSeparation(
+  monitor: SeparationMonitor,
+  drones: MonitoredDrone[]
+): SeparationChange[] {
+  const changes: SeparationChange[] = [];
+  const pairs: SeparationMonitor["pairs"] = new Map();
+  const assessed = new Set<string>();
+
+  for (let i = 0; i < drones.length; i++) {
+    for (let j = i + 1; j < drones.length; j++) {
+      const pair: [MonitoredDrone, MonitoredDrone] = [drones[i], drones[j]];
+      const key = pairKey(drones[i], drones[j]);
+      assessed.add(key);
+      const assessment = assessSeparation(drones[i].state, drones[j].state, monitor.config);
+      const previous = monitor.pairs.get(key)?.assessment.status ?? "CLEAR";
+      if (assessment.status !== previous) {
+        changes.push({ drones: pair, assessment, previous });
+      }
+      if (assessment.status !== "CLEAR") pairs.set(key, { drones: pair, assessment });
+    }
+  }
+
+  monitor.pairs.forEach(({ drones: pair, assessment }, key) => {
+    if (!assessed.has(key)) {
+      changes.push({
+        drones: pair,
+        assessment: { ...assessment, status: "CLEAR", timeToConflict: null },
+        previous: assessment.status,
+      });
+    }
+  });
+
+  monitor.pairs = pairs;
+  return changes;
+}
+
+/**
+ * The drones one drone was not clear of at the last check, each with the
+ * assessment of the pair
+ */
+export function separationConflicts(
+  monitor: SeparationMonitor,
+  clientId: string,
+  droneId: string
+): { intruder: MonitoredDrone; assessment: SeparationAssessment }[] {
+  const conflicts: { intruder: MonitoredDrone; assessment: SeparationAssessment }[] = [];
+  monitor.pairs.forEach(({ drones: [a, b], assessment }) => {
+    if (a.clientId === clientId && a.droneId === droneId) conflicts.push({ intruder: b, assessment });
+    else if (b.clientId === clientId && b.droneId === droneId) conflicts.push({ intruder: a, assessment });
+  });
+  return conflicts;
+}
+
+/**
+ * Reads separation settings from untrusted input, keeping the current value
+ * of any setting left out. Returns the new settings or an error message.
+ */
+export function parseSeparationConfig(
+  value: unknown,
+  current: SeparationConfig
+): { config: SeparationConfig } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "Settings must be an object" };
+  const data = value as Record<string, unknown>;
+
+  const config = { ...current };
+  for (const key of ["horizontal", "vertical", "lookAhead"] as const) {
+    if (data[key] === undefined) continue;
+    const setting = data[key];
+    if (typeof setting !== "number" || !isFinite(setting) || setting <= 0) {
+      return { error: `${key} must be a positive number` };
+    }
+    config[key] = setting;
+  }
+  return { config };
+}
+
+/**
+ * Identifies a pair of drones regardless of the order they are given in
+ */
+function pairKey(a: MonitoredDrone, b: MonitoredDrone): string {
+  const keys = [`${a.clientId}/${a.droneId}`, `${b.clientId}/${b.droneId}`].sort();
+  return keys.join("|");
+}
@@ -8,46 +8,170 @@ import bodyParser from "body-parser";
 import fileUpload from "express-fileupload";
 import fs from "fs";
 import path from "path";
-
-// Type definitions to make our code type-safe
-interface Coordinate {
-  lat: number;
-  lng: number;
-}
-
-interface SimulationState {
-  waypoints: Coordinate[];
-  currentWaypointIndex: number;
-  nextWaypointIndex: number;
-  progress: number;
-  speed: number;
-  isPaused: boolean;
-  startTime: number;
-  currentPosition: Coordinate;
-  totalDistance?: number;
-  isComplete?: boolean;
-}
-
-interface ActiveSimulation {
-  state: SimulationState;
-  interval: NodeJS.Timeout;
-}
-
-interface WebSocketWithId extends WebSocket {
-  id?: string;
-}
-
-interface WebSocketMessage {
-  type: string;
-  waypoints?: Coordinate[];
-  speed?: number;
-}
-
-interface GeocodeResult {
-  name: string;
-  lat: number;
-  lng: number;
-}
+import { randomUUID } from "crypto";
+
+import {
+  ActiveSimulation,
+  ClientSession,
+  Coordinate,
+  Failure,
+  FlightSummary,
+  GcsCommand,
+  GeocodeResult,
+  Geofence,
+  Mission,
+  MissionUpdate,
+  MonitoredDrone,
+  RecordingMetadata,
+  Replay,
+  Room,
+  RoomSummary,
+  SeekTarget,
+  SeparationChange,
+  SimulationCommand,
+  SimulationConfig,
+  WebSocketWithId,
+} from "./types";
+import {
+  ClientMessage,
+  ErrorCode,
+  FlightSettings,
+  HeadlessMission,
+  MissionItemSummary,
+  PROTOCOL_VERSION,
+  ReplayRecordingMessage,
+  RoomRole,
+  RoomStatus,
+  SeekSimulationMessage,
+  SeparationMessage,
+  ServerMessage,
+  SimulationSnapshot,
+  StartSimulationMessage,
+  checkHeadlessMission,
+  decodeClientMessage,
+  encodeServerMessage,
+} from "./protocol";
+import {
+  MAX_SIMULATION_DURATION_S,
+  applyCommand,
+  configVehicle,
+  createSimulationState,
+  seekSimulation,
+  simulationConfigError,
+  telemetryFrame,
+} from "./engine";
+import { parseMissionActions } from "./missionActions";
+import { summarizeFlight } from "./flightSummary";
+import { optimizeRoute } from "./routeOptimizer";
+import {
+  deleteMission,
+  listMissions,
+  parseMission,
+  readMission,
+  saveMission,
+} from "./missions";
+import { parseGeofence } from "./geofence";
+import { parseFailure, parseScheduledFailures, truePosition } from "./failures";
+import {
+  currentMission,
+  goToTarget,
+  missionUpdateError,
+  parseMissionUpdate,
+  parseWaypoint,
+} from "./missionUpdate";
+import {
+  clampTimeScale,
+  createClock,
+  setTimeScale,
+  startClock,
+  stopClock,
+} from "./clock";
+import {
+  finishRecording,
+  listRecordings,
+  readRecordedMessages,
+  readRecordingMetadata,
+  recordCommand,
+  recordMessage,
+  recordingLogPath,
+  startRecording,
+  startReplay,
+  stopReplay,
+} from "./recordings";
+import {
+  findMembership,
+  joinRoom,
+  leaveRoom,
+  observersOf,
+  parseRoomName,
+} from "./rooms";
+import {
+  checkSeparation,
+  createSeparationMonitor,
+  parseSeparationConfig,
+  separationConflicts,
+} from "./separation";
+import {
+  exportFlight,
+  exportFormatError,
+  parseExportFormat,
+  recordedFlight,
+} from "./trackExport";
+import {
+  MAVLINK_STREAM_INTERVAL_MS,
+  bindVehicle,
+  createMavlinkBridge,
+  parseMavlinkConfig,
+  streamTelemetry,
+} from "./mavlinkBridge";
+
+const DEFAULT_DRONE_ID = "drone-1";
+
+// Wall-clock milliseconds between separation checks across all simulations
+const SEPARATION_CHECK_INTERVAL_MS = 250;
+
+// How long a disconnected client's simulations keep flying, waiting for it
+// to resume its session
+const SESSION_GRACE_PERIOD_MS = 60 * 1000;
+
+// Where simulations are recorded
+const RECORDINGS_DIR = path.join(__dirname, "recordings");
+
+// Where the mission library is kept
+const MISSIONS_DIR = path.join(__dirname, "missions");
+
+// Most missions a single request may fly headless, and the simulated seconds
+// they may fly between them. They are flown one after another, yielding to
+// live simulations as they go.
+const MAX_HEADLESS_MISSIONS = 10;
+const MAX_HEADLESS_SIMULATED_S = MAX_SIMULATION_DURATION_S;
+
+// Most waypoints a route can be optimised over. The work grows with the
+// square of the count and blocks the event loop while it runs.
+const MAX_OPTIMIZED_WAYPOINTS = 500;
+
+// Owner of the drones ground stations start on vehicles no client is flying
+const MAVLINK_CLIENT_ID = "mavlink";
+
+// The only messages an observer may send; everything else would control
+// the room's simulations
+const OBSERVER_MESSAGES: ClientMessage["type"][] = [
+  "RESUME_SESSION",
+  "JOIN_ROOM",
+  "LEAVE_ROOM",
+];
+
+// Messages that act on one of the client's drones, or on all of them.
+// Stopping is left out so that it is always safe to send.
+const DRONE_COMMANDS = [
+  "PAUSE_SIMULATION",
+  "RESUME_SIMULATION",
+  "UPDATE_SPEED",
+  "SEEK_SIMULATION",
+  "INJECT_FAILURE",
+  "UPDATE_MISSION",
+  "SET_TIME_SCALE",
+] as const;
 
 // Initialize Express app
 const app: Express = express();
@@ -67,41 +191,146 @@ app.use(
 );
 app.use(express.static("public"));
 
-// Store active simulations
-const activeSimulations = new Map<string, ActiveSimulation>();
+// Store active simulations per client, each client's fleet keyed by drone id
+const activeSimulations = new Map<string, Map<string, ActiveSimulation>>();
+
+// Geofences by id. New simulations take a copy of the fences that exist
+// when they start.
+const geofences = new Map<string, Geofence>();
+
+// Connected clients by id, so events about several clients' drones can
+// reach each of them
+const clients = new Map<string, WebSocketWithId>();
+
+// Client sessions by token. A session outlives its connection so a client
+// that reconnects can take back its simulations.
+const sessions = new Map<string, ClientSession>();
+
+// Rooms by name, each sharing its operator's simulations with observers
+const rooms = new Map<string, Room>();
+
+// Recordings being replayed to each client, keyed by the drone id each is
+// shown as
+const replays = new Map<string, Map<string, Replay>>();
+
+// Separation between every pair of drones in flight, across all clients
+const separationMonitor = createSeparationMonitor();
+setInterval(monitorSeparation, SEPARATION_CHECK_INTERVAL_MS);
+
+// Ground control stations, over MAVLink. The bridge only runs when
+// MAVLINK_TARGET ("host:port") says where to send telemetry. Commands are
+// taken on MAVLINK_PORT at MAVLINK_BIND_ADDRESS, which is this machine only
+// unless set, since ground stations can control every client's drones.
+const mavlinkSettings = parseMavlinkConfig(
+  process.env.MAVLINK_TARGET,
+  process.env.MAVLINK_PORT,
+  process.env.MAVLINK_BIND_ADDRESS
+);
+if ("error" in mavlinkSettings) {
+  console.error(`MAVLink bridge not started: ${mavlinkSettings.error}`);
+}
+const mavlinkConfig = "config" in mavlinkSettings ? mavlinkSettings.config : null;
+const mavlinkBridge = mavlinkConfig ? createMavlinkBridge(mavlinkConfig, handleGcsCommand) : null;
+if (mavlinkBridge) setInterval(streamMavlinkTelemetry, MAVLINK_STREAM_INTERVAL_MS);
 
 // WebSocket connection handling
 wss.on("connection", (ws: WebSocketWithId) => {
   console.log("Client connected");
 
-  // Assign a unique ID to each connection
-  ws.id = Date.now().toString();
-  console.log(`Assigned ID: ${ws.id}`);
   ws.on("message", (message: Buffer) => {
     try {
-      // Parse incoming message to JSON
-      const data = JSON.parse(message.toString()) as WebSocketMessage;
+      const decoded = decodeClientMessage(message.toString());
+      if ("error" in decoded) {
+        sendError(ws, decoded.code, decoded.error);
+        return;
+      }
+      const data = decoded.message;
+
+      // Nothing else is understood until both sides agree on the protocol
+      if (data.type === "HELLO") {
+        handleHello(ws, data.protocolVersion);
+        return;
+      }
+      if (!ws.id) {
+        sendError(ws, "HANDSHAKE_REQUIRED", "Send HELLO before any other message");
+        return;
+      }
+      const clientId = ws.id;
+
+      // Observers only watch the room's simulations
+      if (
+        findMembership(rooms, clientId)?.role === "observer" &&
+        !OBSERVER_MESSAGES.includes(data.type)
+      ) {
+        sendError(ws, "OBSERVER_READ_ONLY", "Observers cannot control the simulation");
+        return;
+      }
+
+      // Commands to drones the client is not flying have nothing to act on
+      if (isDroneCommand(data) && selectSimulations(clientId, data.droneId).length === 0) {
+        sendError(
+          ws,
+          "NO_ACTIVE_SIMULATION",
+          data.droneId ? `No drone ${data.droneId} is flying` : "No drones are flying"
+        );
+        return;
+      }
 
       // Handle different message types
       switch (data.type) {
+        case "RESUME_SESSION":
+          handleResumeSession(ws, data.token);
+          break;
+        case "JOIN_ROOM": {
+          const room = parseRoomName(data.room);
+          if (room) handleJoinRoom(ws, room, data.role);
+          else sendError(ws, "INVALID_ROOM", "Room names must be 1 to 64 characters");
+          break;
+        }
+        case "LEAVE_ROOM":
+          handleLeaveRoom(ws);
+          break;
         case "START_SIMULATION":
           handleStartSimulation(ws, data);
           break;
         case "PAUSE_SIMULATION":
-          if (ws.id) handlePauseSimulation(ws.id);
+          handlePauseSimulation(clientId, data.droneId);
           break;
         case "RESUME_SIMULATION":
-          if (ws.id) handleResumeSimulation(ws.id);
+          handleResumeSimulation(clientId, data.droneId);
           break;
         case "STOP_SIMULATION":
-          if (ws.id) handleStopSimulation(ws.id);
+          handleStopSimulation(clientId, data.droneId);
           break;
         case "UPDATE_SPEED":
-          if (ws.id && typeof data.speed === "number")
-            handleUpdateSpeed(ws.id, data.speed);
+          handleUpdateSpeed(ws, clientId, data.speed, data.droneId);
+          break;
+        case "SEEK_SIMULATION": {
+          const target = parseSeekTarget(data);
+          if (target) handleSeekSimulation(ws, target, data.droneId);
+          else sendError(ws, "INVALID_SEEK_TARGET", "A seek needs a time, progress or waypointIndex");
+          break;
+        }
+        case "INJECT_FAILURE": {
+          const failure = parseFailure(data.failure);
+          if (failure) handleInjectFailure(clientId, failure, data.droneId);
+          else sendError(ws, "INVALID_FAILURE", "Unknown or invalid failure");
+          break;
+        }
+        case "UPDATE_MISSION": {
+          const update = parseMissionUpdate(data.update);
+          if (update) handleUpdateMission(ws, update, data.droneId);
+          else sendError(ws, "INVALID_MISSION_UPDATE", "Unknown or invalid mission update");
+          break;
+        }
+        case "SET_TIME_SCALE":
+          handleSetTimeScale(clientId, data.timeScale, data.droneId);
+          break;
+        case "REPLAY_RECORDING":
+          handleReplayRecording(ws, data).catch((error) =>
+            console.error("Error replaying recording:", error)
+          );
           break;
-        default:
-          console.log("Unknown message type:", data.type);
       }
     } catch (error) {
       console.error("Error processing message:", error);
@@ -110,203 +339,910 @@ wss.on("connection", (ws: WebSocketWithId) => {
 
   ws.on("close", () => {
     console.log("Client disconnected");
-    // Clean up any active simulations for this client
-    if (ws.id && activeSimulations.has(ws.id)) {
-      clearInterval(activeSimulations.get(ws.id)!.interval);
-      activeSimulations.delete(ws.id);
+    // A connection replaced by a resumed one leaves the session alone
+    if (!ws.id || clients.get(ws.id) !== ws) return;
+    clients.delete(ws.id);
+
+    // Keep the client's simulations flying for a while in case it comes
+    // back, then clean them up
+    const clientId = ws.id;
+    const session = ws.sessionToken ? sessions.get(ws.sessionToken) : undefined;
+    if (!session) {
+      endClient(clientId);
+      return;
     }
+    session.expiryTimer = setTimeout(() => {
+      sessions.delete(ws.sessionToken!);
+      endClient(clientId);
+    }, SESSION_GRACE_PERIOD_MS);
   });
 });
 
+// Session Handlers
+
+/**
+ * Completes the handshake: a client speaking this protocol version is
+ * given a session, and any other is turned away
+ */
+function handleHello(ws: WebSocketWithId, protocolVersion: number): void {
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    sendError(
+      ws,
+      "UNSUPPORTED_VERSION",
+      `The server speaks protocol version ${PROTOCOL_VERSION}, not ${protocolVersion}`
+    );
+    ws.close();
+    return;
+  }
+  if (ws.id) return;
+
+  // Assign a unique ID to each connection, and a session token the client
+  // can later resume it with
+  ws.protocolVersion = protocolVersion;
+  ws.id = randomUUID();
+  ws.sessionToken = randomUUID();
+  console.log(`Assigned ID: ${ws.id}`);
+  clients.set(ws.id, ws);
+  sessions.set(ws.sessionToken, { clientId: ws.id, expiryTimer: null });
+  sendMessage(ws, {
+    type: "SESSION_STARTED",
+    protocolVersion,
+    token: ws.sessionToken,
+    gracePeriod: SESSION_GRACE_PERIOD_MS / 1000,
+  });
+}
+
+/**
+ * Moves a connection onto an earlier session, so it takes over that
+ * client's simulations, and sends it a snapshot of each of them. A session
+ * that has expired leaves the connection with the fresh session it was
+ * given.
+ */
+function handleResumeSession(ws: WebSocketWithId, token: string): void {
+  const session = sessions.get(token);
+  if (!session) {
+    sendMessage(ws, { type: "SESSION_EXPIRED", token: ws.sessionToken! });
+    return;
+  }
+
+  if (token !== ws.sessionToken) {
+    if (session.expiryTimer) clearTimeout(session.expiryTimer);
+    session.expiryTimer = null;
+
+    // The connection's own session has nothing in it yet
+    if (ws.id) {
+      handleStopSimulation(ws.id);
+      clients.delete(ws.id);
+    }
+    if (ws.sessionToken) sessions.delete(ws.sessionToken);
+
+    // A connection the client has not noticed is dead gives way to this one
+    const previous = clients.get(session.clientId);
+    ws.id = session.clientId;
+    ws.sessionToken = token;
+    clients.set(ws.id, ws);
+    if (previous && previous !== ws) previous.close();
+  }
+
+  // An observer gets the room's simulations rather than its own
+  const membership = findMembership(rooms, session.clientId);
+  sendMessage(ws, {
+    type: "SESSION_RESUMED",
+    token,
+    room: membership ? { ...roomStatus(membership.room), role: membership.role } : null,
+    drones: fleetSnapshot(
+      membership?.role === "observer" ? membership.room.operatorId : session.clientId
+    ),
+  });
+}
+
+/**
+ * Stops a client's simulations and takes it out of its room once it has
+ * gone for good
+ */
+function endClient(clientId: string): void {
+  handleStopSimulation(clientId);
+  const role = findMembership(rooms, clientId)?.role;
+  const room = leaveRoom(rooms, clientId);
+  if (!room) return;
+  if (role === "operator") syncObservers(room);
+  notifyRoomUpdated(room);
+}
+
+/**
+ * Snapshots of every simulation of a client, if there is one
+ */
+function fleetSnapshot(clientId: string | null): SimulationSnapshot[] {
+  if (!clientId) return [];
+  return selectSimulations(clientId).map((simulation) =>
+    simulationSnapshot(clientId, simulation)
+  );
+}
+
+/**
+ * Everything a client needs to show a drone it has reconnected to: its
+ * setup, mission, latest telemetry and any separation alerts
+ */
+function simulationSnapshot(
+  clientId: string,
+  simulation: ActiveSimulation
+): SimulationSnapshot {
+  const { state, clock, droneId } = simulation;
+  const mission = currentMission(state);
+
+  return {
+    droneId,
+    recordingId: simulation.recording.metadata.id,
+    waypoints: mission ? mission.waypoints : state.waypoints,
+    routeMode: state.routeMode,
+    altitudeReference: state.altitudeReference,
+    timeScale: clock.timeScale,
+    isPaused: state.isPaused,
+    speed: state.speed,
+    telemetry: telemetryFrame(state, droneId),
+    batteryLevel: state.battery.level,
+    missionItem: missionItemSummary(simulation),
+    goTo: goToTarget(state),
+    separationAlerts: separationConflicts(separationMonitor, clientId, droneId).map(
+      ({ intruder, assessment }) => ({
+        intruderId: intruder.droneId,
+        intruderPosition: truePosition(intruder.state),
+        ...assessment,
+      })
+    ),
+  };
+}
+
+// Room Handlers
+
+/**
+ * Puts a client in a room and sends it the room's simulations. An operator
+ * shares its simulations with the room's observers, who are sent them too.
+ * A client already flying can only join as the operator.
+ */
+function handleJoinRoom(ws: WebSocketWithId, name: string, role: RoomRole): void {
+  if (!ws.id) return;
+  const clientId = ws.id;
+
+  if (role === "observer" && selectSimulations(clientId).length > 0) {
+    sendError(
+      ws,
+      "SIMULATIONS_RUNNING",
+      "Stop your simulations before joining a room as an observer"
+    );
+    return;
+  }
+
+  const previous = findMembership(rooms, clientId);
+  const error = joinRoom(rooms, name, clientId, role);
+  if (error) {
+    sendError(ws, "ROOM_OCCUPIED", error);
+    return;
+  }
+
+  // The observers of a room the client no longer operates lose its drones
+  if (previous?.role === "operator" && previous.room.operatorId !== clientId) {
+    syncObservers(previous.room);
+  }
+  if (previous && previous.room.name !== name) notifyRoomUpdated(previous.room);
+
+  const room = rooms.get(name)!;
+  sendMessage(ws, {
+    type: "ROOM_JOINED",
+    ...roomStatus(room),
+    role,
+    drones: fleetSnapshot(room.operatorId),
+  });
+  if (role === "operator") syncObservers(room);
+  notifyRoomUpdated(room);
+}
+
+/**
+ * Takes a client out of its room. Its own simulations carry on but are no
+ * longer shared.
+ */
+function handleLeaveRoom(ws: WebSocketWithId): void {
+  if (!ws.id) return;
+
+  const membership = findMembership(rooms, ws.id);
+  if (!membership) return;
+  const { room, role } = membership;
+  leaveRoom(rooms, ws.id);
+
+  sendMessage(ws, { type: "ROOM_LEFT", room: room.name, role });
+  if (role === "operator") syncObservers(room);
+  notifyRoomUpdated(room);
+}
+
+/**
+ * Sends a room's observers the simulations of its operator, after the
+ * operator has changed. They have nothing to watch while it has none.
+ */
+function syncObservers(room: Room): void {
+  const drones = fleetSnapshot(room.operatorId);
+  room.observerIds.forEach((observerId) =>
+    sendToClient(observerId, {
+      type: "ROOM_JOINED",
+      ...roomStatus(room),
+      role: "observer",
+      drones,
+    })
+  );
+}
+
+/**
+ * Tells everyone in a room who else is in it
+ */
+function notifyRoomUpdated(room: Room): void {
+  const message: ServerMessage = { type: "ROOM_UPDATED", ...roomStatus(room) };
+  if (room.operatorId) sendToClient(room.operatorId, message);
+  room.observerIds.forEach((observerId) => sendToClient(observerId, message));
+}
+
+/**
+ * Who is in a room, as sent to the clients in it
+ */
+function roomStatus(room: Room): RoomStatus {
+  return {
+    room: room.name,
+    hasOperator: room.operatorId !== null,
+    observers: room.observerIds.size,
+  };
+}
+
+/**
+ * A room and the simulations flying in it, as listed by the REST API
+ */
+function roomSummary(room: Room): RoomSummary {
+  return {
+    name: room.name,
+    hasOperator: room.operatorId !== null,
+    observers: room.observerIds.size,
+    drones: room.operatorId
+      ? selectSimulations(room.operatorId).map(({ droneId, state }) => ({
+          droneId,
+          flightMode: state.flightMode,
+          simTime: state.simTime,
+          isPaused: state.isPaused,
+          isComplete: state.isComplete === true,
+        }))
+      : [],
+  };
+}
+
 // Simulation Handlers
 
 /**
- * Starts a new drone simulation with the given waypoints and speed
+ * Starts a new drone simulation with the given waypoints and speed. Each
+ * client can fly several drones at once; starting a drone id that is
+ * already flying replaces its mission. The simulation runs on a virtual
+ * clock at the requested time scale.
  */
 function handleStartSimulation(
   ws: WebSocketWithId,
-  data: WebSocketMessage
+  data: StartSimulationMessage
 ): void {
   if (!ws.id) return;
 
-  const waypoints = data.waypoints as Coordinate[] | undefined;
-  const speed = data.speed as number | undefined;
+  const droneId =
+    typeof data.droneId === "string" && data.droneId.trim()
+      ? data.droneId.trim()
+      : DEFAULT_DRONE_ID;
 
-  if (!waypoints || waypoints.length < 2) {
-    sendError(ws, "At least two waypoints are required");
+  if (data.waypoints.length < 2) {
+    sendError(ws, "INVALID_WAYPOINTS", "At least two waypoints are required");
+    return;
+  }
+  const settingsError = simulationConfigError(data);
+  if (settingsError) {
+    sendError(ws, "INVALID_MESSAGE", settingsError);
     return;
   }
 
-  // Stop any existing simulation for this client
-  if (activeSimulations.has(ws.id)) {
-    clearInterval(activeSimulations.get(ws.id)!.interval);
+  startSimulation(ws.id, droneId, simulationConfig(data), data.timeScale ?? 1);
+}
+
+/**
+ * The config to fly a mission with, inside the current geofences. Without
+ * a seed, each flight gets its own.
+ */
+function simulationConfig(settings: FlightSettings): SimulationConfig {
+  return {
+    waypoints: settings.waypoints,
+    speed:
+      settings.speed === undefined
+        ? undefined
+        : Math.min(settings.speed, configVehicle(settings).maxSpeed),
+    altitudeReference: settings.altitudeReference,
+    vehicleType: settings.vehicleType,
+    vehicle: settings.vehicle,
+    battery: settings.battery,
+    payloadKg: settings.payloadKg,
+    wind: settings.wind,
+    gps: settings.gps,
+    failures: parseScheduledFailures(settings.failures),
+    failsafeTimeout: settings.failsafeTimeout,
+    routeMode: settings.routeMode,
+    laps: settings.laps,
+    geofences: Array.from(geofences.values()),
+    seed: typeof settings.seed === "number" ? settings.seed : Date.now(),
+  };
+}
+
+/**
+ * Starts flying a drone for a client, replacing any simulation or replay
+ * it already has under that id
+ */
+function startSimulation(
+  clientId: string,
+  droneId: string,
+  config: SimulationConfig,
+  timeScale: number
+): void {
+  const fleet = getClientFleet(clientId);
+  const previous = fleet.get(droneId);
+  if (previous) {
+    stopClock(previous.clock);
+    finishRecording(RECORDINGS_DIR, previous.recording);
   }
+  stopReplays(clientId, droneId);
+
+  const simulationState = createSimulationState(config);
+
+  // Updates go to whichever connection the client has at the time, so a
+  // client that reconnects keeps receiving them, and to its observers
+  const clock = createClock(timeScale, {
+    onFrame: (frame) => publish(clientId, simulation, frame),
+    onEvent: (event) => publish(clientId, simulation, event),
+    // Finished simulations stay in the fleet so they can be reviewed by
+    // seeking until the client stops them
+    onComplete: () => {},
+  });
 
-  // Initialize simulation state
-  const simulationState: SimulationState = {
-    waypoints,
-    currentWaypointIndex: 0,
-    nextWaypointIndex: 1,
-    progress: 0,
-    speed: speed || 1, // Default speed multiplier
-    isPaused: false,
-    startTime: Date.now(),
-    currentPosition: { ...waypoints[0] },
+  // Store the simulation
+  const simulation: ActiveSimulation = {
+    droneId,
+    config,
+    commands: [],
+    state: simulationState,
+    clock,
+    recording: startRecording(RECORDINGS_DIR, droneId, config),
   };
+  fleet.set(droneId, simulation);
+  startClock(clock, simulation);
 
-  // Calculate total distance for progress tracking
-  simulationState.totalDistance = calculateTotalDistance(waypoints);
+  // Send initial confirmation
+  publish(clientId, simulation, {
+    type: "SIMULATION_STARTED",
+    droneId,
+    recordingId: simulation.recording.metadata.id,
+    initialPosition: simulationState.waypoints[0],
+    waypoints: simulationState.waypoints,
+    routeMode: simulationState.routeMode,
+    altitudeReference: simulationState.altitudeReference,
+    timeScale: clock.timeScale,
+  });
+}
 
-  // Start the simulation loop - updates 10 times per second
-  const interval = setInterval(() => {
-    if (simulationState.isPaused) return;
+/**
+ * Pauses one drone, or all of the client's drones when no id is given
+ */
+function handlePauseSimulation(clientId: string, droneId?: string): void {
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    simulation.state.isPaused = true;
+  });
+}
 
-    // Update drone position
-    updateDronePosition(simulationState);
+/**
+ * Resumes one paused drone, or all of the client's drones
+ */
+function handleResumeSimulation(clientId: string, droneId?: string): void {
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    simulation.state.isPaused = false;
+    // Resuming also releases a drone holding at a geofence
+    if (simulation.state.flightMode === "HOLD") {
+      issueCommand(simulation, { type: "RELEASE_HOLD" });
+    }
+  });
+}
 
-    // Send updated position to client
-    ws.send(
-      JSON.stringify({
-        type: "POSITION_UPDATE",
-        position: simulationState.currentPosition,
-        progress: simulationState.progress,
-        currentWaypoint: simulationState.currentWaypointIndex,
-        isComplete: simulationState.isComplete || false,
-      })
+/**
+ * Stops and removes one drone, or all of the client's drones
+ */
+function handleStopSimulation(clientId: string, droneId?: string): void {
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    stopClock(simulation.clock);
+    removeSimulation(clientId, simulation.droneId);
+    publish(clientId, simulation, { type: "SIMULATION_STOPPED", droneId: simulation.droneId });
+    finishRecording(RECORDINGS_DIR, simulation.recording);
+  });
+  stopReplays(clientId, droneId).forEach((replay) => {
+    broadcast(clientId, { type: "SIMULATION_STOPPED", droneId: replay.droneId });
+  });
+}
+
+/**
+ * Updates the speed of one drone, or of all of the client's drones, up to
+ * the most each can fly
+ */
+function handleUpdateSpeed(
+  ws: WebSocket,
+  clientId: string,
+  speed: number,
+  droneId?: string
+): void {
+  if (!(speed > 0)) {
+    sendError(ws, "INVALID_MESSAGE", "speed must be a positive number");
+    return;
+  }
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    const capped = Math.min(speed, simulation.state.vehicle.maxSpeed);
+    issueCommand(simulation, { type: "SET_SPEED", speed: capped });
+  });
+}
+
+/**
+ * Moves one drone, or all of the client's drones, to a point in their
+ * flight and sends the telemetry there. Finished flights can be rewound and
+ * carry on from the new point.
+ */
+function handleSeekSimulation(
+  ws: WebSocketWithId,
+  target: SeekTarget,
+  droneId?: string
+): void {
+  if (!ws.id) return;
+  const clientId = ws.id;
+
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    simulation.state = seekSimulation(
+      simulation.config,
+      simulation.commands,
+      simulation.state,
+      target
     );
 
-    // Check if simulation is complete
-    if (simulationState.isComplete) {
-      clearInterval(interval);
-      if (ws.id) activeSimulations.delete(ws.id);
-    }
-  }, 100); // Update 10 times per second
+    // Commands made after the new point no longer happened
+    const { stepCount } = simulation.state;
+    simulation.commands = simulation.commands.filter(
+      (command) => command.step <= stepCount
+    );
 
-  // Store the simulation
-  activeSimulations.set(ws.id, {
-    state: simulationState,
-    interval,
+    publish(clientId, simulation, {
+      type: "SIMULATION_SEEKED",
+      droneId: simulation.droneId,
+      time: simulation.state.simTime,
+      batteryLevel: simulation.state.battery.level,
+      missionItem: missionItemSummary(simulation),
+    });
+    // The mission may have been edited after the new point
+    sendMission(clientId, simulation);
+    publish(clientId, simulation, telemetryFrame(simulation.state, simulation.droneId));
+
+    if (!simulation.state.isComplete) startClock(simulation.clock, simulation);
   });
+}
 
-  // Send initial confirmation
-  ws.send(
-    JSON.stringify({
-      type: "SIMULATION_STARTED",
-      initialPosition: waypoints[0],
-    })
-  );
+/**
+ * Injects a failure into one drone, or into all of the client's drones
+ */
+function handleInjectFailure(
+  clientId: string,
+  failure: Failure,
+  droneId?: string
+): void {
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    issueCommand(simulation, { type: "INJECT_FAILURE", failure });
+  });
 }
 
 /**
- * Pauses an active simulation
+ * Changes the mission of a drone in flight and sends the client the mission
+ * as it now stands. Updates the flight cannot take, such as changes to
+ * waypoints already reached, are rejected with an error.
  */
-function handlePauseSimulation(clientId: string): void {
-  if (activeSimulations.has(clientId)) {
-    activeSimulations.get(clientId)!.state.isPaused = true;
+function handleUpdateMission(
+  ws: WebSocketWithId,
+  update: MissionUpdate,
+  droneId: string
+): void {
+  if (!ws.id) return;
+
+  const [simulation] = selectSimulations(ws.id, droneId);
+  if (!simulation) {
+    sendError(ws, "NO_ACTIVE_SIMULATION", `No drone ${droneId} is flying`);
+    return;
+  }
+
+  const error = missionUpdateError(simulation.state, update);
+  if (error) {
+    sendError(ws, "MISSION_UPDATE_REJECTED", error);
+    return;
   }
+
+  issueCommand(simulation, { type: "UPDATE_MISSION", update });
+  sendMission(ws.id, simulation);
 }
 
 /**
- * Resumes a paused simulation
+ * Changes how fast simulated time runs for one drone, or for all of the
+ * client's drones
  */
-function handleResumeSimulation(clientId: string): void {
-  if (activeSimulations.has(clientId)) {
-    activeSimulations.get(clientId)!.state.isPaused = false;
-  }
+function handleSetTimeScale(
+  clientId: string,
+  timeScale: number,
+  droneId?: string
+): void {
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    setTimeScale(simulation.clock, timeScale);
+  });
 }
 
 /**
- * Stops and removes a simulation
+ * Sends one drone, or all of the client's drones, back to launch
  */
-function handleStopSimulation(clientId: string): void {
-  if (activeSimulations.has(clientId)) {
-    clearInterval(activeSimulations.get(clientId)!.interval);
-    activeSimulations.delete(clientId);
+function handleReturnToLaunch(clientId: string, droneId?: string): void {
+  selectSimulations(clientId, droneId).forEach((simulation) => {
+    issueCommand(simulation, { type: "RETURN_TO_LAUNCH" });
+  });
+}
+
+/**
+ * Applies a command to a simulation and records it for replays
+ */
+function issueCommand(
+  simulation: ActiveSimulation,
+  command: SimulationCommand
+): void {
+  const recorded = { ...command, step: simulation.state.stepCount };
+  simulation.commands.push(recorded);
+  recordCommand(simulation.recording, recorded);
+  applyCommand(simulation.state, command);
+}
+
+/**
+ * Tells a client and its observers the mission a drone is flying and any
+ * go-to point it has left it for. Nothing is sent once the drone has
+ * abandoned its mission.
+ */
+function sendMission(clientId: string, simulation: ActiveSimulation): void {
+  const { state } = simulation;
+  const mission = currentMission(state);
+  if (!mission) return;
+
+  publish(clientId, simulation, {
+    type: "MISSION_UPDATED",
+    droneId: simulation.droneId,
+    waypoints: mission.waypoints,
+    currentWaypoint: mission.currentWaypointIndex,
+    flightMode: state.flightMode,
+    goTo: goToTarget(state),
+  });
+}
+
+/**
+ * The mission item a drone is carrying out at a waypoint, if any
+ */
+function missionItemSummary(
+  simulation: ActiveSimulation
+): MissionItemSummary | null {
+  const { missionItem } = simulation.state;
+  return missionItem && missionItem.waypointIndex >= 0
+    ? { waypointIndex: missionItem.waypointIndex, action: missionItem.action }
+    : null;
+}
+
+/**
+ * Returns the fleet of simulations for a client, creating it if needed
+ */
+function getClientFleet(clientId: string): Map<string, ActiveSimulation> {
+  if (!activeSimulations.has(clientId)) {
+    activeSimulations.set(clientId, new Map());
   }
+  return activeSimulations.get(clientId)!;
+}
+
+/**
+ * Returns the simulation for one drone, or every simulation of the client
+ * when no drone id is given
+ */
+function selectSimulations(
+  clientId: string,
+  droneId?: string
+): ActiveSimulation[] {
+  const fleet = activeSimulations.get(clientId);
+  if (!fleet) return [];
+  if (droneId === undefined) return Array.from(fleet.values());
+  const simulation = fleet.get(droneId);
+  return simulation ? [simulation] : [];
+}
+
+/**
+ * Removes a drone from its client's fleet, dropping the fleet once empty
+ */
+function removeSimulation(clientId: string, droneId: string): void {
+  const fleet = activeSimulations.get(clientId);
+  if (!fleet) return;
+  fleet.delete(droneId);
+  if (fleet.size === 0) activeSimulations.delete(clientId);
+}
+
+/**
+ * Checks the separation between all drones still flying and tells the
+ * clients flying each drone of a pair when their separation changes
+ */
+function monitorSeparation(): void {
+  const drones: MonitoredDrone[] = [];
+  activeSimulations.forEach((fleet, clientId) => {
+    fleet.forEach((simulation) => {
+      if (!simulation.state.isComplete) {
+        drones.push({ clientId, droneId: simulation.droneId, state: simulation.state });
+      }
+    });
+  });
+
+  checkSeparation(separationMonitor, drones).forEach(notifySeparationChange);
+}
+
+/**
+ * Sends a separation change to the clients of both drones, each from the
+ * point of view of its own drone
+ */
+function notifySeparationChange(change: SeparationChange): void {
+  const { assessment } = change;
+  const type: SeparationMessage["type"] =
+    assessment.status === "LOSS"
+      ? "LOSS_OF_SEPARATION"
+      : assessment.status === "CONFLICT"
+        ? "CONFLICT_ALERT"
+        : "SEPARATION_RESTORED";
+
+  const [a, b] = change.drones;
+  [
+    [a, b],
+    [b, a],
+  ].forEach(([drone, intruder]) => {
+    const [simulation] = selectSimulations(drone.clientId, drone.droneId);
+    if (!simulation) return;
+    publish(drone.clientId, simulation, {
+      type,
+      droneId: drone.droneId,
+      intruderId: intruder.droneId,
+      intruderPosition: truePosition(intruder.state),
+      ...assessment,
+    });
+  });
 }
 
+// Ground Station Handlers
+
 /**
- * Updates the speed of an active simulation
+ * Carries out a ground station's command to the vehicle with a system id,
+ * through the same handlers as the client's messages. A mission uploaded to
+ * a vehicle no client is flying is flown as a drone of the bridge's own.
+ * Returns whether the command was carried out.
  */
-function handleUpdateSpeed(clientId: string, speed: number): void {
-  if (activeSimulations.has(clientId)) {
-    activeSimulations.get(clientId)!.state.speed = speed;
+function handleGcsCommand(systemId: number, command: GcsCommand): boolean {
+  const vehicle = mavlinkBridge?.vehicles.get(systemId);
+  const [simulation] = vehicle ? selectSimulations(vehicle.clientId, vehicle.droneId) : [];
+
+  if (command.type === "START") {
+    // Arming a drone already in flight has nothing to do
+    if (!command.mission) return !!simulation && !simulation.state.isComplete;
+
+    const clientId = vehicle?.clientId ?? MAVLINK_CLIENT_ID;
+    const droneId = vehicle?.droneId ?? `mavlink-${systemId}`;
+    // A drone flown again keeps its vehicle and settings
+    startSimulation(
+      clientId,
+      droneId,
+      {
+        ...simulation?.config,
+        ...command.mission,
+        failures: [],
+        geofences: Array.from(geofences.values()),
+        seed: Date.now(),
+      },
+      simulation?.clock.timeScale ?? 1
+    );
+    bindVehicle(mavlinkBridge!, systemId, clientId, droneId);
+    return true;
+  }
+
+  if (!vehicle || !simulation) return false;
+  switch (command.type) {
+    case "PAUSE":
+      handlePauseSimulation(vehicle.clientId, vehicle.droneId);
+      break;
+    case "CONTINUE":
+      handleResumeSimulation(vehicle.clientId, vehicle.droneId);
+      break;
+    case "RETURN_TO_LAUNCH":
+      handleReturnToLaunch(vehicle.clientId, vehicle.droneId);
+      break;
+    case "STOP":
+      handleStopSimulation(vehicle.clientId, vehicle.droneId);
+      break;
   }
+  return true;
 }
 
 /**
- * Calculates the new position of the drone based on current state
+ * Sends ground stations a round of telemetry for every simulation. Finished
+ * flights are shown as disarmed vehicles until they are stopped.
  */
-function updateDronePosition(state: SimulationState): void {
-  const { currentWaypointIndex, nextWaypointIndex, waypoints, speed } = state;
+function streamMavlinkTelemetry(): void {
+  if (!mavlinkBridge) return;
+  const drones: MonitoredDrone[] = [];
+  activeSimulations.forEach((fleet, clientId) => {
+    fleet.forEach((simulation) => {
+      drones.push({ clientId, droneId: simulation.droneId, state: simulation.state });
+    });
+  });
+  streamTelemetry(mavlinkBridge, drones);
+}
 
-  // If we've reached the end of the waypoints
-  if (nextWaypointIndex >= waypoints.length) {
-    state.isComplete = true;
+// Recording Handlers
+
+/**
+ * Streams a recording to a client, and to its observers, as a drone of its
+ * own. A replay already shown under the same id is replaced.
+ */
+async function handleReplayRecording(
+  ws: WebSocketWithId,
+  data: ReplayRecordingMessage
+): Promise<void> {
+  if (!ws.id) return;
+  const clientId = ws.id;
+
+  const messages = await readRecordedMessages(RECORDINGS_DIR, data.recordingId);
+  if (!messages) {
+    sendError(ws, "RECORDING_NOT_FOUND", `No recording ${data.recordingId}`);
     return;
   }
 
-  const current = waypoints[currentWaypointIndex];
-  const next = waypoints[nextWaypointIndex];
-
-  // Calculate distance between waypoints
-  const segmentDistance = calculateDistance(current, next);
+  const droneId = data.droneId?.trim() || `replay-${data.recordingId.slice(0, 8)}`;
+  if (selectSimulations(clientId, droneId).length > 0) {
+    sendError(ws, "DRONE_IN_USE", `Drone ${droneId} is flying`);
+    return;
+  }
 
-  // Calculate how much to move in this step
-  // Speed is in degrees per second, and we update 10 times per second
-  const step = (speed * 0.0001) / 10;
-  state.progress += step;
+  stopReplays(clientId, droneId);
+  if (!replays.has(clientId)) replays.set(clientId, new Map());
+  const replay = startReplay(
+    droneId,
+    messages,
+    clampTimeScale(data.timeScale),
+    (message) => broadcast(clientId, message),
+    () => {
+      // Only the replay still shown under this id is dropped
+      if (replays.get(clientId)?.get(droneId) === replay) stopReplays(clientId, droneId);
+    }
+  );
+  replays.get(clientId)!.set(droneId, replay);
+}
 
-  // Calculate interpolated position
-  const ratio = Math.min(state.progress / segmentDistance, 1);
+/**
+ * Stops and removes one replay, or all of the client's replays, returning
+ * those that were stopped
+ */
+function stopReplays(clientId: string, droneId?: string): Replay[] {
+  const clientReplays = replays.get(clientId);
+  if (!clientReplays) return [];
 
-  state.currentPosition = {
-    lat: current.lat + (next.lat - current.lat) * ratio,
-    lng: current.lng + (next.lng - current.lng) * ratio,
-  };
+  const stopped = Array.from(clientReplays.values()).filter(
+    (replay) => droneId === undefined || replay.droneId === droneId
+  );
+  stopped.forEach((replay) => {
+    stopReplay(replay);
+    clientReplays.delete(replay.droneId);
+  });
+  if (clientReplays.size === 0) replays.delete(clientId);
+  return stopped;
+}
 
-  // If we've reached the next waypoint, advance to the next segment
-  if (ratio >= 1) {
-    state.currentWaypointIndex++;
-    state.nextWaypointIndex++;
-    state.progress = 0;
+/**
+ * A recording's metadata as it stands, which for a simulation still being
+ * recorded is newer than what is stored
+ */
+function currentMetadata(metadata: RecordingMetadata): RecordingMetadata {
+  for (const fleet of activeSimulations.values()) {
+    for (const { recording } of fleet.values()) {
+      if (recording.metadata.id === metadata.id) return recording.metadata;
+    }
   }
+  return metadata;
 }
 
 // Utility Functions
 
 /**
- * Calculates distance between two coordinates
- * Simple Euclidean distance for demonstration
- * In a real app, you'd want to use the Haversine formula for geographic coordinates
+ * Whether a message acts on the client's drones
  */
-function calculateDistance(point1: Coordinate, point2: Coordinate): number {
-  const latDiff = point2.lat - point1.lat;
-  const lngDiff = point2.lng - point1.lng;
-  return Math.sqrt(latDiff * latDiff + lngDiff * lngDiff);
+function isDroneCommand(
+  message: ClientMessage
+): message is Extract<ClientMessage, { type: (typeof DRONE_COMMANDS)[number] }> {
+  return (DRONE_COMMANDS as readonly string[]).includes(message.type);
 }
 
 /**
- * Calculates the total distance of a route through all waypoints
+ * Reads the seek target from a SEEK_SIMULATION message, clamping it to the
+ * flight
  */
-function calculateTotalDistance(waypoints: Coordinate[]): number {
-  let totalDistance = 0;
-  for (let i = 0; i < waypoints.length - 1; i++) {
-    totalDistance += calculateDistance(waypoints[i], waypoints[i + 1]);
+function parseSeekTarget(data: SeekSimulationMessage): SeekTarget | null {
+  if (typeof data.time === "number" && isFinite(data.time)) {
+    return { time: Math.max(data.time, 0) };
+  }
+  if (typeof data.progress === "number" && isFinite(data.progress)) {
+    return { progress: Math.max(0, Math.min(1, data.progress)) };
   }
-  return totalDistance;
+  if (typeof data.waypointIndex === "number" && isFinite(data.waypointIndex)) {
+    return { waypointIndex: Math.max(0, Math.floor(data.waypointIndex)) };
+  }
+  return null;
+}
+
+/**
+ * Checks a message against the protocol and serialises it. A message that
+ * breaks the protocol is a bug here, so it is logged rather than sent.
+ */
+function encodeMessage(message: ServerMessage): string | null {
+  const result = encodeServerMessage(message);
+  if ("error" in result) {
+    console.error(`Not sending invalid ${message.type} message: ${result.error}`);
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Sends a message on a connection if it is still open
+ */
+function sendMessage(ws: WebSocket, message: ServerMessage): void {
+  const data = encodeMessage(message);
+  if (data && ws.readyState === WebSocket.OPEN) ws.send(data);
+}
+
+/**
+ * Sends a message to a client if it is connected. Messages sent while it
+ * is away are lost; it catches up from the snapshot when it resumes.
+ */
+function sendToClient(clientId: string, message: ServerMessage): void {
+  const ws = clients.get(clientId);
+  if (ws) sendMessage(ws, message);
+}
+
+/**
+ * Sends a message about a client's simulations to the client and to the
+ * observers of its room
+ */
+function broadcast(clientId: string, message: ServerMessage): void {
+  const data = encodeMessage(message);
+  if (!data) return;
+  [clientId, ...observersOf(rooms, clientId)].forEach((recipientId) => {
+    const ws = clients.get(recipientId);
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(data);
+  });
+}
+
+/**
+ * Sends a message about a simulation to its client and observers, and
+ * records it
+ */
+function publish(
+  clientId: string,
+  simulation: ActiveSimulation,
+  message: ServerMessage
+): void {
+  recordMessage(simulation.recording, message);
+  broadcast(clientId, message);
 }
 
 /**
  * Sends an error message to a client
  */
-function sendError(ws: WebSocket, message: string): void {
-  ws.send(
-    JSON.stringify({
-      type: "ERROR",
-      message,
-    })
-  );
+function sendError(ws: WebSocket, code: ErrorCode, message: string): void {
+  sendMessage(ws, { type: "ERROR", code, message });
 }
 
 // API Routes
@@ -367,6 +1303,390 @@ app.post("/api/upload-coordinates", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Lists the rooms in use, with the simulations their operators are flying
+ */
+app.get("/api/rooms", (req: Request, res: Response) => {
+  res.json({ rooms: Array.from(rooms.values()).map(roomSummary) });
+});
+
+/**
+ * Lists the recorded simulations, newest first
+ */
+//@ts-ignore
+app.get("/api/recordings", async (req: Request, res: Response) => {
+  try {
+    const recordings = await listRecordings(RECORDINGS_DIR);
+    return res.json({ recordings: recordings.map(currentMetadata) });
+  } catch (error) {
+    console.error("Error listing recordings:", error);
+    return res.status(500).json({ error: "Failed to list recordings" });
+  }
+});
+
+/**
+ * Returns a recording's metadata, including the config it started with
+ */
+//@ts-ignore
+app.get("/api/recordings/:id", async (req: Request, res: Response) => {
+  const metadata = await readRecordingMetadata(RECORDINGS_DIR, req.params.id);
+  if (!metadata) {
+    return res.status(404).json({ error: "Recording not found" });
+  }
+  return res.json({ recording: currentMetadata(metadata) });
+});
+
+/**
+ * Downloads a recording as JSON lines: its metadata, then each entry of
+ * its log
+ */
+//@ts-ignore
+app.get("/api/recordings/:id/download", async (req: Request, res: Response) => {
+  const metadata = await readRecordingMetadata(RECORDINGS_DIR, req.params.id);
+  const logPath = recordingLogPath(RECORDINGS_DIR, req.params.id);
+  if (!metadata || !logPath || !fs.existsSync(logPath)) {
+    return res.status(404).json({ error: "Recording not found" });
+  }
+
+  res.attachment(`recording-${metadata.id}.jsonl`);
+  res.type("application/x-ndjson");
+  res.write(JSON.stringify(currentMetadata(metadata)) + "\n");
+  fs.createReadStream(logPath)
+    .on("error", (error) => {
+      console.error("Error reading recording:", error);
+      res.end();
+    })
+    .pipe(res);
+});
+
+/**
+ * Exports a recording's planned route and flown track as GPX, KML,
+ * GeoJSON or CSV
+ */
+//@ts-ignore
+app.get("/api/recordings/:id/export", async (req: Request, res: Response) => {
+  const format = parseExportFormat(req.query.format);
+  if (!format) {
+    return res.status(400).json({ error: exportFormatError() });
+  }
+
+  const metadata = await readRecordingMetadata(RECORDINGS_DIR, req.params.id);
+  const messages = await readRecordedMessages(RECORDINGS_DIR, req.params.id);
+  if (!metadata || !messages) {
+    return res.status(404).json({ error: "Recording not found" });
+  }
+
+  const flight = recordedFlight(messages.map((entry) => entry.message));
+  const { content, contentType } = exportFlight(
+    {
+      name: metadata.droneId,
+      startedAt: metadata.startedAt,
+      route: flight?.route ?? metadata.config.waypoints,
+      track: flight?.track ?? [],
+      altitudeReference:
+        flight?.altitudeReference ?? metadata.config.altitudeReference ?? "AGL",
+    },
+    format
+  );
+  res.attachment(`flight-${metadata.id}.${format}`);
+  res.type(contentType);
+  return res.send(content);
+});
+
+/**
+ * Exports a planned route that has not been flown
+ */
+//@ts-ignore
+app.post("/api/export", (req: Request, res: Response) => {
+  const format = parseExportFormat(req.query.format);
+  if (!format) {
+    return res.status(400).json({ error: exportFormatError() });
+  }
+
+  const { waypoints, altitudeReference, name } = req.body ?? {};
+  const route = Array.isArray(waypoints) ? waypoints.map(parseWaypoint) : [];
+  if (route.length === 0 || route.some((waypoint) => waypoint === null)) {
+    return res.status(400).json({ error: "Waypoints must be a non-empty list of coordinates" });
+  }
+
+  const { content, contentType } = exportFlight(
+    {
+      name: typeof name === "string" && name ? name : "Planned route",
+      startedAt: null,
+      route: route as Coordinate[],
+      track: [],
+      altitudeReference: altitudeReference === "AMSL" ? "AMSL" : "AGL",
+    },
+    format
+  );
+  res.attachment(`route.${format}`);
+  res.type(contentType);
+  return res.send(content);
+});
+
+/**
+ * Flies missions headless as fast as possible and sums up each flight. The
+ * body is one mission, answered with its summary, or a list of missions to
+ * compare, answered with a summary of each in order. A maxDuration query
+ * parameter caps the simulated seconds each mission may fly; by default the
+ * missions share the request's budget equally.
+ */
+//@ts-ignore
+app.post("/api/simulate", async (req: Request, res: Response) => {
+  const batch = Array.isArray(req.body);
+  const missions: unknown[] = batch ? req.body : [req.body];
+  if (missions.length === 0 || missions.length > MAX_HEADLESS_MISSIONS) {
+    return res
+      .status(400)
+      .json({ error: `Send between 1 and ${MAX_HEADLESS_MISSIONS} missions` });
+  }
+
+  const budget = MAX_HEADLESS_SIMULATED_S / missions.length;
+  const maxDuration =
+    req.query.maxDuration === undefined ? budget : Number(req.query.maxDuration);
+  if (!(maxDuration > 0 && maxDuration <= budget)) {
+    return res.status(400).json({
+      error: `maxDuration must be a number of seconds up to ${budget} for ${missions.length} mission(s)`,
+    });
+  }
+
+  for (let i = 0; i < missions.length; i++) {
+    const error = checkHeadlessMission(missions[i], batch ? `missions[${i}]` : "mission");
+    if (error) return res.status(400).json({ error });
+  }
+  const headless = missions as HeadlessMission[];
+  if (headless.some((mission) => mission.waypoints.length < 2)) {
+    return res.status(400).json({ error: "Each mission needs at least two waypoints" });
+  }
+  for (const mission of headless) {
+    const error = simulationConfigError(mission);
+    if (error) return res.status(400).json({ error });
+  }
+
+  try {
+    const summaries: FlightSummary[] = [];
+    for (const [i, mission] of headless.entries()) {
+      const name = mission.name ?? `mission-${i + 1}`;
+      summaries.push(await summarizeFlight(simulationConfig(mission), name, maxDuration));
+    }
+    return res.json(batch ? { summaries } : { summary: summaries[0] });
+  } catch (error) {
+    console.error("Error simulating missions:", error);
+    return res.status(500).json({ error: "Failed to simulate missions" });
+  }
+});
+
+/**
+ * Reorders waypoints into a shorter route, keeping the first waypoint first
+ * with fixedStart, the last last with fixedEnd, and counting the flight back
+ * to the first with returnToStart. Answers with the waypoints in their new
+ * order and the route's length before and after.
+ */
+//@ts-ignore
+app.post("/api/optimize-route", (req: Request, res: Response) => {
+  const { waypoints, fixedStart, fixedEnd, returnToStart } = req.body ?? {};
+  const route = Array.isArray(waypoints) ? waypoints.map(parseWaypoint) : [];
+  if (
+    route.length < 2 ||
+    route.length > MAX_OPTIMIZED_WAYPOINTS ||
+    route.some((waypoint) => waypoint === null)
+  ) {
+    return res.status(400).json({
+      error: `Waypoints must be a list of 2 to ${MAX_OPTIMIZED_WAYPOINTS} coordinates`,
+    });
+  }
+  if (fixedEnd === true && returnToStart === true) {
+    return res.status(400).json({ error: "A route that returns to its start has no fixed end" });
+  }
+
+  return res.json(
+    optimizeRoute(route as Coordinate[], {
+      fixedStart: fixedStart === true,
+      fixedEnd: fixedEnd === true,
+      returnToStart: returnToStart === true,
+    })
+  );
+});
+
+/**
+ * Lists the saved missions, most recently updated first. A tag query
+ * parameter lists only the missions with that tag.
+ */
+//@ts-ignore
+app.get("/api/missions", async (req: Request, res: Response) => {
+  const tag = typeof req.query.tag === "string" ? req.query.tag : undefined;
+  try {
+    return res.json({ missions: await listMissions(MISSIONS_DIR, tag) });
+  } catch (error) {
+    console.error("Error listing missions:", error);
+    return res.status(500).json({ error: "Failed to list missions" });
+  }
+});
+
+/**
+ * Returns a saved mission
+ */
+//@ts-ignore
+app.get("/api/missions/:id", async (req: Request, res: Response) => {
+  try {
+    const mission = await readMission(MISSIONS_DIR, req.params.id);
+    if (!mission) {
+      return res.status(404).json({ error: "Mission not found" });
+    }
+    return res.json({ mission });
+  } catch (error) {
+    console.error("Error reading mission:", error);
+    return res.status(500).json({ error: "Failed to read mission" });
+  }
+});
+
+/**
+ * Saves a new mission to the library
+ */
+//@ts-ignore
+app.post("/api/missions", async (req: Request, res: Response) => {
+  const result = parseMission(req.body);
+  if ("error" in result) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  const now = new Date().toISOString();
+  const mission: Mission = { id: randomUUID(), ...result.mission, createdAt: now, updatedAt: now };
+  try {
+    await saveMission(MISSIONS_DIR, mission);
+  } catch (error) {
+    console.error("Error saving mission:", error);
+    return res.status(500).json({ error: "Failed to save mission" });
+  }
+  return res.status(201).json({ mission });
+});
+
+/**
+ * Replaces a saved mission, keeping when it was created
+ */
+//@ts-ignore
+app.put("/api/missions/:id", async (req: Request, res: Response) => {
+  let existing: Mission | null;
+  try {
+    existing = await readMission(MISSIONS_DIR, req.params.id);
+  } catch (error) {
+    console.error("Error reading mission:", error);
+    return res.status(500).json({ error: "Failed to read mission" });
+  }
+  if (!existing) {
+    return res.status(404).json({ error: "Mission not found" });
+  }
+
+  const result = parseMission(req.body);
+  if ("error" in result) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  const mission: Mission = {
+    id: existing.id,
+    ...result.mission,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+  try {
+    await saveMission(MISSIONS_DIR, mission);
+  } catch (error) {
+    console.error("Error saving mission:", error);
+    return res.status(500).json({ error: "Failed to save mission" });
+  }
+  return res.json({ mission });
+});
+
+/**
+ * Deletes a saved mission
+ */
+//@ts-ignore
+app.delete("/api/missions/:id", async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteMission(MISSIONS_DIR, req.params.id))) {
+      return res.status(404).json({ error: "Mission not found" });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting mission:", error);
+    return res.status(500).json({ error: "Failed to delete mission" });
+  }
+});
+
+/**
+ * Lists all geofences
+ */
+app.get("/api/geofences", (req: Request, res: Response) => {
+  res.json({ geofences: Array.from(geofences.values()) });
+});
+
+/**
+ * Creates a geofence. It applies to simulations started afterwards.
+ */
+//@ts-ignore
+app.post("/api/geofences", (req: Request, res: Response) => {
+  const result = parseGeofence(req.body);
+  if ("error" in result) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  const geofence: Geofence = { id: randomUUID(), ...result.fence };
+  geofences.set(geofence.id, geofence);
+  return res.status(201).json({ geofence });
+});
+
+/**
+ * Replaces a geofence
+ */
+//@ts-ignore
+app.put("/api/geofences/:id", (req: Request, res: Response) => {
+  if (!geofences.has(req.params.id)) {
+    return res.status(404).json({ error: "Geofence not found" });
+  }
+
+  const result = parseGeofence(req.body);
+  if ("error" in result) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  const geofence: Geofence = { id: req.params.id, ...result.fence };
+  geofences.set(geofence.id, geofence);
+  return res.json({ geofence });
+});
+
+/**
+ * Deletes a geofence
+ */
+//@ts-ignore
+app.delete("/api/geofences/:id", (req: Request, res: Response) => {
+  if (!geofences.delete(req.params.id)) {
+    return res.status(404).json({ error: "Geofence not found" });
+  }
+  return res.status(204).end();
+});
+
+/**
+ * Returns the separation minimums and look-ahead window
+ */
+app.get("/api/separation", (req: Request, res: Response) => {
+  res.json({ config: separationMonitor.config });
+});
+
+/**
+ * Changes the separation minimums or look-ahead window. Settings left out
+ * keep their current value.
+ */
+//@ts-ignore
+app.put("/api/separation", (req: Request, res: Response) => {
+  const result = parseSeparationConfig(req.body, separationMonitor.config);
+  if ("error" in result) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  separationMonitor.config = result.config;
+  return res.json({ config: result.config });
+});
+
 /**
  * Geocoding API endpoint
  */
@@ -450,7 +1770,17 @@ function parseJsonCoordinates(content: string): Coordinate[] {
             "Invalid coordinate format. Expected {lat, lng} objects."
           );
         }
-        return { lat: point.lat, lng: point.lng };
+        const alt = point.alt ?? point.altitude;
+        if (alt !== undefined && typeof alt !== "number") {
+          throw new Error("Invalid altitude value. Expected a number.");
+        }
+        const coordinate: Coordinate =
+          alt === undefined
+            ? { lat: point.lat, lng: point.lng }
+            : { lat: point.lat, lng: point.lng, alt };
+        const actions = parseMissionActions(point.actions);
+        if (actions.length > 0) coordinate.actions = actions;
+        return coordinate;
       });
     }
     // Handle GeoJSON format
@@ -461,8 +1791,8 @@ function parseJsonCoordinates(content: string): Coordinate[] {
             "Invalid GeoJSON format. Expected coordinates array in geometry."
           );
         }
-        const [lng, lat] = feature.geometry.coordinates;
-        return { lat, lng };
+        const [lng, lat, alt] = feature.geometry.coordinates;
+        return typeof alt === "number" ? { lat, lng, alt } : { lat, lng };
       });
     } else {
       throw new Error(
@@ -495,6 +1825,8 @@ function parseCsvCoordinates(content: string): Coordinate[] {
     const lngIndex = headers.findIndex(
       (h) => h.includes("lon") || h.includes("lng")
     );
+    // Altitude is optional
+    const altIndex = headers.findIndex((h) => h.includes("alt"));
 
     if (latIndex === -1 || lngIndex === -1) {
       throw new Error("Could not find latitude/longitude columns in CSV.");
@@ -513,7 +1845,16 @@ function parseCsvCoordinates(content: string): Coordinate[] {
         throw new Error("Invalid coordinate values in CSV.");
       }
 
-      return { lat, lng };
+      if (altIndex === -1 || !values[altIndex]?.trim()) {
+        return { lat, lng };
+      }
+
+      const alt = parseFloat(values[altIndex]);
+      if (isNaN(alt)) {
+        throw new Error("Invalid altitude value in CSV.");
+      }
+
+      return { lat, lng, alt };
     });
   } catch (error) {
     const errorMessage =
@@ -534,7 +1875,7 @@ function parseTxtCoordinates(content: string): Coordinate[] {
 
     return lines.map((line) => {
       // Try different formats
-      // Format: "lat,lng" or "lat lng"
+      // Format: "lat,lng[,alt]" or "lat lng [alt]"
       const parts = line.includes(",") ? line.split(",") : line.split(/\s+/);
 
       if (parts.length < 2) {
@@ -548,7 +1889,16 @@ function parseTxtCoordinates(content: string): Coordinate[] {
         throw new Error("Invalid coordinate values in text file.");
       }
 
-      return { lat, lng };
+      if (parts.length < 3 || !parts[2].trim()) {
+        return { lat, lng };
+      }
+
+      const alt = parseFloat(parts[2]);
+      if (isNaN(alt)) {
+        throw new Error("Invalid altitude value in text file.");
+      }
+
+      return { lat, lng, alt };
     });
   } catch (error) {
     const errorMessage =
@@ -562,6 +1912,16 @@ if (!fs.existsSync(path.join(__dirname, "uploads"))) {
   fs.mkdirSync(path.join(__dirname, "uploads"));
 }
 
+// Create recordings directory if it doesn't exist
+if (!fs.existsSync(RECORDINGS_DIR)) {
+  fs.mkdirSync(RECORDINGS_DIR);
+}
+
+// Create missions directory if it doesn't exist
+if (!fs.existsSync(MISSIONS_DIR)) {
+  fs.mkdirSync(MISSIONS_DIR);
+}
+
 // Error handling middleware
 app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
   console.error(error);
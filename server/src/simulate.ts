@@ -0,0 +1,64 @@
+// simulate.ts - Runs a mission headless from the command line
+//
+// Usage: node dist/simulate.js <mission.json> [maxDurationSeconds]
+//
+// The mission file holds a simulation config (waypoints, seed and any
+// vehicle, battery, wind or GPS settings). Telemetry frames and events are
+// written to stdout as one JSON object per line, in simulated time order.
+// The same mission file always produces the same output.
+
+import fs from "fs";
+
+import { SimulationConfig } from "./types";
+import { checkHeadlessMission } from "./protocol";
+import { createSimulationState, simulationConfigError } from "./engine";
+import { runToCompletion } from "./clock";
+
+// Lines written to stdout at a time, so a long flight is never held in
+// memory whole
+const OUTPUT_BATCH_LINES = 1000;
+
+async function main(): Promise<void> {
+  const [missionPath, maxDuration] = process.argv.slice(2);
+  if (!missionPath) {
+    console.error("Usage: simulate <mission.json> [maxDurationSeconds]");
+    process.exit(1);
+  }
+
+  const mission: unknown = JSON.parse(fs.readFileSync(missionPath, "utf8"));
+  const invalid = checkHeadlessMission(mission, "mission");
+  if (invalid) throw new Error(invalid);
+  const config = mission as SimulationConfig;
+  if (config.waypoints.length < 2) throw new Error("At least two waypoints are required");
+  const settingsError = simulationConfigError(config);
+  if (settingsError) throw new Error(settingsError);
+
+  // Events follow the frame of the step that raised them
+  let lines: string[] = [];
+  const write = (message: object) => {
+    lines.push(JSON.stringify(message));
+    if (lines.length >= OUTPUT_BATCH_LINES) {
+      process.stdout.write(lines.join("\n") + "\n");
+      lines = [];
+    }
+  };
+
+  const state = createSimulationState({ ...config, seed: config.seed ?? 0 });
+  await runToCompletion(
+    state,
+    "drone-1",
+    { onFrame: write, onEvent: write },
+    maxDuration ? Number(maxDuration) : undefined
+  );
+  if (lines.length > 0) process.stdout.write(lines.join("\n") + "\n");
+
+  if (!state.isComplete) {
+    console.error("Mission did not complete within the time limit");
+    process.exitCode = 2;
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
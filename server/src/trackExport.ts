@@ -0,0 +1,259 @@
+// trackExport.ts - Planned routes and flown tracks as GPX, KML, GeoJSON and CSV
+
+import {
+  AltitudeReference,
+  Coordinate,
+  ExportFormat,
+  FlightExport,
+  TrackPoint,
+} from "./types";
+import type { ServerMessage } from "./protocol";
+
+const EXPORT_FORMATS: ExportFormat[] = ["gpx", "kml", "geojson", "csv"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: "application/gpx+xml",
+  kml: "application/vnd.google-earth.kml+xml",
+  geojson: "application/geo+json",
+  csv: "text/csv",
+};
+
+// Decimal places kept: about a centimetre of latitude and longitude
+const COORDINATE_DIGITS = 7;
+const VALUE_DIGITS = 2;
+
+/**
+ * Reads an export format from untrusted input, or returns null if it is
+ * not one we write
+ */
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  return EXPORT_FORMATS.includes(value as ExportFormat) ? (value as ExportFormat) : null;
+}
+
+export function exportFormatError(): string {
+  return `Format must be one of ${EXPORT_FORMATS.join(", ")}`;
+}
+
+/**
+ * The flight in a recording's messages: the route it started with and the
+ * track it flew. A seek rewinds the track to the point sought, so the
+ * track is the flight as it ended up.
+ */
+export function recordedFlight(
+  messages: ServerMessage[]
+): Pick<FlightExport, "route" | "track" | "altitudeReference"> | null {
+  const started = messages.find((message) => message.type === "SIMULATION_STARTED");
+  if (!started || started.type !== "SIMULATION_STARTED") return null;
+
+  let track: TrackPoint[] = [];
+  messages.forEach((message) => {
+    if (message.type === "SIMULATION_SEEKED") {
+      track = track.filter((point) => point.time < message.time);
+    } else if (message.type === "POSITION_UPDATE") {
+      track.push({
+        time: message.time,
+        position: message.position,
+        groundSpeed: message.groundSpeed,
+        heading: message.heading,
+      });
+    }
+  });
+
+  return {
+    route: started.waypoints,
+    track,
+    altitudeReference: started.altitudeReference,
+  };
+}
+
+/**
+ * Writes a flight in the given format
+ */
+export function exportFlight(
+  flight: FlightExport,
+  format: ExportFormat
+): { content: string; contentType: string } {
+  const writers: Record<ExportFormat, (flight: FlightExport) => string> = {
+    gpx: toGpx,
+    kml: toKml,
+    geojson: toGeoJson,
+    csv: toCsv,
+  };
+  return { content: writers[format](flight), contentType: CONTENT_TYPES[format] };
+}
+
+// GPX: the route as a rte and the track as a trk with a time on each point
+function toGpx(flight: FlightExport): string {
+  const routePoints = flight.route.map(
+    (waypoint, index) =>
+      `    <rtept ${gpxPosition(waypoint)}>${elevation(waypoint)}<name>WP${index + 1}</name></rtept>`
+  );
+  const trackPoints = flight.track.map((point) => {
+    const time = trackTime(flight, point);
+    return `      <trkpt ${gpxPosition(point.position)}>${elevation(point.position)}${
+      time ? `<time>${time}</time>` : ""
+    }</trkpt>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="Drone Simulator" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>`,
+    `    <name>${escapeXml(flight.name)}</name>`,
+    ...(flight.startedAt ? [`    <time>${flight.startedAt}</time>`] : []),
+    `  </metadata>`,
+    `  <rte>`,
+    `    <name>Planned route</name>`,
+    ...routePoints,
+    `  </rte>`,
+    ...(flight.track.length > 0
+      ? [`  <trk>`, `    <name>Flown track</name>`, `    <trkseg>`, ...trackPoints, `    </trkseg>`, `  </trk>`]
+      : []),
+    `</gpx>`,
+    "",
+  ].join("\n");
+}
+
+function gpxPosition(position: Coordinate): string {
+  return `lat="${round(position.lat, COORDINATE_DIGITS)}" lon="${round(position.lng, COORDINATE_DIGITS)}"`;
+}
+
+function elevation(position: Coordinate): string {
+  return position.alt !== undefined ? `<ele>${round(position.alt, VALUE_DIGITS)}</ele>` : "";
+}
+
+// KML: a line for the route and one for the track, at their altitudes
+function toKml(flight: FlightExport): string {
+  const placemark = (name: string, style: string, positions: Coordinate[]) => [
+    `    <Placemark>`,
+    `      <name>${name}</name>`,
+    `      <styleUrl>#${style}</styleUrl>`,
+    `      <LineString>`,
+    `        <altitudeMode>${kmlAltitudeMode(flight.altitudeReference)}</altitudeMode>`,
+    `        <coordinates>${positions.map(kmlPosition).join(" ")}</coordinates>`,
+    `      </LineString>`,
+    `    </Placemark>`,
+  ];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(flight.name)}</name>`,
+    `    <Style id="route"><LineStyle><color>ffff8800</color><width>2</width></LineStyle></Style>`,
+    `    <Style id="track"><LineStyle><color>ff0000ff</color><width>3</width></LineStyle></Style>`,
+    ...placemark("Planned route", "route", flight.route),
+    ...(flight.track.length > 0
+      ? placemark("Flown track", "track", flight.track.map((point) => point.position))
+      : []),
+    `  </Document>`,
+    `</kml>`,
+    "",
+  ].join("\n");
+}
+
+function kmlAltitudeMode(reference: AltitudeReference): string {
+  return reference === "AMSL" ? "absolute" : "relativeToGround";
+}
+
+function kmlPosition(position: Coordinate): string {
+  return [
+    round(position.lng, COORDINATE_DIGITS),
+    round(position.lat, COORDINATE_DIGITS),
+    round(position.alt ?? 0, VALUE_DIGITS),
+  ].join(",");
+}
+
+// GeoJSON: a LineString feature for each, the track's per-point values
+// kept as properties alongside its coordinates
+function toGeoJson(flight: FlightExport): string {
+  const features: object[] = [
+    {
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: flight.route.map(geoJsonPosition) },
+      properties: {
+        name: "Planned route",
+        kind: "route",
+        altitudeReference: flight.altitudeReference,
+      },
+    },
+  ];
+  if (flight.track.length > 0) {
+    features.push({
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: flight.track.map((point) => geoJsonPosition(point.position)),
+      },
+      properties: {
+        name: "Flown track",
+        kind: "track",
+        altitudeReference: flight.altitudeReference,
+        startedAt: flight.startedAt,
+        times: flight.track.map((point) => point.time),
+        speeds: flight.track.map((point) => round(point.groundSpeed, VALUE_DIGITS)),
+        headings: flight.track.map((point) => round(point.heading, VALUE_DIGITS)),
+      },
+    });
+  }
+
+  return JSON.stringify({ type: "FeatureCollection", name: flight.name, features }, null, 2);
+}
+
+function geoJsonPosition(position: Coordinate): number[] {
+  return [
+    round(position.lng, COORDINATE_DIGITS),
+    round(position.lat, COORDINATE_DIGITS),
+    round(position.alt ?? 0, VALUE_DIGITS),
+  ];
+}
+
+// CSV: one row per track point, or per waypoint for a route not yet flown,
+// which has no time, speed or heading
+function toCsv(flight: FlightExport): string {
+  const rows =
+    flight.track.length > 0
+      ? flight.track.map((point) => [
+          round(point.time, VALUE_DIGITS),
+          ...csvPosition(point.position),
+          round(point.groundSpeed, VALUE_DIGITS),
+          round(point.heading, VALUE_DIGITS),
+        ])
+      : flight.route.map((waypoint) => ["", ...csvPosition(waypoint), "", ""]);
+
+  return [["time", "lat", "lng", "alt", "speed", "heading"], ...rows]
+    .map((row) => row.join(","))
+    .join("\n") + "\n";
+}
+
+function csvPosition(position: Coordinate): (number | string)[] {
+  return [
+    round(position.lat, COORDINATE_DIGITS),
+    round(position.lng, COORDINATE_DIGITS),
+    position.alt !== undefined ? round(position.alt, VALUE_DIGITS) : "",
+  ];
+}
+
+// Utility Functions
+
+/**
+ * Wall-clock time of a track point, counting simulated time from the
+ * start of the flight
+ */
+function trackTime(flight: FlightExport, point: TrackPoint): string | null {
+  if (!flight.startedAt) return null;
+  return new Date(Date.parse(flight.startedAt) + point.time * 1000).toISOString();
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
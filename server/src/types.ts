@@ -0,0 +1,586 @@
+// types.ts - Shared type definitions for the drone simulator backend
+
+import type { Socket } from "dgram";
+import type { WriteStream } from "fs";
+import { WebSocket } from "ws";
+import type { ServerMessage, SimulationEventMessage, TelemetryFrame } from "./protocol";
+
+export interface Coordinate {
+  lat: number;
+  lng: number;
+  alt?: number; // Metres, relative to the mission's altitude reference
+  actions?: MissionAction[]; // Carried out in order on reaching the waypoint
+}
+
+export type MissionAction =
+  | { type: "HOVER"; duration: number } // Seconds
+  | { type: "LOITER"; turns: number; radius: number } // Radius in metres
+  | { type: "CHANGE_SPEED"; speed: number } // Metres per second
+  | { type: "CAMERA" }
+  | { type: "DROP_PAYLOAD"; massKg?: number } // Drops all payload when omitted
+  | { type: "LAND" };
+
+export type MissionActionType = MissionAction["type"];
+
+// Progress through a mission action that takes time to carry out
+export interface MissionItemState {
+  waypointIndex: number;
+  actionIndex: number;
+  action: MissionAction;
+  elapsed: number; // Seconds since the action started
+  centre: Coordinate; // Waypoint the action is carried out at
+  orbitPhase: "ENTRY" | "ORBIT" | "EXIT"; // Leg of a loiter being flown
+  orbitDistance: number; // Metres out from the centre
+  orbitAngle: number; // Bearing from the centre, in degrees
+  orbitSwept: number; // Degrees flown around the circle
+}
+
+export type AltitudeReference = "AGL" | "AMSL";
+
+export type VehicleType = "quadcopter" | "fixed-wing";
+
+export interface VehicleModel {
+  type: VehicleType;
+  maxSpeed: number; // Metres per second
+  minSpeed: number; // Stall speed for fixed-wing, 0 for multirotors
+  acceleration: number; // Metres per second squared
+  deceleration: number; // Metres per second squared
+  maxYawRate: number; // Degrees per second
+  climbRate: number; // Metres per second
+  descentRate: number; // Metres per second
+  turnRadius: number; // Metres around a waypoint in which a turn must complete
+}
+
+export type BatteryLevel = "OK" | "LOW" | "CRITICAL" | "DEPLETED";
+
+export type LowBatteryAction = "RTL" | "LAND";
+
+export interface BatteryConfig {
+  capacityWh: number;
+  massKg: number; // Airframe and battery mass without payload
+  basePowerW: number; // Power needed to stay airborne (hover for multirotors)
+  dragCoefficient: number; // Watts per (metre per second) squared
+  climbEfficiency: number; // Fraction of electrical power turned into climb
+  warningThreshold: number; // State of charge (0..1) for a LOW warning
+  criticalThreshold: number; // State of charge (0..1) that triggers the action
+  lowBatteryAction: LowBatteryAction;
+}
+
+export interface BatteryState {
+  config: BatteryConfig;
+  remainingWh: number;
+  stateOfCharge: number; // 0..1
+  powerW: number; // Instantaneous power draw
+  averagePowerW: number; // Smoothed power draw used for endurance estimates
+  level: BatteryLevel;
+}
+
+// GUIDED is a flight to a go-to point outside of the mission
+export type FlightMode = "MISSION" | "RTL" | "LAND" | "HOLD" | "GUIDED";
+
+// How the route continues after the last waypoint: stop there, fly back to
+// the first waypoint and repeat, or fly the route back in reverse
+export type RouteMode = "once" | "loop" | "ping-pong";
+
+export type GeofenceKind = "inclusion" | "exclusion";
+
+// What the drone does when it breaches a fence
+export type GeofenceAction = "warn" | "hold" | "rtl";
+
+export type GeofenceShape =
+  | { type: "polygon"; points: Coordinate[] }
+  | { type: "circle"; center: Coordinate; radius: number }; // Radius in metres
+
+// An area the drone must stay inside (inclusion) or out of (exclusion),
+// optionally limited to a band of altitudes
+export interface Geofence {
+  id: string;
+  name: string;
+  kind: GeofenceKind;
+  shape: GeofenceShape;
+  floor?: number; // Metres, lowest altitude the fence applies to
+  ceiling?: number; // Metres, highest altitude the fence applies to
+  action: GeofenceAction;
+}
+
+// Minimum distances drones must keep from each other, and how far ahead
+// to look for conflicts
+export interface SeparationConfig {
+  horizontal: number; // Metres
+  vertical: number; // Metres
+  lookAhead: number; // Seconds
+}
+
+// CONFLICT when the minimums will be lost within the look-ahead window,
+// LOSS when they are lost now
+export type SeparationStatus = "CLEAR" | "CONFLICT" | "LOSS";
+
+// How two drones' paths relate, assuming both hold their current velocity
+export interface SeparationAssessment {
+  status: SeparationStatus;
+  horizontalDistance: number; // Metres, now
+  verticalDistance: number; // Metres, now
+  timeToConflict: number | null; // Seconds until the minimums are lost
+  closestApproach: {
+    time: number; // Seconds from now, within the look-ahead window
+    horizontal: number; // Metres
+    vertical: number; // Metres
+  };
+}
+
+// Events raised by the engine during a tick, sent after the position update.
+// The clock adds the drone and the time when it delivers them.
+export type SimulationEvent = WithoutSource<SimulationEventMessage>;
+
+type WithoutSource<E> = E extends unknown ? Omit<E, "droneId" | "time"> : never;
+
+export interface RandomState {
+  state: number;
+}
+
+export type WindMode = "none" | "constant" | "gusting" | "layered";
+
+// Velocity of the air in metres per second
+export interface WindVector {
+  north: number;
+  east: number;
+}
+
+export interface WindLayer {
+  altitude: number; // Metres
+  speed: number; // Metres per second
+  direction: number; // Degrees the wind blows from
+}
+
+export interface WindConfig {
+  mode: WindMode;
+  speed: number; // Mean wind speed in metres per second
+  direction: number; // Degrees the mean wind blows from
+  gustSpeed: number; // Strongest gust on top of the mean wind
+  gustInterval: number; // Average seconds between gusts
+  gustDirectionVariance: number; // Degrees either side of the mean direction
+  layers: WindLayer[];
+}
+
+export interface WindState {
+  config: WindConfig;
+  random: RandomState;
+  gust: WindVector;
+  gustTarget: WindVector;
+  timeToNextGust: number;
+  current: WindVector;
+}
+
+export interface GpsConfig {
+  hdop: number; // Horizontal dilution of precision
+  satellites: number; // Satellites in view; fewer than four gives no fix
+  biasDrift: number; // Metres, typical size of the slowly wandering bias
+  updateRate: number; // Fixes per second
+  dropoutRate: number; // Average dropouts per minute
+  dropoutDuration: number; // Average seconds a dropout lasts
+}
+
+// The GPS receiver, which reports a noisy estimate of the true position
+export interface GpsState {
+  config: GpsConfig;
+  random: RandomState;
+  bias: { north: number; east: number; up: number }; // Metres
+  timeToNextFix: number; // Seconds
+  dropoutRemaining: number; // Seconds left of the current dropout
+  hasFix: boolean;
+  estimate: Coordinate; // Position of the last fix
+  fixTime: number; // Simulated seconds at the last fix
+}
+
+export type FailureType =
+  | "LINK_LOSS"
+  | "GPS_LOSS"
+  | "MOTOR_FAILURE"
+  | "BATTERY_CELL_FAULT";
+
+export interface Failure {
+  type: FailureType;
+  duration?: number; // Seconds until a link or GPS loss recovers; lasts for the rest of the flight when omitted
+  capacityLoss?: number; // Fraction of the remaining charge a battery cell fault takes
+}
+
+// A failure injected automatically at a point in the flight
+export type ScheduledFailure = Failure & { time: number }; // Seconds of simulated time
+
+// A loss of the link or GPS that may recover
+export interface ActiveLoss {
+  elapsed: number; // Seconds since the loss
+  remaining: number | null; // Seconds until it recovers, or null if it never does
+}
+
+export interface FailureState {
+  scheduled: ScheduledFailure[]; // Not yet injected, in time order
+  failsafeTimeout: number; // Seconds without a link before returning to launch
+  linkLoss: ActiveLoss | null;
+  failsafeTriggered: boolean; // Whether the current link loss has triggered RTL
+  gpsLoss: ActiveLoss | null;
+  motorFailed: boolean;
+  cellFaults: number;
+  random: RandomState;
+  drift: { north: number; east: number }; // Metres the drone is from where it navigates to
+  driftVelocity: { north: number; east: number }; // Metres per second
+}
+
+// Where the drone is along a mission: the waypoint it last reached and the
+// one it is flying to
+export interface MissionProgress {
+  waypoints: Coordinate[];
+  currentWaypointIndex: number;
+  nextWaypointIndex: number;
+  routeDirection: 1 | -1;
+}
+
+// A change to the mission of a drone in flight. Indices are positions in
+// the mission's waypoints; only waypoints the drone has yet to reach can
+// change. GOTO sends the drone to a point off the mission, where it holds
+// until RESUME takes it back.
+export type MissionUpdate =
+  | { operation: "INSERT"; index: number; waypoint: Coordinate }
+  | { operation: "MOVE"; index: number; waypoint: Coordinate }
+  | { operation: "DELETE"; index: number }
+  | { operation: "GOTO"; waypoint: Coordinate }
+  | { operation: "RESUME" };
+
+export interface SimulationState {
+  waypoints: Coordinate[];
+  currentWaypointIndex: number;
+  nextWaypointIndex: number;
+  legOrigin: Coordinate | null; // Start of a leg re-planned part-way, instead of the last waypoint
+  suspendedMission: MissionProgress | null; // Mission to resume after a go-to
+  progress: number; // Fraction of the total route flown (0..1)
+  speed: number; // Commanded speed in metres per second
+  airspeed: number; // Speed through the air in metres per second
+  groundSpeed: number; // Actual speed over ground in metres per second
+  crabAngle: number; // Degrees between heading and track, positive to the right
+  crossTrackError: number; // Metres the wind has pushed the drone right of track
+  wind: WindState;
+  gps: GpsState;
+  failures: FailureState;
+  heading: number; // Degrees clockwise from true north
+  altitude: number; // Metres, relative to altitudeReference
+  verticalSpeed: number; // Metres per second, positive when climbing
+  altitudeReference: AltitudeReference;
+  vehicle: VehicleModel;
+  battery: BatteryState;
+  payloadKg: number;
+  flightMode: FlightMode;
+  routeMode: RouteMode;
+  laps: number | null; // Laps to fly before finishing, or null to repeat forever
+  lap: number; // Current lap, starting at 1
+  routeDirection: 1 | -1; // Direction through the waypoints on a ping-pong route
+  lapStartDistance: number; // Metres flown when the current lap started
+  missionItem: MissionItemState | null; // Action being carried out, if any
+  geofences: Geofence[];
+  breachedGeofences: string[]; // Ids of the fences currently breached
+  homePosition: Coordinate;
+  pendingEvents: SimulationEvent[];
+  segmentDistanceFlown: number; // Metres flown along the current leg
+  distanceFlown: number; // Metres flown since the start of the mission
+  isPaused: boolean;
+  simTime: number; // Seconds of simulated time since the start
+  stepCount: number; // Fixed timesteps taken since the start
+  currentPosition: Coordinate;
+  totalDistance?: number; // Metres
+  isComplete?: boolean;
+}
+
+// Everything needed to build a simulation. The same config always produces
+// the same flight.
+export interface SimulationConfig {
+  waypoints: Coordinate[];
+  speed?: number;
+  altitudeReference?: AltitudeReference;
+  vehicleType?: VehicleType;
+  vehicle?: Partial<VehicleModel>;
+  battery?: Partial<BatteryConfig>;
+  payloadKg?: number;
+  wind?: Partial<WindConfig>;
+  gps?: Partial<GpsConfig>;
+  failures?: ScheduledFailure[];
+  failsafeTimeout?: number; // Seconds without a link before returning to launch
+  routeMode?: RouteMode;
+  laps?: number; // Repeats forever when omitted
+  geofences?: Geofence[];
+  seed: number;
+}
+
+// Receives the output of a running simulation
+export interface ClockListener {
+  onFrame: (frame: TelemetryFrame) => void;
+  onEvent: (event: SimulationEventMessage) => void;
+  onComplete: () => void;
+}
+
+// Drives a simulation from wall-clock time. Simulated time advances in
+// fixed steps at timeScale times real time, independent of timer jitter.
+export interface VirtualClock {
+  timeScale: number;
+  accumulator: number; // Simulated seconds owed but not yet stepped
+  lastTick: number; // Wall-clock milliseconds of the last tick
+  timer: NodeJS.Timeout | null;
+  listener: ClockListener;
+}
+
+// A change made to a running simulation
+export type SimulationCommand =
+  | { type: "SET_SPEED"; speed: number }
+  | { type: "RELEASE_HOLD" }
+  | { type: "INJECT_FAILURE"; failure: Failure }
+  | { type: "UPDATE_MISSION"; update: MissionUpdate }
+  | { type: "RETURN_TO_LAUNCH" };
+
+// A command with the step it was made at, so the flight can be replayed
+export type RecordedCommand = SimulationCommand & { step: number };
+
+// Where to move a simulation to: a simulated time in seconds, a fraction of
+// the route, or the moment a waypoint is reached
+export type SeekTarget =
+  | { time: number }
+  | { progress: number }
+  | { waypointIndex: number };
+
+export interface ActiveSimulation {
+  droneId: string;
+  config: SimulationConfig;
+  commands: RecordedCommand[];
+  state: SimulationState;
+  clock: VirtualClock;
+  recording: Recording;
+}
+
+// A drone taking part in separation monitoring, or shown to ground stations
+export interface MonitoredDrone {
+  clientId: string;
+  droneId: string;
+  state: SimulationState;
+}
+
+// A change in separation between two drones
+export interface SeparationChange {
+  drones: [MonitoredDrone, MonitoredDrone];
+  assessment: SeparationAssessment;
+  previous: SeparationStatus;
+}
+
+// Pairs of drones that were not clear of each other at the last check
+export interface SeparationMonitor {
+  config: SeparationConfig;
+  pairs: Map<
+    string,
+    { drones: [MonitoredDrone, MonitoredDrone]; assessment: SeparationAssessment }
+  >;
+}
+
+export interface WebSocketWithId extends WebSocket {
+  id?: string; // Id of the client, kept when it reconnects
+  sessionToken?: string; // Secret the client resumes its session with
+  protocolVersion?: number; // Set once the client's HELLO is accepted
+}
+
+// A client's session, which outlives its connection for a grace period so
+// that its flights survive a reconnect
+export interface ClientSession {
+  clientId: string;
+  expiryTimer: NodeJS.Timeout | null; // Set while the client is disconnected
+}
+
+// A named room: one operator flies simulations that any number of
+// observers watch
+export interface Room {
+  name: string;
+  operatorId: string | null; // Client controlling the room's simulations
+  observerIds: Set<string>; // Clients receiving the same updates read-only
+}
+
+// A room as listed to clients
+export interface RoomSummary {
+  name: string;
+  hasOperator: boolean;
+  observers: number;
+  drones: {
+    droneId: string;
+    flightMode: FlightMode;
+    simTime: number;
+    isPaused: boolean;
+    isComplete: boolean;
+  }[];
+}
+
+// A recorded simulation as stored alongside its log
+export interface RecordingMetadata {
+  id: string;
+  droneId: string;
+  startedAt: string; // ISO wall-clock time
+  endedAt: string | null; // Null while recording, or if the server stopped first
+  duration: number; // Seconds of simulated time at the last frame
+  frameCount: number;
+  commandCount: number;
+  config: SimulationConfig; // The mission and setup the simulation started with
+}
+
+// A line of a recording's log. Each is stamped with the wall-clock
+// milliseconds since the recording started, so it can be replayed at the
+// pace it happened.
+export type RecordingEntry =
+  | { at: number; message: ServerMessage } // Sent to the client
+  | { at: number; command: RecordedCommand }; // Changed the simulation
+
+// A recording being written
+export interface Recording {
+  metadata: RecordingMetadata;
+  startTime: number; // Wall-clock milliseconds
+  log: WriteStream;
+}
+
+// A recording being streamed back to a client as a drone of its own
+export interface Replay {
+  droneId: string;
+  messages: { at: number; message: ServerMessage }[];
+  next: number; // Index of the next message to send
+  startTime: number; // Wall-clock milliseconds the replay started
+  timeScale: number; // Recorded seconds per real second
+  timer: NodeJS.Timeout | null;
+}
+
+// A mission plan saved to the library
+export interface Mission {
+  id: string;
+  name: string;
+  description: string;
+  waypoints: Coordinate[];
+  tags: string[];
+  createdAt: string; // ISO time
+  updatedAt: string; // ISO time
+}
+
+export type ExportFormat = "gpx" | "kml" | "geojson" | "csv";
+
+// A point along the track a drone flew
+export interface TrackPoint {
+  time: number; // Seconds of simulated time
+  position: Coordinate;
+  groundSpeed: number; // Metres per second
+  heading: number; // Degrees clockwise from true north
+}
+
+// A flight to export: the route as planned, and the track flown if it has
+// been
+export interface FlightExport {
+  name: string;
+  startedAt: string | null; // ISO wall-clock time, which track times count from
+  altitudeReference: AltitudeReference;
+  route: Coordinate[];
+  track: TrackPoint[];
+}
+
+// How a mission flown headless ended: finished, cut short by a battery or
+// failure failsafe (returning to launch or landing), out of battery where it
+// was, stopped holding at a geofence, or still flying when time ran out
+export type FlightOutcome = "COMPLETED" | "ABORTED" | "BATTERY_DEPLETED" | "HOLDING" | "TIMED_OUT";
+
+// A leg of the mission, from reaching one waypoint to reaching the next
+export interface LegSummary {
+  from: number; // Waypoint indices
+  to: number;
+  lap: number;
+  duration: number; // Seconds, including any actions at the first waypoint
+  distance: number; // Metres flown, which wind or a detour can lengthen
+}
+
+// What happened on a mission flown headless
+export interface FlightSummary {
+  name: string;
+  outcome: FlightOutcome;
+  flightMode: FlightMode; // At the end of the flight
+  duration: number; // Seconds of simulated time
+  distance: number; // Metres flown
+  maxSpeed: number; // Ground speed, metres per second
+  averageSpeed: number; // Ground speed, metres per second
+  legs: LegSummary[];
+  energyUsedWh: number;
+  batteryRemainingWh: number;
+  stateOfCharge: number; // 0..1, at the end of the flight
+  events: SimulationEventMessage[];
+}
+
+// A command from a ground control station to one of the vehicles it sees.
+// A start carries the last mission uploaded to the vehicle, if any.
+export type GcsCommand =
+  | { type: "START"; mission: UploadedMission | null }
+  | { type: "PAUSE" }
+  | { type: "CONTINUE" }
+  | { type: "RETURN_TO_LAUNCH" }
+  | { type: "STOP" };
+
+export interface UploadedMission {
+  waypoints: Coordinate[];
+  altitudeReference: AltitudeReference;
+}
+
+export interface UdpEndpoint {
+  address: string;
+  port: number;
+}
+
+export interface MavlinkBridgeConfig {
+  port: number; // Local UDP port ground stations send commands to
+  bindAddress: string; // Local address commands are taken on
+  target: UdpEndpoint; // Where telemetry is sent, as well as to ground stations heard from
+}
+
+// A simulation shown to ground stations as a MAVLink vehicle
+export interface MavlinkVehicle {
+  systemId: number;
+  clientId: string;
+  droneId: string;
+}
+
+// A mission being uploaded by a ground station, one item at a time
+export interface MissionUpload {
+  count: number;
+  received: number; // Items received so far, which is the next one to ask for
+  waypoints: Coordinate[];
+  altitudeReference: AltitudeReference;
+  station: UdpEndpoint & { systemId: number; componentId: number };
+}
+
+// Carries the simulations to and from ground stations over UDP. Telemetry
+// for each vehicle goes to the configured target and to every ground
+// station that has sent a command.
+export interface MavlinkBridge {
+  config: MavlinkBridgeConfig;
+  socket: Socket;
+  sequences: Map<number, number>; // Next frame sequence number of each system id
+  vehicles: Map<number, MavlinkVehicle>; // By system id
+  missions: Map<number, UploadedMission>; // Uploaded to each system id, waiting to be flown
+  uploads: Map<number, MissionUpload>;
+  stations: Map<string, UdpEndpoint>; // Ground stations heard from, by address and port
+  streamCount: number; // Telemetry rounds sent, for pacing the slower messages
+  onCommand: (systemId: number, command: GcsCommand) => boolean;
+}
+
+// How the order of waypoints may change when optimising a route
+export interface RouteOptimizationOptions {
+  fixedStart: boolean; // Keep the first waypoint first
+  fixedEnd: boolean; // Keep the last waypoint last
+  returnToStart: boolean; // The route flies back to the first waypoint
+}
+
+// Waypoints reordered into a shorter route
+export interface RouteOptimization {
+  waypoints: Coordinate[];
+  order: number[]; // Index of each waypoint in the original order
+  distanceBefore: number; // Metres
+  distanceAfter: number; // Metres
+}
+
+export interface GeocodeResult {
+  name: string;
+  lat: number;
+  lng: number;
+}
@@ -0,0 +1,198 @@
+// wind.ts - Wind field models and the wind triangle
+
+import { WindConfig, WindLayer, WindMode, WindState, WindVector } from "./types";
+import { normalizeBearing, toDegrees, toRadians } from "./geo";
+import { createRandomState, nextRandom, randomBetween } from "./random";
+
+// Time constant in seconds for a gust to build up or die down
+const GUST_TIME_CONSTANT = 1.5;
+
+const WIND_MODES: WindMode[] = ["none", "constant", "gusting", "layered"];
+
+export const DEFAULT_WIND_CONFIG: WindConfig = {
+  mode: "none",
+  speed: 0,
+  direction: 0,
+  gustSpeed: 0,
+  gustInterval: 5,
+  gustDirectionVariance: 30,
+  layers: [],
+};
+
+export function isWindMode(value: unknown): value is WindMode {
+  return WIND_MODES.includes(value as WindMode);
+}
+
+/**
+ * Converts a wind speed and the direction it blows from (degrees, as
+ * reported by weather services) into the velocity of the air
+ */
+export function windVector(speed: number, fromDirection: number): WindVector {
+  const towards = toRadians(fromDirection + 180);
+  return { north: speed * Math.cos(towards), east: speed * Math.sin(towards) };
+}
+
+/**
+ * Converts an air velocity back into a speed and the direction it blows from
+ */
+export function windSpeedAndDirection(wind: WindVector): {
+  speed: number;
+  direction: number;
+} {
+  const speed = Math.hypot(wind.north, wind.east);
+  if (speed === 0) return { speed: 0, direction: 0 };
+  return {
+    speed,
+    direction: normalizeBearing(toDegrees(Math.atan2(wind.east, wind.north)) + 180),
+  };
+}
+
+export function createWindState(
+  config: Partial<WindConfig> = {},
+  seed: number
+): WindState {
+  const merged: WindConfig = { ...DEFAULT_WIND_CONFIG, ...config };
+  if (!isWindMode(merged.mode)) merged.mode = DEFAULT_WIND_CONFIG.mode;
+  merged.layers = [...(merged.layers || [])].sort((a, b) => a.altitude - b.altitude);
+
+  return {
+    config: merged,
+    random: createRandomState(seed),
+    gust: { north: 0, east: 0 },
+    gustTarget: { north: 0, east: 0 },
+    timeToNextGust: 0,
+    current: { north: 0, east: 0 },
+  };
+}
+
+/**
+ * Interpolates the wind between the two layers either side of the altitude,
+ * holding the lowest and highest layers beyond their altitudes
+ */
+function layeredWind(layers: WindLayer[], altitude: number): WindVector {
+  if (layers.length === 0) return { north: 0, east: 0 };
+
+  const toVector = (layer: WindLayer) => windVector(layer.speed, layer.direction);
+  if (altitude <= layers[0].altitude) return toVector(layers[0]);
+
+  for (let i = 1; i < layers.length; i++) {
+    if (altitude <= layers[i].altitude) {
+      const below = toVector(layers[i - 1]);
+      const above = toVector(layers[i]);
+      const ratio =
+        (altitude - layers[i - 1].altitude) /
+        (layers[i].altitude - layers[i - 1].altitude);
+      return {
+        north: below.north + (above.north - below.north) * ratio,
+        east: below.east + (above.east - below.east) * ratio,
+      };
+    }
+  }
+
+  return toVector(layers[layers.length - 1]);
+}
+
+/**
+ * Advances the wind field by dt seconds and returns the wind at the given
+ * altitude. Gusts start at random intervals with a random strength and
+ * direction around the mean wind, and build up and decay smoothly.
+ */
+export function updateWind(wind: WindState, altitude: number, dt: number): WindVector {
+  const { config } = wind;
+
+  switch (config.mode) {
+    case "constant":
+      wind.current = windVector(config.speed, config.direction);
+      break;
+    case "gusting": {
+      wind.timeToNextGust -= dt;
+      if (wind.timeToNextGust <= 0) {
+        wind.timeToNextGust = config.gustInterval * randomBetween(wind.random, 0.5, 1.5);
+        const strength = config.gustSpeed * nextRandom(wind.random);
+        const offset = randomBetween(
+          wind.random,
+          -config.gustDirectionVariance,
+          config.gustDirectionVariance
+        );
+        wind.gustTarget = windVector(strength, config.direction + offset);
+      }
+
+      const blend = 1 - Math.exp(-dt / GUST_TIME_CONSTANT);
+      wind.gust = {
+        north: wind.gust.north + (wind.gustTarget.north - wind.gust.north) * blend,
+        east: wind.gust.east + (wind.gustTarget.east - wind.gust.east) * blend,
+      };
+
+      const mean = windVector(config.speed, config.direction);
+      wind.current = {
+        north: mean.north + wind.gust.north,
+        east: mean.east + wind.gust.east,
+      };
+      break;
+    }
+    case "layered":
+      wind.current = layeredWind(config.layers, altitude);
+      break;
+    default:
+      wind.current = { north: 0, east: 0 };
+  }
+
+  return wind.current;
+}
+
+/**
+ * Splits the wind into components along the track and across it (positive
+ * to the right of the track)
+ */
+export function windComponents(
+  wind: WindVector,
+  track: number
+): { along: number; cross: number } {
+  const t = toRadians(track);
+  return {
+    along: wind.north * Math.cos(t) + wind.east * Math.sin(t),
+    cross: -wind.north * Math.sin(t) + wind.east * Math.cos(t),
+  };
+}
+
+/**
+ * Airspeed needed to make good the given speed along the track while
+ * cancelling the crosswind and steering back towards the track
+ */
+export function requiredAirspeed(
+  alongTrack: number,
+  track: number,
+  wind: WindVector,
+  crossTrackCorrection: number
+): number {
+  const { along, cross } = windComponents(wind, track);
+  return Math.hypot(alongTrack - along, crossTrackCorrection - cross);
+}
+
+/**
+ * Solves the wind triangle for a vehicle flying at the given airspeed along
+ * a track. The vehicle crabs into the crosswind and steers back towards the
+ * track when it has been blown off it. If the crosswind is stronger than the
+ * airspeed, it cannot hold the track and drifts sideways.
+ *
+ * Returns the along-track and cross-track ground velocities and the crab
+ * angle between heading and track (positive to the right).
+ */
+export function solveWindTriangle(
+  airspeed: number,
+  track: number,
+  wind: WindVector,
+  crossTrackCorrection: number
+): { alongTrack: number; crossTrack: number; crabAngle: number } {
+  const { along, cross } = windComponents(wind, track);
+
+  const airCross = Math.max(-airspeed, Math.min(airspeed, crossTrackCorrection - cross));
+  const airAlong = Math.sqrt(Math.max(airspeed * airspeed - airCross * airCross, 0));
+
+  return {
+    // A headwind stronger than the airspeed holds the vehicle in place
+    alongTrack: Math.max(airAlong + along, 0),
+    crossTrack: airCross + cross,
+    crabAngle: airspeed > 0 ? toDegrees(Math.atan2(airCross, airAlong)) : 0,
+  };
+}